@@ -0,0 +1,106 @@
+import { join, resolve } from "node:path";
+import { copyConfigDir, prepareBundleDir, writeBundleExtras } from "../lib/bundle.js";
+import {
+	loadSessions,
+	loadUserConfig,
+	resolveTool,
+	saveUserConfig,
+	writeOZConfigs,
+} from "../lib/config-manager.js";
+import { formatValidationIssue, validateConfigDir } from "../lib/config-validator.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { rankingWarnings, rankRpcEndpoints } from "../lib/rpc-health.js";
+import { getConfigSecretEnv, hasPlainSecrets, resolveSecretEnv } from "../lib/secret-store.js";
+import { buildOZConfigs } from "../lib/template-engine.js";
+import { hint, log, spinner } from "../lib/ui.js";
+
+interface ExportOptions {
+	out: string;
+	tool?: string;
+	docker?: boolean;
+	env?: boolean;
+	force?: boolean;
+}
+
+export async function exportCommand(target: string, options: ExportOptions): Promise<void> {
+	const tool = resolveTool(options.tool);
+	const outDir = resolve(options.out);
+
+	// A profile is generated fresh; a session is exported exactly as it runs
+	let config = await loadUserConfig(tool, target);
+	const session = config ? null : (await loadSessions()).find((s) => s.id === target);
+	if (!config && !session) {
+		log.error(`No profile or session named "${target}"`);
+		hint("View profiles and sessions with:");
+		hint("  blip0 profiles list");
+		hint("  blip0 list");
+		process.exitCode = 1;
+		return;
+	}
+
+	await prepareBundleDir(outDir, options);
+	const s = spinner();
+	s.start(`Exporting to ${outDir}...`);
+
+	let secretEnv: Record<string, string>;
+	let source: string;
+	const warnings: string[] = [];
+
+	if (config) {
+		if (hasPlainSecrets(config)) {
+			config = await saveUserConfig(tool, config, target);
+		}
+		const networkPreset = getNetwork(config.network);
+		const ranking = networkPreset ? await rankRpcEndpoints(networkPreset) : undefined;
+		if (networkPreset && ranking) {
+			warnings.push(...rankingWarnings(networkPreset, ranking));
+		}
+		const { network, monitor, trigger } = await buildOZConfigs(tool, config, ranking?.endpoints);
+		await writeOZConfigs(
+			outDir,
+			network as unknown as Record<string, unknown>,
+			monitor as unknown as Record<string, unknown>,
+			trigger as unknown as Record<string, unknown>,
+		);
+		secretEnv = getConfigSecretEnv(config);
+		source = `${tool} profile "${target}"`;
+	} else {
+		const found = session as NonNullable<typeof session>;
+		await copyConfigDir(join(found.configPath, "config"), outDir);
+		secretEnv = found.secretEnv ?? {};
+		source = `${found.tool} session ${found.id}`;
+	}
+
+	const extras = await writeBundleExtras(outDir, {
+		source,
+		secretEnv,
+		envValues: options.env ? await resolveSecretEnv(secretEnv) : undefined,
+		docker: options.docker,
+	});
+
+	const report = await validateConfigDir(outDir);
+	const errors = report.issues.filter((issue) => issue.severity === "error");
+	s.stop(`Exported ${report.files} config file(s) and ${extras.join(", ")}`);
+
+	for (const warning of warnings) {
+		log.warn(warning);
+	}
+	for (const issue of report.issues) {
+		(issue.severity === "error" ? log.error : log.warn)(formatValidationIssue(issue));
+	}
+	if (errors.length > 0) {
+		process.exitCode = 1;
+		return;
+	}
+
+	log.success(`Bundle ready in ${outDir}`);
+	if (options.env) {
+		log.warn(".env holds notification secrets in plain text, keep it out of version control");
+	}
+	hint(options.docker ? "Start it with:" : "See README.md in the bundle to run it, e.g.:");
+	hint(
+		options.docker
+			? `  cd ${outDir} && docker compose up -d`
+			: `  cd ${outDir} && openzeppelin-monitor`,
+	);
+}
@@ -0,0 +1,193 @@
+import { copyFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import {
+	addSession,
+	createSessionDir,
+	isValidProfileName,
+	listProfiles,
+	saveUserConfig,
+	writeOZConfigs,
+} from "../lib/config-manager.js";
+import {
+	formatValidationIssue,
+	resolveConfigDir,
+	validateConfigDir,
+} from "../lib/config-validator.js";
+import { type ImportedMonitor, planImport } from "../lib/importer.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { rankingWarnings, rankRpcEndpoints } from "../lib/rpc-health.js";
+import { generateSessionId, parseRuntimeOptions, startMonitor } from "../lib/runtime-manager.js";
+import { getConfigSecretEnv, resolveConfigSecrets } from "../lib/secret-store.js";
+import { buildOZConfigs } from "../lib/template-engine.js";
+import { color, hint, intro, log, note } from "../lib/ui.js";
+import type { RpcEndpoint, SessionInfo } from "../types/index.js";
+
+// Tool that imported profiles belong to, and the tool name of raw sessions
+const TOOL_NAME = "whale-alert";
+const RAW_TOOL = "raw";
+
+interface ImportOptions {
+	start?: boolean;
+	dryRun?: boolean;
+	runtime?: string;
+	image?: string;
+}
+
+export async function importCommand(dir: string, options: ImportOptions = {}): Promise<void> {
+	const runtime = parseRuntimeOptions(options);
+	const configDir = resolveConfigDir(dir);
+	if (!configDir) {
+		log.error(`Not an OpenZeppelin Monitor config directory: ${dir}`);
+		hint("Pass a directory containing monitors/, networks/ and triggers/, or one with config/");
+		process.exitCode = 1;
+		return;
+	}
+
+	// Only import what OZ Monitor itself would accept
+	const report = await validateConfigDir(configDir);
+	const errors = report.issues.filter((issue) => issue.severity === "error");
+	if (errors.length > 0) {
+		for (const issue of errors) {
+			log.error(formatValidationIssue(issue));
+		}
+		log.error(`Fix the ${errors.length} error(s) above before importing`);
+		process.exitCode = 1;
+		return;
+	}
+
+	intro(`Import ${configDir}`);
+
+	const plan = await planImport(configDir, TOOL_NAME);
+	note(plan.map(describePlan).join("\n"), `${plan.length} monitor(s)`);
+	if (options.dryRun) {
+		hint("Nothing was imported (dry run)");
+		return;
+	}
+
+	const taken = new Set(await listProfiles(TOOL_NAME));
+	const sessions: SessionInfo[] = [];
+	// Each network is ranked once, however many monitors use it
+	const rankings = new Map<string, RpcEndpoint[] | undefined>();
+
+	for (const entry of plan) {
+		const sessionId = generateSessionId();
+		const sessionDir = await createSessionDir(sessionId);
+		let profile: string | undefined;
+		let secretEnv: Record<string, string> | undefined;
+
+		if (entry.kind === "profile") {
+			profile = uniqueProfileName(entry.file, taken);
+			taken.add(profile);
+			// Like a copied profile, an imported one gets its own secrets
+			const config = await saveUserConfig(
+				TOOL_NAME,
+				await resolveConfigSecrets(entry.config),
+				profile,
+			);
+			if (!rankings.has(config.network)) {
+				rankings.set(config.network, await rankNetwork(config.network));
+			}
+			const { network, monitor, trigger } = await buildOZConfigs(
+				TOOL_NAME,
+				config,
+				rankings.get(config.network),
+			);
+			await writeOZConfigs(
+				sessionDir,
+				network as unknown as Record<string, unknown>,
+				monitor as unknown as Record<string, unknown>,
+				trigger as unknown as Record<string, unknown>,
+			);
+			secretEnv = getConfigSecretEnv(config);
+		} else {
+			// Raw monitors run from the original files, byte for byte
+			for (const file of entry.files) {
+				await copyFile(join(configDir, file.file), join(sessionDir, "config", file.file));
+			}
+			secretEnv = entry.secretEnv;
+		}
+
+		const tool = entry.kind === "profile" ? TOOL_NAME : RAW_TOOL;
+		if (options.start) {
+			const session = await startMonitor(sessionDir, tool, sessionId, {
+				profile,
+				secretEnv,
+				...runtime,
+			});
+			if (!session) {
+				log.error(`Failed to start ${entry.name}`);
+				process.exitCode = 1;
+				continue;
+			}
+			sessions.push(session);
+		} else {
+			const session: SessionInfo = {
+				id: sessionId,
+				tool,
+				profile,
+				secretEnv,
+				configPath: sessionDir,
+				...runtime,
+				startedAt: new Date(),
+				status: "stopped",
+			};
+			await addSession(session);
+			sessions.push(session);
+		}
+
+		log.success(
+			`${entry.name} → ${profile ? `profile "${profile}", ` : ""}session ${color.cyan(sessionId)}`,
+		);
+	}
+
+	if (sessions.length === 0) {
+		return;
+	}
+	if (options.start) {
+		hint("View the monitors with:");
+		hint("  blip0 list");
+	} else {
+		hint("Imported monitors are stopped. Start one with:");
+		hint(`  blip0 restart ${sessions[0]?.id}`);
+	}
+}
+
+/**
+ * One line of the import plan
+ */
+function describePlan(entry: ImportedMonitor): string {
+	return entry.kind === "profile"
+		? `${entry.name} ${color.dim(`(${entry.file})`)} → profile`
+		: `${entry.name} ${color.dim(`(${entry.file})`)} → raw session: ${entry.reason}`;
+}
+
+/**
+ * A free profile name based on the monitor's file name
+ */
+function uniqueProfileName(file: string, taken: Set<string>): string {
+	const base =
+		basename(file, ".json")
+			.replace(/[^A-Za-z0-9._-]+/g, "-")
+			.replace(/^[^A-Za-z0-9]+/, "")
+			.slice(0, 56) || "imported";
+	let name = base;
+	for (let n = 2; taken.has(name) || !isValidProfileName(name); n++) {
+		name = `${base}-${n}`;
+	}
+	return name;
+}
+
+/**
+ * Rank a network's RPC endpoints by health, warning about the ones skipped
+ */
+async function rankNetwork(slug: string): Promise<RpcEndpoint[] | undefined> {
+	const network = getNetwork(slug);
+	if (!network) {
+		return undefined;
+	}
+	const ranking = await rankRpcEndpoints(network);
+	for (const warning of rankingWarnings(network, ranking)) {
+		log.warn(warning);
+	}
+	return ranking.endpoints;
+}
@@ -0,0 +1,108 @@
+import { fetchContractSpec } from "../lib/contract-inspector.js";
+import { lintExpression } from "../lib/expression-parser.js";
+import { getConditionParams, type MatchKind } from "../lib/match-conditions.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { hint, log, spinner } from "../lib/ui.js";
+import type { MatchParam, NetworkPreset } from "../types/index.js";
+
+const LINT_KINDS = ["event", "function", "transaction"] as const;
+
+export interface LintExpressionOptions {
+	signature?: string;
+	network?: string;
+	contract?: string;
+	kind?: string;
+}
+
+export async function lintExpressionCommand(
+	expression: string,
+	options: LintExpressionOptions,
+): Promise<void> {
+	const network = options.network ?? "stellar_mainnet";
+	const networkPreset = getNetwork(network);
+	if (!networkPreset) {
+		log.error(`Unknown network: ${network}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const kind = (options.kind ?? "event") as (typeof LINT_KINDS)[number];
+	if (!LINT_KINDS.includes(kind)) {
+		log.error(`Unknown kind "${options.kind}" (expected one of: ${LINT_KINDS.join(", ")})`);
+		process.exitCode = 1;
+		return;
+	}
+
+	let params: MatchParam[] | undefined;
+	if (kind !== "transaction") {
+		if (options.signature) {
+			params = await resolveParams(options.signature, kind, networkPreset, options.contract);
+		} else {
+			log.warn("No --signature given, only the syntax is checked");
+		}
+	}
+
+	const result = lintExpression(expression, { kind, networkType: networkPreset.type, params });
+
+	for (const warning of result.warnings) {
+		log.warn(warning);
+	}
+	if (result.errors.length > 0) {
+		for (const error of result.errors) {
+			log.error(error);
+		}
+		process.exitCode = 1;
+		return;
+	}
+
+	log.success("Expression is valid");
+}
+
+/**
+ * Parameters of a signature, from the contract's spec when given or from the signature itself
+ */
+async function resolveParams(
+	signature: string,
+	kind: MatchKind,
+	networkPreset: NetworkPreset,
+	contract?: string,
+): Promise<MatchParam[]> {
+	const fromSignature = () => getConditionParams({ signature }, kind, networkPreset.type);
+
+	if (!contract) {
+		return fromSignature();
+	}
+
+	const s = spinner();
+	s.start("Fetching contract interface...");
+	const result = await fetchContractSpec(contract, networkPreset.slug);
+
+	if (!result.success) {
+		s.stop("Could not fetch contract interface");
+		log.warn(`${result.error}, checking against the signature's types only`);
+		return fromSignature();
+	}
+
+	const spec = result.spec;
+	const match =
+		kind === "event"
+			? spec.events.find((event) => event.signature === signature)?.fields
+			: spec.functions.find((fn) => fn.signature === signature)?.inputs;
+
+	if (!match) {
+		s.stop(`${signature} not found in the contract`);
+		const available = (kind === "event" ? spec.events : spec.functions).map(
+			(item) => item.signature,
+		);
+		if (available.length > 0) {
+			hint(`Available ${kind}s:`);
+			for (const item of available) {
+				hint(`  ${item}`);
+			}
+		}
+		return fromSignature();
+	}
+
+	s.stop("Contract interface loaded");
+	return match;
+}
@@ -1,11 +1,12 @@
-import { loadSessions } from "../lib/config-manager.js";
-import { isSessionRunning } from "../lib/runtime-manager.js";
+import { reconcileSessions } from "../lib/runtime-manager.js";
 import { color, divider, hint, intro, log, tableRow } from "../lib/ui.js";
+import type { SessionInfo } from "../types/index.js";
 
 export async function listCommand(): Promise<void> {
-	intro("Running Monitors");
+	intro("Monitors");
 
-	const sessions = await loadSessions();
+	// Sessions whose process died are marked as errored
+	const sessions = await reconcileSessions();
 
 	if (sessions.length === 0) {
 		log.message("No monitors running.");
@@ -15,37 +16,54 @@ export async function listCommand(): Promise<void> {
 	}
 
 	// Table header
-	divider(70);
+	divider(100);
 	log.message(
 		tableRow([
 			{ value: "ID", width: 12, color: color.white },
-			{ value: "Tool", width: 16, color: color.white },
+			{ value: "Tool", width: 14, color: color.white },
+			{ value: "Profile", width: 16, color: color.white },
 			{ value: "Status", width: 12, color: color.white },
+			{ value: "Version", width: 14, color: color.white },
 			{ value: "Started", width: 24, color: color.white },
 		]),
 	);
-	divider(70);
+	divider(100);
 
 	// Table rows
 	for (const session of sessions) {
-		const isRunning = await isSessionRunning(session.id);
-		const status = isRunning ? "running" : "stopped";
-		const statusColor = isRunning ? color.green : color.red;
+		const status = session.status;
+		const statusColor =
+			status === "running" ? color.green : status === "error" ? color.red : color.dim;
 		const startedAt = new Date(session.startedAt).toLocaleString();
 
 		log.message(
 			tableRow([
 				{ value: session.id, width: 12, color: color.cyan },
-				{ value: session.tool, width: 16 },
+				{ value: session.tool, width: 14 },
+				{ value: session.profile ?? "-", width: 16, color: color.dim },
 				{ value: status, width: 12, color: statusColor },
+				{ value: describeVersion(session), width: 14, color: color.dim },
 				{ value: startedAt, width: 24, color: color.dim },
 			]),
 		);
 	}
 
-	divider(70);
+	divider(100);
 
 	// Help hint
 	hint("Stop a monitor with:");
 	hint("  blip0 stop <session-id>");
+	hint("Restart a stopped or failed monitor with:");
+	hint("  blip0 restart <session-id>");
+}
+
+/**
+ * The monitor version a session runs: the binary version, or the image tag of a docker session
+ */
+function describeVersion(session: SessionInfo): string {
+	if (session.runtime === "docker") {
+		const tag = session.image?.match(/:([^:/]+)$/)?.[1] ?? "latest";
+		return `docker ${tag}`;
+	}
+	return session.binaryVersion ?? "-";
 }
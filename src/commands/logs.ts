@@ -0,0 +1,93 @@
+import { loadSessions } from "../lib/config-manager.js";
+import { followContainerLogs, readContainerLogs } from "../lib/docker-runtime.js";
+import {
+	createLogFilter,
+	followSessionLog,
+	isLogLevel,
+	LOG_LEVELS,
+	type LogEntry,
+	type LogFilter,
+	parseLogLine,
+	parseSince,
+	readSessionLogs,
+} from "../lib/log-manager.js";
+import { color, hint, log } from "../lib/ui.js";
+
+interface LogsOptions {
+	follow?: boolean;
+	since?: string;
+	level?: string;
+	lines?: string;
+}
+
+export async function logsCommand(sessionId: string, options: LogsOptions): Promise<void> {
+	const sessions = await loadSessions();
+	const session = sessions.find((s) => s.id === sessionId);
+
+	if (!session) {
+		log.error(`Session not found: ${sessionId}`);
+		hint("View running monitors with:");
+		hint("  blip0 list");
+		return;
+	}
+
+	const filter: LogFilter = {};
+	if (options.since) {
+		filter.since = parseSince(options.since);
+	}
+	if (options.level) {
+		const level = options.level.toLowerCase();
+		if (!isLogLevel(level)) {
+			throw new Error(
+				`Unknown log level "${options.level}" (expected one of: ${LOG_LEVELS.join(", ")})`,
+			);
+		}
+		filter.level = level;
+	}
+
+	const lines = Number.parseInt(options.lines ?? "200", 10);
+	if (Number.isNaN(lines) || lines < 0) {
+		throw new Error(`Invalid --lines value "${options.lines}"`);
+	}
+
+	// Docker sessions log to the container rather than the session directory
+	const containerId = session.containerId;
+	const entries = containerId
+		? (await readContainerLogs(containerId)).map(parseLogLine).filter(createLogFilter(filter))
+		: await readSessionLogs(session.configPath, filter, lines);
+	for (const entry of lines === 0 ? entries : entries.slice(-lines)) {
+		printEntry(entry);
+	}
+
+	if (!options.follow) {
+		if (entries.length === 0) {
+			hint(filter.since || filter.level ? "No matching log output." : "No log output yet.");
+		}
+		return;
+	}
+
+	const controller = new AbortController();
+	process.once("SIGINT", () => controller.abort());
+	if (containerId) {
+		const matches = createLogFilter(filter);
+		await followContainerLogs(
+			containerId,
+			(line) => {
+				const entry = parseLogLine(line);
+				if (matches(entry)) printEntry(entry);
+			},
+			controller.signal,
+		);
+		return;
+	}
+	await followSessionLog(session.configPath, filter, printEntry, controller.signal);
+}
+
+/**
+ * Print a log line, highlighting warnings and errors
+ */
+function printEntry(entry: LogEntry): void {
+	const colorFn =
+		entry.level === "error" ? color.red : entry.level === "warn" ? color.yellow : undefined;
+	process.stdout.write(`${colorFn ? colorFn(entry.text) : entry.text}\n`);
+}
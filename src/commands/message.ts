@@ -0,0 +1,103 @@
+import { DEFAULT_PROFILE, loadProfileOrReport, resolveTool } from "../lib/config-manager.js";
+import {
+	getMessagePlaceholders,
+	getMessageVariables,
+	lintMessage,
+	type MessageChannel,
+	renderMessageData,
+	resolveMessage,
+	sampleMessageData,
+} from "../lib/message-template.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { buildMessageVars, renderMessage } from "../lib/template-engine.js";
+import { color, hint, intro, keyValue, log, note } from "../lib/ui.js";
+
+const CHANNELS: MessageChannel[] = ["discord", "slack", "telegram", "webhook"];
+
+interface MessageOptions {
+	tool?: string;
+}
+
+export async function messagePreviewCommand(
+	profile: string = DEFAULT_PROFILE,
+	options: MessageOptions & { channel?: string; data?: string },
+): Promise<void> {
+	const tool = resolveTool(options.tool);
+	const config = await loadProfileOrReport(tool, profile);
+	if (!config) return;
+
+	const channel = (options.channel ?? config.notificationType) as MessageChannel;
+	if (!CHANNELS.includes(channel)) {
+		log.error(`Unknown channel "${options.channel}" (expected one of: ${CHANNELS.join(", ")})`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const networkPreset = getNetwork(config.network);
+	if (!networkPreset) {
+		log.error(`Unknown network: ${config.network}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const lint = lintMessage(resolveMessage(config), config);
+	for (const warning of lint.warnings) {
+		log.warn(warning);
+	}
+	if (lint.errors.length > 0) {
+		for (const error of lint.errors) {
+			log.error(error);
+		}
+		process.exitCode = 1;
+		return;
+	}
+
+	const vars = buildMessageVars(tool, config, networkPreset);
+	const message = renderMessage(config, vars, channel);
+
+	// A recorded match from --data, or synthetic values for the monitor's arguments
+	const data = options.data
+		? (JSON.parse(await Bun.file(options.data).text()) as Record<string, unknown>)
+		: sampleMessageData(config, vars.MONITOR_NAME);
+
+	const title = renderMessageData(message.title, data);
+	const body = renderMessageData(message.body, data);
+	note(`${title}\n\n${body}`, `Preview (${channel}${options.data ? "" : ", sample data"})`);
+
+	const unresolved = [...`${title}\n${body}`.matchAll(/\$\{([\w.]+)\}/g)].map((match) => match[0]);
+	if (unresolved.length > 0) {
+		log.warn(
+			`Not found in the ${options.data ? "data file" : "sample data"}: ${unresolved.join(", ")}`,
+		);
+	}
+
+	hint("Change the message with:");
+	hint(`  blip0 ${tool} --profile ${profile} --reconfigure`);
+}
+
+export async function messageVariablesCommand(
+	profile: string = DEFAULT_PROFILE,
+	options: MessageOptions,
+): Promise<void> {
+	const tool = resolveTool(options.tool);
+	const config = await loadProfileOrReport(tool, profile);
+	if (!config) return;
+
+	intro(`Message variables: ${profile}`);
+
+	log.message(color.white("Filled in when the monitor starts"));
+	for (const variable of getMessagePlaceholders()) {
+		keyValue(`{{${variable.name}}}`, variable.description, 24);
+	}
+
+	log.message(
+		color.white(
+			`Filled in by OpenZeppelin Monitor for each ${config.monitorType || "events"} match`,
+		),
+	);
+	for (const variable of getMessageVariables(config)) {
+		keyValue(`\${${variable.name}}`, variable.description, 24);
+	}
+
+	hint("Format with **bold** and `code`, converted for Discord, Slack, Telegram and webhooks");
+}
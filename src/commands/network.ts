@@ -0,0 +1,371 @@
+import { loadSavedConfigs, NETWORK_PRESETS, TOOLS } from "../lib/config-manager.js";
+import {
+	getNetwork,
+	getNetworks,
+	getRpcEndpoints,
+	isCustomNetwork,
+	isValidNetworkSlug,
+	parseRpcEndpoint,
+	removeNetwork,
+	STELLAR_PASSPHRASES,
+	saveNetwork,
+} from "../lib/network-registry.js";
+import { describeRpcHealth, probeNetwork } from "../lib/rpc-health.js";
+import { color, divider, hint, intro, keyValue, log, spinner, tableRow } from "../lib/ui.js";
+import type { NetworkPreset, RpcEndpoint } from "../types/index.js";
+
+interface NetworkAddOptions {
+	name?: string;
+	type?: string;
+	rpc: string[];
+	passphrase?: string;
+	chainId?: string;
+	blockTime?: string;
+	confirmationBlocks?: string;
+	cron?: string;
+	maxPastBlocks?: string;
+	storeBlocks?: boolean;
+	explorer?: string;
+	force?: boolean;
+}
+
+export async function networkAddCommand(slug: string, options: NetworkAddOptions): Promise<void> {
+	const result = buildNetwork(slug, options);
+	if (!result.success) {
+		for (const error of result.errors) {
+			log.error(error);
+		}
+		process.exitCode = 1;
+		return;
+	}
+
+	const network = result.network;
+	const existing = getNetwork(slug);
+	if (existing && !options.force) {
+		log.error(
+			isCustomNetwork(slug)
+				? `Network "${slug}" already exists`
+				: `"${slug}" is a built-in network`,
+		);
+		hint(`Pass --force to ${isCustomNetwork(slug) ? "replace" : "override"} it`);
+		process.exitCode = 1;
+		return;
+	}
+
+	await saveNetwork(network);
+	const endpoints = getRpcEndpoints(network).length;
+	log.success(
+		`${existing ? "Updated" : "Added"} ${network.type} network "${slug}" with ${endpoints} RPC endpoint(s)`,
+	);
+	hint("Monitor it with:");
+	hint(`  blip0 whale-alert --network ${slug}`);
+}
+
+export async function networkListCommand(): Promise<void> {
+	intro("Networks");
+
+	divider(86);
+	log.message(
+		tableRow([
+			{ value: "Slug", width: 22, color: color.white },
+			{ value: "Name", width: 24, color: color.white },
+			{ value: "Type", width: 8, color: color.white },
+			{ value: "RPCs", width: 5, color: color.white },
+			{ value: "Source", width: 10, color: color.white },
+		]),
+	);
+	divider(86);
+
+	for (const network of Object.values(getNetworks())) {
+		log.message(
+			tableRow([
+				{ value: network.slug, width: 22, color: color.cyan },
+				{ value: network.name, width: 24 },
+				{ value: network.type, width: 8 },
+				{ value: String(getRpcEndpoints(network).length), width: 5 },
+				{ value: describeSource(network.slug), width: 10, color: color.dim },
+			]),
+		);
+	}
+
+	divider(86);
+	hint("Add a network with:");
+	hint("  blip0 network add <slug> --rpc <url> [--rpc <url>@<weight>]");
+}
+
+export async function networkShowCommand(slug: string): Promise<void> {
+	const network = getNetwork(slug);
+	if (!network) {
+		log.error(`Unknown network: ${slug}`);
+		hint("View networks with:");
+		hint("  blip0 network list");
+		process.exitCode = 1;
+		return;
+	}
+
+	intro(`Network: ${slug}`);
+	keyValue("Name", network.name, 20);
+	keyValue("Type", network.type, 20);
+	keyValue("Source", describeSource(slug), 20);
+	if (network.type === "Stellar") {
+		keyValue("Passphrase", network.networkPassphrase ?? "-", 20);
+	} else {
+		keyValue("Chain ID", String(network.chainId ?? "-"), 20);
+	}
+	keyValue("Block time", `${network.blockTimeMs} ms`, 20);
+	if (isCustomNetwork(slug)) {
+		keyValue("Confirmation blocks", String(network.confirmationBlocks ?? "default"), 20);
+		keyValue("Cron schedule", network.cronSchedule ?? "default", 20);
+		keyValue("Max past blocks", String(network.maxPastBlocks ?? "default"), 20);
+		keyValue("Store blocks", String(network.storeBlocks ?? "default"), 20);
+	}
+	if (network.explorerUrl) {
+		keyValue("Explorer", network.explorerUrl, 20);
+	}
+	for (const [index, endpoint] of getRpcEndpoints(network).entries()) {
+		keyValue(
+			index === 0 ? "RPC" : "",
+			`${endpoint.url} ${color.dim(`(weight ${endpoint.weight})`)}`,
+			20,
+		);
+	}
+
+	const profiles = await profilesUsing(slug);
+	if (profiles.length > 0) {
+		keyValue("Used by", profiles.join(", "), 20);
+	}
+}
+
+export async function networkRemoveCommand(
+	slug: string,
+	options: { force?: boolean },
+): Promise<void> {
+	if (!isCustomNetwork(slug)) {
+		log.error(
+			slug in NETWORK_PRESETS
+				? `"${slug}" is a built-in network and can't be removed`
+				: `Unknown network: ${slug}`,
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	// Removing an override falls back to the built-in network, so profiles keep working
+	const profiles = slug in NETWORK_PRESETS ? [] : await profilesUsing(slug);
+	if (profiles.length > 0 && !options.force) {
+		log.error(`Network "${slug}" is used by ${profiles.join(", ")}`);
+		hint("Pass --force to remove it anyway; those profiles won't start until it is added back");
+		process.exitCode = 1;
+		return;
+	}
+
+	await removeNetwork(slug);
+	log.success(
+		slug in NETWORK_PRESETS
+			? `Removed the override of "${slug}", the built-in network is used again`
+			: `Removed network "${slug}"`,
+	);
+	hint("Monitors already running keep their own copy of the network config.");
+}
+
+export async function networkCheckCommand(slugs: string[]): Promise<void> {
+	const unknown = slugs.filter((slug) => !getNetwork(slug));
+	if (unknown.length > 0) {
+		log.error(`Unknown network(s): ${unknown.join(", ")}`);
+		hint("View networks with:");
+		hint("  blip0 network list");
+		process.exitCode = 1;
+		return;
+	}
+
+	const networks =
+		slugs.length > 0
+			? slugs.map((slug) => getNetwork(slug) as NetworkPreset)
+			: Object.values(getNetworks());
+
+	intro("RPC health");
+	const s = spinner();
+	s.start(`Probing ${networks.length} network(s)...`);
+	const probed = await Promise.all(
+		networks.map(async (network) => ({ network, results: await probeNetwork(network) })),
+	);
+	s.stop("Probed RPC endpoints");
+
+	divider(106);
+	log.message(
+		tableRow([
+			{ value: "Network", width: 20, color: color.white },
+			{ value: "RPC", width: 46, color: color.white },
+			{ value: "Status", width: 10, color: color.white },
+			{ value: "Latency", width: 9, color: color.white },
+			{ value: "Ledger", width: 11, color: color.white },
+			{ value: "Lag", width: 5, color: color.white },
+		]),
+	);
+	divider(106);
+
+	const down: string[] = [];
+	for (const { network, results } of probed) {
+		for (const [index, result] of results.entries()) {
+			log.message(
+				tableRow([
+					{ value: index === 0 ? network.slug : "", width: 20, color: color.cyan },
+					{ value: result.url, width: 46 },
+					result.healthy
+						? { value: "healthy", width: 10, color: color.green }
+						: { value: "unhealthy", width: 10, color: color.red },
+					{ value: result.latencyMs === undefined ? "-" : `${result.latencyMs} ms`, width: 9 },
+					{
+						value: result.latestLedger === undefined ? "-" : String(result.latestLedger),
+						width: 11,
+					},
+					{ value: result.lag === undefined ? "-" : String(result.lag), width: 5 },
+				]),
+			);
+			if (!result.healthy) {
+				hint(`  ${describeRpcHealth(result)}`);
+			}
+		}
+		if (!results.some((result) => result.healthy)) {
+			down.push(network.slug);
+		}
+	}
+	divider(106);
+
+	if (down.length > 0) {
+		log.error(`No healthy RPC endpoint for: ${down.join(", ")}`);
+		hint("Add a working endpoint with:");
+		hint(`  blip0 network add ${down[0]} --rpc <url> --force`);
+		process.exitCode = 1;
+		return;
+	}
+	log.success("Every network has a healthy RPC endpoint");
+}
+
+/**
+ * Build a network definition from command-line options
+ * Overrides of a built-in network keep its settings unless given
+ */
+function buildNetwork(
+	slug: string,
+	options: NetworkAddOptions,
+): { success: true; network: NetworkPreset } | { success: false; errors: string[] } {
+	const base: Partial<NetworkPreset> = NETWORK_PRESETS[slug] ?? {};
+	const errors: string[] = [];
+	if (!isValidNetworkSlug(slug)) {
+		errors.push(`Invalid network slug "${slug}" (use lowercase letters, digits, "_" and "-")`);
+	}
+
+	const type = (options.type ?? base.type ?? "stellar").toLowerCase();
+	if (type !== "stellar" && type !== "evm") {
+		errors.push(`Unknown network type "${options.type}" (expected stellar or evm)`);
+	}
+	const isStellar = type !== "evm";
+
+	const rpcUrls: RpcEndpoint[] = [];
+	for (const input of options.rpc ?? []) {
+		const endpoint = parseRpcEndpoint(input);
+		if (endpoint) {
+			rpcUrls.push(endpoint);
+		} else {
+			errors.push(
+				`Invalid RPC "${input}" (expected an http(s) URL, optionally with @<weight 0-100>)`,
+			);
+		}
+	}
+	if (!options.rpc?.length) {
+		errors.push("At least one --rpc is required");
+	}
+
+	const passphrase = options.passphrase
+		? (STELLAR_PASSPHRASES[options.passphrase] ?? options.passphrase)
+		: base.networkPassphrase;
+	if (isStellar && !passphrase) {
+		errors.push(
+			`Stellar networks need --passphrase (the passphrase, or one of: ${Object.keys(STELLAR_PASSPHRASES).join(", ")})`,
+		);
+	}
+	const chainId = parseInteger(options.chainId, "--chain-id", errors) ?? base.chainId;
+	if (!isStellar && chainId === undefined) {
+		errors.push("EVM networks need --chain-id");
+	}
+
+	const blockTimeMs = parseInteger(options.blockTime, "--block-time", errors);
+	const confirmationBlocks = parseInteger(
+		options.confirmationBlocks,
+		"--confirmation-blocks",
+		errors,
+	);
+	const maxPastBlocks = parseInteger(options.maxPastBlocks, "--max-past-blocks", errors);
+
+	// OZ Monitor schedules with seconds, e.g. "0 */1 * * * *"
+	const cronFields = options.cron?.trim().split(/\s+/).length;
+	if (cronFields !== undefined && cronFields !== 6 && cronFields !== 7) {
+		errors.push(`Invalid --cron "${options.cron}" (expected 6 fields, starting with seconds)`);
+	}
+	if (options.explorer && !/^https?:\/\/\S+$/.test(options.explorer)) {
+		errors.push(`Invalid --explorer URL "${options.explorer}"`);
+	}
+
+	// Highest weight first, so blip0's own calls go to the preferred endpoint
+	rpcUrls.sort((a, b) => b.weight - a.weight);
+	const [primary] = rpcUrls;
+	if (errors.length > 0 || !primary) {
+		return { success: false, errors };
+	}
+
+	const network: NetworkPreset = {
+		...base,
+		slug,
+		name: options.name ?? base.name ?? slug,
+		type: isStellar ? "Stellar" : "EVM",
+		rpcUrl: primary.url,
+		rpcUrls,
+		...(isStellar ? { networkPassphrase: passphrase } : { chainId }),
+		blockTimeMs: blockTimeMs ?? base.blockTimeMs ?? (isStellar ? 5000 : 12000),
+		...(confirmationBlocks !== undefined && { confirmationBlocks }),
+		...(options.cron && { cronSchedule: options.cron.trim() }),
+		...(maxPastBlocks !== undefined && { maxPastBlocks }),
+		...(options.storeBlocks !== undefined && { storeBlocks: options.storeBlocks }),
+		...(options.explorer && { explorerUrl: options.explorer }),
+	};
+	return { success: true, network };
+}
+
+/**
+ * Parse a non-negative integer option, recording an error if it isn't one
+ */
+function parseInteger(
+	value: string | undefined,
+	flag: string,
+	errors: string[],
+): number | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!/^\d+$/.test(value)) {
+		errors.push(`${flag} must be a whole number, got "${value}"`);
+		return undefined;
+	}
+	return Number(value);
+}
+
+/**
+ * Where a network is defined
+ */
+function describeSource(slug: string): string {
+	if (!isCustomNetwork(slug)) return "built-in";
+	return slug in NETWORK_PRESETS ? "override" : "custom";
+}
+
+/**
+ * Profiles that monitor a network, as tool/profile
+ */
+async function profilesUsing(slug: string): Promise<string[]> {
+	const saved = await loadSavedConfigs(TOOLS);
+	return Object.entries(saved).flatMap(([tool, profiles]) =>
+		Object.entries(profiles)
+			.filter(([, config]) => config.network === slug)
+			.map(([profile]) => `${tool}/${profile}`),
+	);
+}
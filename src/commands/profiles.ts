@@ -0,0 +1,151 @@
+import {
+	copyUserConfig,
+	deleteUserConfig,
+	loadProfileOrReport,
+	loadSavedConfigs,
+	resolveTool,
+	TOOLS,
+} from "../lib/config-manager.js";
+import { isSecretRef } from "../lib/secret-store.js";
+import { describeContracts } from "../lib/template-engine.js";
+import {
+	color,
+	divider,
+	handleCancel,
+	hint,
+	intro,
+	keyValue,
+	log,
+	prompts,
+	tableRow,
+} from "../lib/ui.js";
+import type { UserConfig } from "../types/index.js";
+
+interface ProfilesOptions {
+	tool?: string;
+}
+
+export async function profilesListCommand(options: ProfilesOptions): Promise<void> {
+	intro("Saved Profiles");
+
+	const tools = options.tool ? [resolveTool(options.tool)] : TOOLS;
+	const saved = await loadSavedConfigs(tools);
+	const rows = Object.entries(saved).flatMap(([tool, profiles]) =>
+		Object.entries(profiles).map(([profile, config]) => ({ tool, profile, config })),
+	);
+
+	if (rows.length === 0) {
+		log.message("No saved profiles.");
+		hint("Create one with:");
+		hint("  blip0 whale-alert --profile <name>");
+		return;
+	}
+
+	divider(80);
+	log.message(
+		tableRow([
+			{ value: "Profile", width: 20, color: color.white },
+			{ value: "Tool", width: 14, color: color.white },
+			{ value: "Network", width: 18, color: color.white },
+			{ value: "Contract", width: 16, color: color.white },
+			{ value: "Alerts", width: 10, color: color.white },
+		]),
+	);
+	divider(80);
+
+	for (const { tool, profile, config } of rows) {
+		log.message(
+			tableRow([
+				{ value: profile, width: 20, color: color.cyan },
+				{ value: tool, width: 14 },
+				{ value: config.network, width: 18 },
+				{ value: describeContracts(config.contracts, 1), width: 16 },
+				{ value: config.notificationType, width: 10, color: color.dim },
+			]),
+		);
+	}
+
+	divider(80);
+	hint("Start a monitor from a profile with:");
+	hint("  blip0 whale-alert --profile <name>");
+}
+
+export async function profilesShowCommand(name: string, options: ProfilesOptions): Promise<void> {
+	const config = await loadProfileOrReport(options.tool, name);
+	if (!config) return;
+
+	intro(`Profile: ${name}`);
+	for (const [key, value] of Object.entries(redactConfig(config))) {
+		if (value === undefined) continue;
+		keyValue(key, typeof value === "string" ? value : JSON.stringify(value), 18);
+	}
+}
+
+export async function profilesDeleteCommand(
+	name: string,
+	options: ProfilesOptions & { yes?: boolean },
+): Promise<void> {
+	const tool = resolveTool(options.tool);
+
+	if (!(await loadProfileOrReport(tool, name))) return;
+
+	if (!options.yes) {
+		const confirmed = await prompts.confirm({
+			message: `Delete ${tool} profile "${name}"?`,
+			initialValue: false,
+		});
+		handleCancel(confirmed);
+		if (!confirmed) return;
+	}
+
+	await deleteUserConfig(tool, name);
+	log.success(`Deleted profile "${name}"`);
+	hint("Monitors started from this profile keep running with their own copy of the config.");
+}
+
+export async function profilesCopyCommand(
+	from: string,
+	to: string,
+	options: ProfilesOptions,
+): Promise<void> {
+	const tool = resolveTool(options.tool);
+	await copyUserConfig(tool, from, to);
+	log.success(`Copied profile "${from}" to "${to}"`);
+	hint("Adjust the copy with:");
+	hint(`  blip0 whale-alert --profile ${to} --reconfigure`);
+}
+
+/**
+ * Mask notification credentials before printing a config
+ */
+function redactConfig(config: UserConfig): Record<string, unknown> {
+	const mask = (value: string) =>
+		value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-2)}` : "****";
+
+	// References to the secret store hold no secret themselves
+	let webhookUrl = config.webhookUrl;
+	if (isSecretRef(config.webhookUrl)) {
+		// Already a reference, nothing to mask
+	} else if (config.notificationType === "telegram") {
+		webhookUrl = "(Telegram bot token and chat ID)";
+	} else {
+		try {
+			const url = new URL(config.webhookUrl);
+			webhookUrl = `${url.origin}/${mask(url.pathname.slice(1))}`;
+		} catch {
+			webhookUrl = mask(config.webhookUrl);
+		}
+	}
+
+	return {
+		...config,
+		webhookUrl,
+		webhook: config.webhook && {
+			...config.webhook,
+			secret:
+				config.webhook.secret && !isSecretRef(config.webhook.secret)
+					? "****"
+					: config.webhook.secret,
+		},
+	};
+}
@@ -0,0 +1,37 @@
+import { loadSessions } from "../lib/config-manager.js";
+import { restartMonitor } from "../lib/runtime-manager.js";
+import { hint, log, spinner } from "../lib/ui.js";
+
+interface RestartOptions {
+	activeVersion?: boolean;
+}
+
+export async function restartCommand(
+	sessionId: string,
+	options: RestartOptions = {},
+): Promise<void> {
+	const sessions = await loadSessions();
+	const session = sessions.find((s) => s.id === sessionId);
+
+	if (!session) {
+		log.error(`Session not found: ${sessionId}`);
+		hint("View monitors with:");
+		hint("  blip0 list");
+		return;
+	}
+
+	const s = spinner();
+	s.start(`Restarting ${session.tool} (${sessionId})...`);
+
+	const restarted = await restartMonitor(sessionId, options);
+
+	if (restarted) {
+		s.stop(`Restarted ${session.tool}`);
+		log.success(`Monitor ${sessionId} is running`);
+	} else {
+		s.stop(`Failed to restart ${session.tool}`);
+		log.error("Failed to restart monitor. Check its logs with:");
+		hint(`  blip0 logs ${sessionId}`);
+		process.exitCode = 1;
+	}
+}
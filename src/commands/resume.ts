@@ -0,0 +1,52 @@
+import { loadSessions } from "../lib/config-manager.js";
+import { resumeSessions } from "../lib/runtime-manager.js";
+import { hint, intro, log, outro } from "../lib/ui.js";
+
+interface ResumeOptions {
+	all?: boolean;
+}
+
+export async function resumeCommand(sessionIds: string[], options: ResumeOptions): Promise<void> {
+	if (!options.all && sessionIds.length === 0) {
+		log.error("Please provide session IDs or --all");
+		hint("Resume every monitor that was running with:");
+		hint("  blip0 resume --all");
+		return;
+	}
+
+	const known = new Set((await loadSessions()).map((s) => s.id));
+	const unknown = sessionIds.filter((id) => !known.has(id));
+	if (!options.all && unknown.length > 0) {
+		log.error(`Session not found: ${unknown.join(", ")}`);
+		hint("View monitors with:");
+		hint("  blip0 list");
+		return;
+	}
+
+	intro("Resuming Monitors");
+
+	const results = await resumeSessions(options.all ? undefined : sessionIds);
+
+	if (results.length === 0) {
+		outro("Nothing to resume, all monitors are already running");
+		return;
+	}
+
+	for (const { session, resumed } of results) {
+		if (resumed) {
+			log.success(`Resumed ${session.tool} (${session.id})`);
+		} else {
+			log.error(`Failed to resume ${session.tool} (${session.id})`);
+		}
+	}
+
+	const failed = results.filter((r) => !r.resumed).length;
+	if (failed > 0) {
+		hint("Check the logs of failed monitors with:");
+		hint("  blip0 logs <session-id>");
+		process.exitCode = 1;
+		return;
+	}
+
+	outro(`Resumed ${results.length} monitor${results.length === 1 ? "" : "s"}`);
+}
@@ -0,0 +1,192 @@
+import {
+	compareVersions,
+	getActiveVersion,
+	hasUnversionedBinary,
+	type InstallOptions,
+	installRuntime,
+	listInstalledVersions,
+	normalizeVersion,
+	useVersion,
+} from "../lib/binary-manager.js";
+import { loadSessions } from "../lib/config-manager.js";
+import { color, divider, hint, intro, log, spinner, tableRow } from "../lib/ui.js";
+
+interface RuntimeInstallOptions {
+	file?: string;
+	sha256?: string;
+	use?: boolean;
+	force?: boolean;
+}
+
+export async function runtimeInstallCommand(
+	version: string | undefined,
+	options: RuntimeInstallOptions,
+): Promise<void> {
+	const source = options.file ? options.file : (version ?? "the latest release");
+	const installed = await install(`Installing OpenZeppelin Monitor from ${source}...`, {
+		...options,
+		version,
+	});
+	if (!installed) return;
+
+	// The first installed version becomes active so monitors can start right away
+	const active = await getActiveVersion();
+	if (options.use || !active) {
+		await useVersion(installed);
+		log.success(`Using OpenZeppelin Monitor ${installed}`);
+		await hintRestart(installed);
+	} else if (active !== installed) {
+		hint(`Monitors still start with ${active}. Switch with:`);
+		hint(`  blip0 runtime use ${installed}`);
+	}
+}
+
+export async function runtimeListCommand(): Promise<void> {
+	intro("OpenZeppelin Monitor versions");
+
+	const versions = await listInstalledVersions();
+	const active = await getActiveVersion();
+	const unversioned = await hasUnversionedBinary();
+	if (versions.length === 0 && !unversioned) {
+		log.message("No versions installed.");
+		hint("Install one with:");
+		hint("  blip0 runtime install [version]");
+		return;
+	}
+
+	const running = (await loadSessions()).filter((s) => s.status === "running");
+
+	divider(50);
+	log.message(
+		tableRow([
+			{ value: "Version", width: 20, color: color.white },
+			{ value: "Active", width: 10, color: color.white },
+			{ value: "Running", width: 20, color: color.white },
+		]),
+	);
+	divider(50);
+
+	const rows = [...versions].reverse().map((version) => ({
+		version,
+		isActive: version === active,
+		sessions: running.filter((s) => s.binaryVersion === version).length,
+	}));
+	if (unversioned) {
+		rows.push({
+			version: "unversioned",
+			isActive: true,
+			sessions: running.filter((s) => !s.binaryVersion).length,
+		});
+	}
+	for (const row of rows) {
+		log.message(
+			tableRow([
+				{ value: row.version, width: 20, color: color.cyan },
+				row.isActive ? { value: "*", width: 10, color: color.green } : { value: "", width: 10 },
+				{
+					value: row.sessions > 0 ? `${row.sessions} session(s)` : "-",
+					width: 20,
+					color: color.dim,
+				},
+			]),
+		);
+	}
+
+	divider(50);
+	if (unversioned) {
+		hint("The unversioned binary was installed by an older blip0 and is replaced by:");
+		hint("  blip0 runtime use <version>");
+	}
+}
+
+export async function runtimeUseCommand(input: string): Promise<void> {
+	const version = normalizeVersion(input);
+	const installed = await listInstalledVersions();
+	if (!version || !installed.includes(version)) {
+		log.error(`OpenZeppelin Monitor ${input} is not installed`);
+		hint(installed.length > 0 ? `Installed: ${installed.join(", ")}` : "No versions installed.");
+		hint("Install it with:");
+		hint(`  blip0 runtime install ${version ?? input}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	if ((await getActiveVersion()) === version) {
+		log.info(`Already using OpenZeppelin Monitor ${version}`);
+		return;
+	}
+
+	await useVersion(version);
+	log.success(`Using OpenZeppelin Monitor ${version}`);
+	await hintRestart(version);
+}
+
+export async function runtimeUpgradeCommand(): Promise<void> {
+	const installed = await install("Checking for a newer OpenZeppelin Monitor...", {});
+	if (!installed) return;
+
+	const active = await getActiveVersion();
+	if (active === installed) {
+		log.info(`Already on the latest release, ${installed}`);
+		return;
+	}
+	if (active && compareVersions(installed, active) < 0) {
+		log.info(`${active} is newer than the latest release ${installed}, keeping it`);
+		return;
+	}
+
+	await useVersion(installed);
+	log.success(`Upgraded OpenZeppelin Monitor ${active ?? "(unversioned)"} → ${installed}`);
+	await hintRestart(installed);
+}
+
+/**
+ * Install a version with a spinner, returning the version or null on failure
+ */
+async function install(message: string, options: InstallOptions): Promise<string | null> {
+	const s = spinner();
+	s.start(message);
+
+	try {
+		const result = await installRuntime({
+			...options,
+			onProgress: (progress) => s.message(progress),
+		});
+		if (result.alreadyInstalled) {
+			s.stop(`OpenZeppelin Monitor ${result.version} is already installed`);
+			if (options.file || options.version) {
+				hint("Pass --force to reinstall it");
+			}
+		} else {
+			s.stop(`Installed OpenZeppelin Monitor ${result.version}`);
+			if (result.verified) {
+				hint(`Verified SHA-256 ${result.sha256}`);
+			} else {
+				log.warn(
+					`No checksum to verify ${options.file} against (SHA-256 ${result.sha256}); pass --sha256 to check it`,
+				);
+			}
+		}
+		return result.version;
+	} catch (error) {
+		s.stop("Installation failed");
+		log.error(error instanceof Error ? error.message : String(error));
+		process.exitCode = 1;
+		return null;
+	}
+}
+
+/**
+ * Point out running sessions that still use another version
+ */
+async function hintRestart(version: string): Promise<void> {
+	const stale = (await loadSessions()).filter(
+		(s) => s.status === "running" && s.binaryVersion !== version,
+	);
+	if (stale.length === 0) return;
+
+	hint(`${stale.length} running session(s) keep their own version. Move them to ${version} with:`);
+	for (const session of stale) {
+		hint(`  blip0 restart ${session.id} --active-version`);
+	}
+}
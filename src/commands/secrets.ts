@@ -0,0 +1,152 @@
+import { loadSavedConfigs, TOOLS } from "../lib/config-manager.js";
+import {
+	decryptSecretStore,
+	deleteSecrets,
+	encryptSecretStore,
+	getConfigSecretNames,
+	isSecretStoreEncrypted,
+	isValidSecretName,
+	listSecretNames,
+	setSecret,
+} from "../lib/secret-store.js";
+import { color, divider, handleCancel, hint, intro, log, prompts, tableRow } from "../lib/ui.js";
+
+export async function secretsListCommand(): Promise<void> {
+	intro("Secrets");
+
+	const names = await listSecretNames();
+	if (names.length === 0) {
+		log.message("No stored secrets.");
+		hint("Secrets are stored when a profile is saved, or with:");
+		hint("  blip0 secrets set <name>");
+		return;
+	}
+
+	const usedBy = await secretUsage();
+
+	divider(70);
+	log.message(
+		tableRow([
+			{ value: "Name", width: 40, color: color.white },
+			{ value: "Used by", width: 30, color: color.white },
+		]),
+	);
+	divider(70);
+
+	for (const name of names) {
+		log.message(
+			tableRow([
+				{ value: name, width: 40, color: color.cyan },
+				{ value: usedBy.get(name)?.join(", ") ?? "-", width: 30, color: color.dim },
+			]),
+		);
+	}
+
+	divider(70);
+	if (await isSecretStoreEncrypted()) {
+		hint("The store is encrypted with a passphrase");
+	}
+}
+
+export async function secretsSetCommand(name: string, value?: string): Promise<void> {
+	if (!isValidSecretName(name)) {
+		log.error(`Invalid secret name "${name}" (use letters, digits, ".", "_" and "-")`);
+		process.exitCode = 1;
+		return;
+	}
+
+	let secret = value;
+	if (secret === undefined) {
+		const input = await prompts.password({
+			message: `Value for ${name}:`,
+			validate: (input) => (input ? undefined : "A value is required"),
+		});
+		handleCancel(input);
+		secret = input as string;
+	}
+
+	await setSecret(name, secret);
+	log.success(`Stored secret "${name}"`);
+	hint(`Reference it from a profile as secret:${name}`);
+}
+
+export async function secretsDeleteCommand(
+	names: string[],
+	options: { yes?: boolean },
+): Promise<void> {
+	const usedBy = await secretUsage();
+	const inUse = names.filter((name) => usedBy.has(name));
+	for (const name of inUse) {
+		log.warn(`"${name}" is used by profile(s): ${usedBy.get(name)?.join(", ")}`);
+	}
+
+	if (!options.yes) {
+		const confirmed = await prompts.confirm({
+			message: `Delete ${names.length} secret(s)?`,
+			initialValue: inUse.length === 0,
+		});
+		handleCancel(confirmed);
+		if (!confirmed) return;
+	}
+
+	const deleted = await deleteSecrets(names);
+	if (deleted === 0) {
+		log.warn("No matching secrets found");
+		return;
+	}
+	log.success(`Deleted ${deleted} secret(s)`);
+}
+
+export async function secretsEncryptCommand(): Promise<void> {
+	const passphrase = process.env.BLIP0_SECRETS_PASSPHRASE ?? (await promptNewPassphrase());
+	await encryptSecretStore(passphrase);
+	log.success("Secret store encrypted");
+	hint("Monitors started at boot need BLIP0_SECRETS_PASSPHRASE set to unlock it");
+}
+
+export async function secretsDecryptCommand(): Promise<void> {
+	if (!(await isSecretStoreEncrypted())) {
+		log.info("The secret store is not encrypted");
+		return;
+	}
+
+	await decryptSecretStore();
+	log.success("Secret store decrypted, secrets are protected by file permissions only");
+}
+
+/**
+ * Ask for a new passphrase twice
+ */
+async function promptNewPassphrase(): Promise<string> {
+	const passphrase = await prompts.password({
+		message: "New passphrase:",
+		validate: (input) => (input && input.length >= 8 ? undefined : "Use at least 8 characters"),
+	});
+	handleCancel(passphrase);
+
+	const confirmation = await prompts.password({
+		message: "Confirm passphrase:",
+		validate: (input) => (input === passphrase ? undefined : "Passphrases don't match"),
+	});
+	handleCancel(confirmation);
+
+	return passphrase as string;
+}
+
+/**
+ * Map each referenced secret to the profiles using it, as "tool/profile"
+ */
+async function secretUsage(): Promise<Map<string, string[]>> {
+	const usage = new Map<string, string[]>();
+	const saved = await loadSavedConfigs(TOOLS);
+
+	for (const [tool, profiles] of Object.entries(saved)) {
+		for (const [profile, config] of Object.entries(profiles)) {
+			for (const name of getConfigSecretNames(config)) {
+				usage.set(name, [...(usage.get(name) ?? []), `${tool}/${profile}`]);
+			}
+		}
+	}
+
+	return usage;
+}
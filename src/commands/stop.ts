@@ -2,7 +2,11 @@ import { loadSessions } from "../lib/config-manager.js";
 import { stopMonitor } from "../lib/runtime-manager.js";
 import { hint, log, spinner } from "../lib/ui.js";
 
-export async function stopCommand(sessionId: string): Promise<void> {
+interface StopOptions {
+	purge?: boolean;
+}
+
+export async function stopCommand(sessionId: string, options: StopOptions = {}): Promise<void> {
 	if (!sessionId) {
 		log.error("Please provide a session ID");
 		hint("View running monitors with:");
@@ -23,11 +27,17 @@ export async function stopCommand(sessionId: string): Promise<void> {
 	const s = spinner();
 	s.start(`Stopping ${session.tool} (${sessionId})...`);
 
-	const success = await stopMonitor(sessionId);
+	const success = await stopMonitor(sessionId, { purge: options.purge });
 
 	if (success) {
 		s.stop(`Stopped ${session.tool}`);
-		log.success(`Monitor ${sessionId} has been stopped`);
+		if (options.purge) {
+			log.success(`Monitor ${sessionId} has been stopped and removed`);
+		} else {
+			log.success(`Monitor ${sessionId} has been stopped`);
+			hint("Start it again with:");
+			hint(`  blip0 restart ${sessionId}`);
+		}
 	} else {
 		s.stop(`Failed to stop ${session.tool}`);
 		log.error("Failed to stop monitor. It may have already stopped.");
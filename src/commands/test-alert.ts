@@ -0,0 +1,64 @@
+import { DEFAULT_PROFILE, loadProfileOrReport, resolveTool } from "../lib/config-manager.js";
+import { renderMessageData, sampleMessageData } from "../lib/message-template.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { sendAlert } from "../lib/notifier.js";
+import { resolveConfigSecrets } from "../lib/secret-store.js";
+import { buildMessageVars, renderMessage } from "../lib/template-engine.js";
+import { hint, intro, log, note, spinner } from "../lib/ui.js";
+
+const BASE_URL_ENV = "BLIP0_ALERT_BASE_URL";
+
+interface TestAlertOptions {
+	tool?: string;
+	baseUrl?: string;
+}
+
+export async function testAlertCommand(
+	profile: string = DEFAULT_PROFILE,
+	options: TestAlertOptions,
+): Promise<void> {
+	const tool = resolveTool(options.tool);
+	const saved = await loadProfileOrReport(tool, profile);
+	if (!saved) return;
+
+	const networkPreset = getNetwork(saved.network);
+	if (!networkPreset) {
+		log.error(`Unknown network: ${saved.network}`);
+		process.exitCode = 1;
+		return;
+	}
+
+	intro(`Test alert: ${profile}`);
+
+	// Render exactly what the monitor would send, filled with synthetic match data
+	const vars = buildMessageVars(tool, saved, networkPreset);
+	const message = renderMessage(saved, vars);
+	const data = sampleMessageData(saved, vars.MONITOR_NAME);
+	const rendered = {
+		title: `[TEST] ${renderMessageData(message.title, data)}`,
+		body: renderMessageData(message.body, data),
+	};
+	note(`${rendered.title}\n\n${rendered.body}`, "Message");
+
+	const config = await resolveConfigSecrets(saved);
+	const baseUrl = options.baseUrl || process.env[BASE_URL_ENV] || undefined;
+
+	const s = spinner();
+	s.start(`Sending to ${config.notificationType}${baseUrl ? ` via ${baseUrl}` : ""}...`);
+	const result = await sendAlert(config, rendered, { baseUrl });
+
+	if (!result.success) {
+		s.stop(`${config.notificationType} did not accept the alert`);
+		log.error(result.error);
+		hint(
+			config.notificationType === "telegram"
+				? "Check the bot token and chat ID, and that the bot was added to the chat"
+				: "Check the webhook URL and that the endpoint is reachable from this machine",
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	s.stop(`Delivered (HTTP ${result.status})`);
+	log.success(`The ${config.notificationType} channel for "${profile}" works`);
+}
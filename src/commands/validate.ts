@@ -0,0 +1,52 @@
+import { existsSync } from "node:fs";
+import { loadSessions } from "../lib/config-manager.js";
+import {
+	formatValidationIssue,
+	resolveConfigDir,
+	validateConfigDir,
+} from "../lib/config-validator.js";
+import { hint, log } from "../lib/ui.js";
+
+export async function validateCommand(target: string): Promise<void> {
+	const dir = await resolveTarget(target);
+	if (!dir) {
+		log.error(`Not a session id or config directory: ${target}`);
+		hint("Pass a session id from `blip0 list`, or a directory containing config/monitors");
+		process.exitCode = 1;
+		return;
+	}
+
+	const report = await validateConfigDir(dir);
+	const errors = report.issues.filter((issue) => issue.severity === "error");
+	const warnings = report.issues.filter((issue) => issue.severity === "warning");
+
+	for (const issue of errors) {
+		log.error(formatValidationIssue(issue));
+	}
+	for (const issue of warnings) {
+		log.warn(formatValidationIssue(issue));
+	}
+
+	const summary = `${report.files} file(s) in ${report.configDir}`;
+	if (errors.length > 0) {
+		log.error(`${errors.length} error(s), ${warnings.length} warning(s) in ${summary}`);
+		process.exitCode = 1;
+		return;
+	}
+	log.success(
+		warnings.length > 0
+			? `Valid with ${warnings.length} warning(s): ${summary}`
+			: `Valid: ${summary}`,
+	);
+}
+
+/**
+ * A config directory path, or the directory of a session with that id
+ */
+async function resolveTarget(target: string): Promise<string | null> {
+	if (existsSync(target) && resolveConfigDir(target)) {
+		return target;
+	}
+	const session = (await loadSessions()).find((s) => s.id === target);
+	return session ? session.configPath : null;
+}
@@ -1,19 +1,41 @@
 import {
+	cleanupSession,
 	createSessionDir,
+	DEFAULT_PROFILE,
+	isValidProfileName,
+	listProfiles,
+	loadSavedConfigs,
 	loadUserConfig,
-	NETWORK_PRESETS,
 	saveUserConfig,
 	writeOZConfigs,
 } from "../lib/config-manager.js";
-import { generateSessionId, startMonitor } from "../lib/runtime-manager.js";
-import { buildMonitorConfig, buildTemplateVars, loadTemplate } from "../lib/template-engine.js";
+import { formatValidationIssue, validateConfigDir } from "../lib/config-validator.js";
+import {
+	buildHeadlessConfig,
+	parseContractTargets,
+	resolveHeadlessInput,
+} from "../lib/headless.js";
+import { getNetwork } from "../lib/network-registry.js";
+import { rankingWarnings, rankRpcEndpoints } from "../lib/rpc-health.js";
+import {
+	generateSessionId,
+	parseRuntimeOptions,
+	type StartOptions,
+	startMonitor,
+} from "../lib/runtime-manager.js";
+import { getConfigSecretEnv, hasPlainSecrets } from "../lib/secret-store.js";
+import { buildOZConfigs } from "../lib/template-engine.js";
+import { formatThreshold, resolveTokenInfo, toBaseUnits } from "../lib/token-amount.js";
 import { hint, intro, log, note, outro, spinner } from "../lib/ui.js";
 import {
 	confirmStart,
 	confirmUseSavedConfig,
 	displayConfigSummary,
+	promptProfileName,
+	selectSavedProfile,
 	whaleAlertWizard,
 } from "../lib/wizard.js";
+import type { UserConfig } from "../types/index.js";
 
 const TOOL_NAME = "whale-alert";
 
@@ -21,36 +43,91 @@ interface WhaleAlertOptions {
 	reconfigure?: boolean;
 	network?: string;
 	threshold?: string;
-	contract?: string;
+	thresholdBaseUnits?: boolean;
+	contract?: string[];
+	yes?: boolean;
+	contractName?: string;
+	notification?: string;
+	webhookUrl?: string;
+	telegramToken?: string;
+	telegramChatId?: string;
+	webhookMethod?: string;
+	webhookHeader?: string[];
+	webhookSecret?: string;
+	monitorType?: string;
+	signature?: string[];
+	expression?: string;
+	messageTitle?: string;
+	messageBody?: string;
+	profile?: string;
+	runtime?: string;
+	image?: string;
 }
 
 export async function whaleAlertCommand(options: WhaleAlertOptions): Promise<void> {
 	intro("Whale Alert - Large Transfer Monitor");
 
-	let config = await loadUserConfig(TOOL_NAME);
+	if (options.profile && !isValidProfileName(options.profile)) {
+		throw new Error(
+			`Invalid profile name "${options.profile}" (use letters, digits, ".", "_" and "-")`,
+		);
+	}
+
+	const runtime = parseRuntimeOptions(options);
+
+	if (options.yes) {
+		const profile = options.profile ?? DEFAULT_PROFILE;
+		const config = await resolveHeadlessConfig(options, profile);
+		displayConfigSummary(config, profile);
+		await startWhaleAlert(config, { headless: true, profile, runtime });
+		return;
+	}
+
+	let profile = options.profile;
+	let config: UserConfig | null = null;
 
-	// Check if we should reconfigure or use saved config
-	if (config && !options.reconfigure) {
-		const useSaved = await confirmUseSavedConfig(TOOL_NAME);
-		if (!useSaved) {
-			config = null;
+	// Check if we should reconfigure or use a saved profile
+	if (!options.reconfigure) {
+		if (profile) {
+			config = await loadUserConfig(TOOL_NAME, profile);
+			if (config && !(await confirmUseSavedConfig(TOOL_NAME, profile))) {
+				config = null;
+			}
+		} else {
+			const saved = (await loadSavedConfigs([TOOL_NAME]))[TOOL_NAME] ?? {};
+			if (Object.keys(saved).length > 0) {
+				profile = (await selectSavedProfile(TOOL_NAME, saved)) ?? undefined;
+				config = profile ? (saved[profile] ?? null) : null;
+			}
 		}
 	}
 
 	// If no config or reconfiguring, run wizard
-	if (!config || options.reconfigure) {
-		config = await whaleAlertWizard();
-		await saveUserConfig(TOOL_NAME, config);
-		log.success("Configuration saved!");
+	if (!config) {
+		const answers = await whaleAlertWizard();
+		profile ??= await promptProfileName(await listProfiles(TOOL_NAME));
+		config = await saveUserConfig(TOOL_NAME, answers, profile);
+		log.success(`Configuration saved as profile "${profile}"!`);
+	} else if (profile && hasPlainSecrets(config)) {
+		// Profiles saved before the secret store existed are migrated on first use
+		config = await saveUserConfig(TOOL_NAME, config, profile);
+		log.info("Moved notification secrets into the secret store");
 	}
 
 	// Apply CLI overrides
 	if (options.network) config.network = options.network;
-	if (options.threshold) config.threshold = options.threshold;
-	if (options.contract) config.contractAddress = options.contract;
+	if (options.contract?.length) config.contracts = parseContractTargets(options.contract);
+	if (options.network || options.contract?.length) {
+		config.token = await resolveTokenInfo(config.contracts, config.network);
+	}
+	if (options.threshold) {
+		config.threshold = toBaseUnits(options.threshold, config.token, {
+			baseUnits: options.thresholdBaseUnits,
+		});
+	}
 
 	// Display summary
-	displayConfigSummary(config);
+	displayConfigSummary(config, profile);
 
 	// Confirm start
 	const shouldStart = await confirmStart();
@@ -59,40 +136,147 @@ export async function whaleAlertCommand(options: WhaleAlertOptions): Promise<voi
 		return;
 	}
 
+	await startWhaleAlert(config, { headless: false, profile, runtime });
+}
+
+/**
+ * Build the config from flags, env vars and any saved config, exiting on missing fields
+ */
+async function resolveHeadlessConfig(
+	options: WhaleAlertOptions,
+	profile: string,
+): Promise<UserConfig> {
+	const input = resolveHeadlessInput({
+		network: options.network,
+		contracts: options.contract,
+		contractName: options.contractName,
+		threshold: options.threshold,
+		notification: options.notification,
+		webhookUrl: options.webhookUrl,
+		telegramToken: options.telegramToken,
+		telegramChatId: options.telegramChatId,
+		webhookMethod: options.webhookMethod,
+		webhookHeaders: options.webhookHeader,
+		webhookSecret: options.webhookSecret,
+		monitorType: options.monitorType,
+		signatures: options.signature,
+		expression: options.expression,
+		messageTitle: options.messageTitle,
+		messageBody: options.messageBody,
+	});
+	const saved = options.reconfigure ? null : await loadUserConfig(TOOL_NAME, profile);
+
+	// Token metadata is re-read whenever the watched contracts change
+	const network = input.network || saved?.network;
+	const contracts = input.contracts?.length
+		? parseContractTargets(input.contracts)
+		: saved?.contracts;
+	const sameTargets = !input.contracts?.length && network === saved?.network;
+	const token =
+		sameTargets && saved?.token
+			? saved.token
+			: network && contracts?.length
+				? await resolveTokenInfo(contracts, network)
+				: undefined;
+
+	// Human amounts such as "250k USDC" are converted before validation
+	if (input.threshold) {
+		try {
+			input.threshold = toBaseUnits(input.threshold, token, {
+				baseUnits: options.thresholdBaseUnits,
+			});
+		} catch (error) {
+			exitWithErrors([error instanceof Error ? error.message : String(error)]);
+		}
+	}
+
+	const result = buildHeadlessConfig(input, saved);
+	if (!result.success) {
+		exitWithErrors(result.errors);
+	}
+
+	return saveUserConfig(TOOL_NAME, { ...result.config, token }, profile);
+}
+
+/**
+ * Print headless configuration errors and exit
+ */
+function exitWithErrors(errors: string[]): never {
+	log.error("Cannot start in non-interactive mode:");
+	for (const error of errors) {
+		log.message(`  - ${error}`);
+	}
+	hint("Pass the missing values as flags or BLIP0_* environment variables.");
+	process.exit(1);
+}
+
+/**
+ * Generate OZ Monitor configs and start the monitor
+ */
+async function startWhaleAlert(
+	config: UserConfig,
+	{
+		headless,
+		profile,
+		runtime,
+	}: { headless: boolean; profile?: string; runtime: Pick<StartOptions, "runtime" | "image"> },
+) {
 	// Generate OZ Monitor configs
 	const s = spinner();
 	s.start("Generating configuration...");
 
 	try {
-		const networkPreset = NETWORK_PRESETS[config.network];
+		const networkPreset = getNetwork(config.network);
 		if (!networkPreset) {
 			s.stop(`Unknown network: ${config.network}`);
+			if (headless) process.exitCode = 1;
 			return;
 		}
 
-		// Build template variables
-		const vars = buildTemplateVars(TOOL_NAME, config, networkPreset);
-
-		// Load network template and build dynamic monitor config
-		const networkConfig = await loadTemplate("networks", networkPreset.slug);
-		const monitorConfig = buildMonitorConfig(config, vars);
-		const triggerConfig = await loadTemplate("triggers", config.notificationType, vars);
+		// Unhealthy RPCs are left out of the network config, the fastest weighted highest
+		s.message("Checking RPC endpoints...");
+		const ranking = await rankRpcEndpoints(networkPreset);
+		const { network, monitor, trigger } = await buildOZConfigs(
+			TOOL_NAME,
+			config,
+			ranking.endpoints,
+		);
 
 		// Create session directory and write configs
 		const sessionId = generateSessionId();
 		const sessionDir = await createSessionDir(sessionId);
 		await writeOZConfigs(
 			sessionDir,
-			networkConfig,
-			monitorConfig as unknown as Record<string, unknown>,
-			triggerConfig,
+			network as unknown as Record<string, unknown>,
+			monitor as unknown as Record<string, unknown>,
+			trigger as unknown as Record<string, unknown>,
 		);
 
+		// Check the files as written, so the monitor never starts on an inconsistent config
+		const report = await validateConfigDir(sessionDir);
+		const problems = report.issues.filter((issue) => issue.severity === "error");
+		if (problems.length > 0) {
+			s.stop("Generated configuration is invalid");
+			for (const issue of problems) {
+				log.error(formatValidationIssue(issue));
+			}
+			await cleanupSession(sessionId);
+			if (headless) process.exitCode = 1;
+			return;
+		}
+
 		s.stop("Configuration generated");
+		for (const warning of rankingWarnings(networkPreset, ranking)) {
+			log.warn(warning);
+		}
 
 		// Start the monitor
 		s.start("Starting OpenZeppelin Monitor...");
-		const session = await startMonitor(sessionDir, TOOL_NAME, sessionId);
+		const session = await startMonitor(sessionDir, TOOL_NAME, sessionId, {
+			profile,
+			secretEnv: getConfigSecretEnv(config),
+			...runtime,
+		});
 
 		if (session) {
 			s.stop("Monitor started");
@@ -100,7 +284,7 @@ export async function whaleAlertCommand(options: WhaleAlertOptions): Promise<voi
 			// Display session info in a note box
 			const sessionInfo = [
 				`Session ID:  ${session.id}`,
-				`Watching:    transfers > ${config.threshold} tokens`,
+				`Watching:    transfers > ${formatThreshold(config.threshold, config.token)}`,
 				`Network:     ${networkPreset.name}`,
 			].join("\n");
 			note(sessionInfo, "Whale Alert is running!");
@@ -114,9 +298,11 @@ export async function whaleAlertCommand(options: WhaleAlertOptions): Promise<voi
 		} else {
 			s.stop("Failed to start monitor");
 			log.error("Failed to start monitor. Check logs for details.");
+			if (headless) process.exitCode = 1;
 		}
 	} catch (error) {
 		s.stop("Failed to generate configuration");
 		log.error(`Error: ${error}`);
+		if (headless) process.exitCode = 1;
 	}
 }
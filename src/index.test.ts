@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pkg from "../package.json";
+
+const CLI = join(import.meta.dir, "index.ts");
+
+let home: string;
+
+/**
+ * Run the CLI with its own home directory, so nothing touches the real ~/.blip0
+ */
+async function run(...args: string[]) {
+	const proc = Bun.spawn([process.execPath, CLI, ...args], {
+		env: { ...process.env, HOME: home, NO_COLOR: "1" },
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	]);
+	return { output: stdout + stderr, exitCode };
+}
+
+beforeAll(async () => {
+	home = await mkdtemp(join(tmpdir(), "blip0-cli-"));
+});
+
+afterAll(async () => {
+	await rm(home, { recursive: true, force: true });
+});
+
+describe("blip0 runtime install", () => {
+	test("passes the version to the subcommand", async () => {
+		// The file name doesn't tell the version, so only the argument can
+		const tarball = join(home, "monitor.tar.gz");
+		await writeFile(tarball, "not a tarball");
+
+		const withoutVersion = await run("runtime", "install", "--file", tarball);
+		expect(withoutVersion.output).toContain("Can't tell the version of monitor.tar.gz");
+
+		// Gets as far as the checksum, which is made not to match so nothing is installed
+		const withVersion = await run(
+			"runtime",
+			"install",
+			"v0.0.0",
+			"--file",
+			tarball,
+			"--sha256",
+			"0".repeat(64),
+		);
+		expect(withVersion.output).toContain("Checksum mismatch for monitor.tar.gz");
+		expect(withVersion.exitCode).toBe(1);
+	});
+
+	test("rejects --version after the subcommand", async () => {
+		const { output, exitCode } = await run("runtime", "install", "--version", "v0.0.0");
+		expect(output).toContain("unknown option '--version'");
+		expect(output).not.toContain(pkg.version);
+		expect(exitCode).not.toBe(0);
+	});
+});
+
+describe("blip0 --version", () => {
+	test("prints the CLI version", async () => {
+		const { output, exitCode } = await run("--version");
+		expect(output.trim()).toBe(pkg.version);
+		expect(exitCode).toBe(0);
+	});
+});
@@ -1,9 +1,46 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import pkg from "../package.json";
+import { exportCommand } from "./commands/export.js";
+import { importCommand } from "./commands/import.js";
+import { lintExpressionCommand } from "./commands/lint-expression.js";
 import { listCommand } from "./commands/list.js";
+import { logsCommand } from "./commands/logs.js";
+import { messagePreviewCommand, messageVariablesCommand } from "./commands/message.js";
+import {
+	networkAddCommand,
+	networkCheckCommand,
+	networkListCommand,
+	networkRemoveCommand,
+	networkShowCommand,
+} from "./commands/network.js";
+import {
+	profilesCopyCommand,
+	profilesDeleteCommand,
+	profilesListCommand,
+	profilesShowCommand,
+} from "./commands/profiles.js";
+import { restartCommand } from "./commands/restart.js";
+import { resumeCommand } from "./commands/resume.js";
+import {
+	runtimeInstallCommand,
+	runtimeListCommand,
+	runtimeUpgradeCommand,
+	runtimeUseCommand,
+} from "./commands/runtime.js";
+import {
+	secretsDecryptCommand,
+	secretsDeleteCommand,
+	secretsEncryptCommand,
+	secretsListCommand,
+	secretsSetCommand,
+} from "./commands/secrets.js";
 import { stopCommand } from "./commands/stop.js";
+import { testAlertCommand } from "./commands/test-alert.js";
+import { validateCommand } from "./commands/validate.js";
 import { whaleAlertCommand } from "./commands/whale-alert.js";
+import { rotateLogsWhileRunning } from "./lib/log-manager.js";
+import { isMonitorProcess } from "./lib/runtime-manager.js";
 import { log } from "./lib/ui.js";
 
 const program = new Command();
@@ -11,16 +48,39 @@ const program = new Command();
 program
 	.name("blip0")
 	.description("Zero-config blockchain monitoring CLI built on OpenZeppelin Monitor")
-	.version(pkg.version);
+	.version(pkg.version)
+	// Keep root options like --version from swallowing options of the same name after a subcommand
+	.enablePositionalOptions();
 
 // Whale Alert command
 program
 	.command("whale-alert")
 	.description("Monitor large transfers on a contract")
 	.option("-r, --reconfigure", "Reconfigure settings")
-	.option("-n, --network <network>", "Network to monitor (stellar_mainnet, stellar_testnet)")
-	.option("-t, --threshold <amount>", "Minimum transfer amount to alert")
-	.option("-c, --contract <address>", "Contract address to monitor")
+	.option("-p, --profile <name>", "Saved configuration profile to use or create")
+	.option("-n, --network <network>", "Network to monitor (e.g. stellar_mainnet, ethereum_mainnet)")
+	.option("-t, --threshold <amount>", "Minimum transfer amount to alert, in token units")
+	.option("--threshold-base-units", "Read --threshold as base units (the token's smallest unit)")
+	.option(
+		"-c, --contract <address...>",
+		'Contract addresses to monitor, optionally named ("ADDRESS:Name")',
+	)
+	.option("-y, --yes", "Run without prompts, using flags, BLIP0_* env vars and saved config")
+	.option("--contract-name <name>", "Display name when monitoring a single contract")
+	.option("--notification <type>", "Notification channel (discord, telegram, slack, webhook)")
+	.option("--webhook-url <url>", "Discord, Slack or generic webhook URL")
+	.option("--webhook-method <method>", "HTTP method for generic webhooks (POST, PUT, PATCH)")
+	.option("--webhook-header <header...>", 'Extra header for generic webhooks ("Name: value")')
+	.option("--webhook-secret <secret>", "Secret used to sign generic webhook payloads")
+	.option("--telegram-token <token>", "Telegram bot token")
+	.option("--telegram-chat-id <id>", "Telegram chat ID")
+	.option("--monitor-type <type>", "What to monitor (events, functions, transactions)")
+	.option("--signature <signature...>", "Event or function signatures to match")
+	.option("-e, --expression <expression>", "Filter expression for the matched signatures")
+	.option("--message-title <title>", "Alert title template")
+	.option("--message-body <body>", 'Alert body template ("\\n" for line breaks)')
+	.option("--runtime <runtime>", "Run the monitor as a native binary or in Docker (binary, docker)")
+	.option("--image <image>", "Docker image for --runtime docker (default the official image)")
 	.action(async (options) => {
 		try {
 			await whaleAlertCommand(options);
@@ -33,7 +93,7 @@ program
 // List command
 program
 	.command("list")
-	.description("List running monitors")
+	.description("List monitors and their status")
 	.action(async () => {
 		try {
 			await listCommand();
@@ -47,9 +107,443 @@ program
 program
 	.command("stop <session-id>")
 	.description("Stop a running monitor")
-	.action(async (sessionId) => {
+	.option("--purge", "Also delete the session's config, data and logs")
+	.action(async (sessionId, options) => {
 		try {
-			await stopCommand(sessionId);
+			await stopCommand(sessionId, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Restart command
+program
+	.command("restart <session-id>")
+	.description("Restart a monitor with its existing config and data")
+	.option(
+		"--active-version",
+		"Run the active OpenZeppelin Monitor version instead of the session's own",
+	)
+	.action(async (sessionId, options) => {
+		try {
+			await restartCommand(sessionId, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Resume command
+program
+	.command("resume [session-ids...]")
+	.description("Start monitors that were running before, e.g. after a reboot")
+	.option("-a, --all", "Resume every monitor that was running")
+	.action(async (sessionIds, options) => {
+		try {
+			await resumeCommand(sessionIds, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Logs command
+program
+	.command("logs <session-id>")
+	.description("Show OpenZeppelin Monitor output for a session")
+	.option("-f, --follow", "Keep printing new output as it is written")
+	.option("-s, --since <time>", "Only show output since a duration (10m, 2h) or date")
+	.option("-l, --level <level>", "Minimum log level (trace, debug, info, warn, error)")
+	.option("-n, --lines <count>", "Number of lines to show, 0 for all", "200")
+	.action(async (sessionId, options) => {
+		try {
+			await logsCommand(sessionId, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Keeps a detached monitor's log rotated, started alongside it
+program
+	.command("rotate-logs <session-dir> <pid> [started-at]", { hidden: true })
+	.action(async (sessionDir, pid, startedAt) => {
+		try {
+			const monitorPid = Number.parseInt(pid, 10);
+			await rotateLogsWhileRunning(sessionDir, monitorPid, () =>
+				isMonitorProcess(monitorPid, startedAt),
+			);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Lint expression command
+program
+	.command("lint-expression <expression>")
+	.description("Check a filter expression against an event or function signature")
+	.option("-s, --signature <signature>", "Signature the expression filters")
+	.option("-k, --kind <kind>", "What the signature is (event, function, transaction)", "event")
+	.option("-n, --network <network>", "Network the contract lives on", "stellar_mainnet")
+	.option("-c, --contract <address>", "Contract to read parameter names and types from")
+	.action(async (expression, options) => {
+		try {
+			await lintExpressionCommand(expression, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Network commands
+const network = program.command("network").description("Manage networks and their RPC endpoints");
+
+network
+	.command("list")
+	.description("List built-in and custom networks")
+	.action(async () => {
+		try {
+			await networkListCommand();
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+network
+	.command("show <slug>")
+	.description("Show a network's settings and RPC endpoints")
+	.action(async (slug) => {
+		try {
+			await networkShowCommand(slug);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+network
+	.command("add <slug>")
+	.description("Add a network, or override a built-in one")
+	.requiredOption("--rpc <url...>", "RPC URL, optionally weighted as <url>@<0-100>")
+	.option("--name <name>", "Display name")
+	.option("--type <type>", "Network type (stellar, evm; default stellar)")
+	.option(
+		"--passphrase <passphrase>",
+		"Stellar network passphrase, or mainnet, testnet, futurenet, standalone",
+	)
+	.option("--chain-id <id>", "EVM chain ID")
+	.option("--block-time <ms>", "Average block or ledger time in milliseconds")
+	.option("--confirmation-blocks <count>", "Blocks to wait before processing")
+	.option("--cron <schedule>", 'How often the monitor polls, e.g. "*/10 * * * * *"')
+	.option("--max-past-blocks <count>", "Most blocks to catch up on per poll")
+	.option("--store-blocks", "Keep processed blocks in the monitor's data directory")
+	.option("--no-store-blocks", "Don't keep processed blocks")
+	.option("--explorer <url>", "Block explorer URL")
+	.option("-f, --force", "Replace an existing network or override a built-in one")
+	.action(async (slug, options) => {
+		try {
+			await networkAddCommand(slug, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+network
+	.command("check [slugs...]")
+	.description("Probe the RPC endpoints of networks (default all) and show their health")
+	.action(async (slugs) => {
+		try {
+			await networkCheckCommand(slugs);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+network
+	.command("remove <slug>")
+	.description("Remove a custom network, or the override of a built-in one")
+	.option("-f, --force", "Remove it even if profiles use it")
+	.action(async (slug, options) => {
+		try {
+			await networkRemoveCommand(slug, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Profiles commands
+const profiles = program.command("profiles").description("Manage saved configuration profiles");
+
+profiles
+	.command("list")
+	.description("List saved profiles")
+	.option("--tool <tool>", "Only list profiles for this tool")
+	.action(async (options) => {
+		try {
+			await profilesListCommand(options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+profiles
+	.command("show <name>")
+	.description("Show a saved profile")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.action(async (name, options) => {
+		try {
+			await profilesShowCommand(name, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+profiles
+	.command("delete <name>")
+	.description("Delete a saved profile")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.option("-y, --yes", "Delete without confirmation")
+	.action(async (name, options) => {
+		try {
+			await profilesDeleteCommand(name, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+profiles
+	.command("copy <from> <to>")
+	.description("Copy a saved profile to a new name")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.action(async (from, to, options) => {
+		try {
+			await profilesCopyCommand(from, to, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Test alert command
+program
+	.command("test-alert [profile]")
+	.description("Send a sample alert through a profile's notification channel")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.option(
+		"--base-url <url>",
+		"Send to this server instead, e.g. a local mock (or BLIP0_ALERT_BASE_URL)",
+	)
+	.action(async (profile, options) => {
+		try {
+			await testAlertCommand(profile, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Validate command
+program
+	.command("validate <target>")
+	.description("Check a session's or bundle's OpenZeppelin Monitor config files")
+	.action(async (target) => {
+		try {
+			await validateCommand(target);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Export command
+program
+	.command("export <target>")
+	.description("Export a profile or session as a deployable OpenZeppelin Monitor bundle")
+	.requiredOption("-o, --out <dir>", "Directory to write the bundle to")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.option("--docker", "Include a docker-compose.yml")
+	.option("--env", "Write notification secrets to .env (plain text)")
+	.option("-f, --force", "Overwrite an existing bundle")
+	.action(async (target, options) => {
+		try {
+			await exportCommand(target, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Import command
+program
+	.command("import <dir>")
+	.description("Import an existing OpenZeppelin Monitor config directory as profiles and sessions")
+	.option("--start", "Start the imported monitors")
+	.option("--dry-run", "Show how each monitor would be imported without importing it")
+	.option(
+		"--runtime <runtime>",
+		"Run the monitors as native binaries or in Docker (binary, docker)",
+	)
+	.option("--image <image>", "Docker image for --runtime docker (default the official image)")
+	.action(async (dir, options) => {
+		try {
+			await importCommand(dir, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+const message = program.command("message").description("Preview and inspect alert messages");
+
+message
+	.command("preview [profile]")
+	.description("Render a profile's alert message with sample or recorded match data")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.option("--channel <channel>", "Format for another channel (discord, slack, telegram, webhook)")
+	.option("--data <file>", "JSON file with match data, shaped like OZ Monitor's variables")
+	.action(async (profile, options) => {
+		try {
+			await messagePreviewCommand(profile, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+message
+	.command("variables [profile]")
+	.description("List the variables available in a profile's alert message")
+	.option("--tool <tool>", "Tool the profile belongs to", "whale-alert")
+	.action(async (profile, options) => {
+		try {
+			await messageVariablesCommand(profile, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+// Runtime commands
+const runtime = program.command("runtime").description("Manage OpenZeppelin Monitor versions");
+
+runtime
+	.command("install [version]")
+	.description("Install OpenZeppelin Monitor from GitHub releases or a local tarball")
+	.option("--file <tarball>", "Install from a local release tarball instead of downloading")
+	.option("--sha256 <checksum>", "Expected SHA-256 of the tarball")
+	.option("--use", "Start new monitors with this version")
+	.option("-f, --force", "Reinstall a version that is already installed")
+	.action(async (version, options) => {
+		try {
+			await runtimeInstallCommand(version, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+runtime
+	.command("list")
+	.description("List installed versions and the sessions running them")
+	.action(async () => {
+		try {
+			await runtimeListCommand();
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+runtime
+	.command("use <version>")
+	.description("Start new monitors with an installed version")
+	.action(async (version) => {
+		try {
+			await runtimeUseCommand(version);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+runtime
+	.command("upgrade")
+	.description("Install the latest release and start new monitors with it")
+	.action(async () => {
+		try {
+			await runtimeUpgradeCommand();
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+const secrets = program.command("secrets").description("Manage stored notification secrets");
+
+secrets
+	.command("list")
+	.description("List stored secrets and the profiles using them")
+	.action(async () => {
+		try {
+			await secretsListCommand();
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+secrets
+	.command("set <name> [value]")
+	.description("Store a secret (prompts for the value when omitted)")
+	.action(async (name, value) => {
+		try {
+			await secretsSetCommand(name, value);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+secrets
+	.command("delete <names...>")
+	.description("Delete stored secrets")
+	.option("-y, --yes", "Delete without confirmation")
+	.action(async (names, options) => {
+		try {
+			await secretsDeleteCommand(names, options);
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+secrets
+	.command("encrypt")
+	.description("Encrypt the secret store with a passphrase (or change it)")
+	.action(async () => {
+		try {
+			await secretsEncryptCommand();
+		} catch (error) {
+			log.error(`Error: ${error}`);
+			process.exit(1);
+		}
+	});
+
+secrets
+	.command("decrypt")
+	.description("Remove passphrase encryption from the secret store")
+	.action(async () => {
+		try {
+			await secretsDecryptCommand();
 		} catch (error) {
 			log.error(`Error: ${error}`);
 			process.exit(1);
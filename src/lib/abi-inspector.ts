@@ -0,0 +1,301 @@
+import type { NetworkPreset, TokenInfo } from "../types/index.js";
+import type {
+	ContractEvent,
+	ContractFunction,
+	ContractSpec,
+	FetchContractSpecResult,
+} from "./contract-inspector.js";
+
+/**
+ * A parameter in a Solidity ABI entry
+ */
+interface AbiParam {
+	name?: string;
+	type: string;
+	indexed?: boolean;
+	components?: AbiParam[];
+}
+
+/**
+ * A Solidity ABI entry (function, event, constructor, ...)
+ */
+interface AbiItem {
+	type: string;
+	name?: string;
+	inputs?: AbiParam[];
+	outputs?: AbiParam[];
+	anonymous?: boolean;
+	stateMutability?: string;
+	constant?: boolean;
+}
+
+/**
+ * Env vars checked for an explorer API key
+ */
+const EXPLORER_API_KEY_VARS = ["BLIP0_EXPLORER_API_KEY", "ETHERSCAN_API_KEY"];
+
+/**
+ * Canonical Solidity type for signatures, expanding tuples into their components
+ */
+function canonicalType(param: AbiParam): string {
+	if (param.type.startsWith("tuple")) {
+		const inner = (param.components ?? []).map(canonicalType).join(",");
+		return `(${inner})${param.type.slice("tuple".length)}`;
+	}
+	return param.type;
+}
+
+/**
+ * Build a Solidity signature such as Transfer(address,address,uint256)
+ */
+function buildSignature(name: string, params: AbiParam[]): string {
+	return `${name}(${params.map(canonicalType).join(",")})`;
+}
+
+/**
+ * Map ABI params to named fields, filling in positional names when missing
+ */
+function toFields(params: AbiParam[]): { name: string; type: string }[] {
+	return params.map((param, index) => ({
+		name: param.name || `arg${index}`,
+		type: canonicalType(param),
+	}));
+}
+
+/**
+ * Parse a Solidity ABI into functions and events
+ */
+export function parseAbi(abi: AbiItem[]): ContractSpec {
+	const functions: ContractFunction[] = [];
+	const events: ContractEvent[] = [];
+
+	for (const item of abi) {
+		if (!item.name) continue;
+		const inputs = item.inputs ?? [];
+
+		if (item.type === "function") {
+			// Read-only calls never show up in transactions, so there is nothing to monitor
+			const readOnly =
+				item.stateMutability === "view" || item.stateMutability === "pure" || item.constant;
+			if (readOnly) continue;
+
+			functions.push({
+				name: item.name,
+				signature: buildSignature(item.name, inputs),
+				inputs: toFields(inputs),
+				outputs: (item.outputs ?? []).map((output) => ({ type: canonicalType(output) })),
+			});
+		}
+
+		// Anonymous events have no topic0 and can't be matched by signature
+		if (item.type === "event" && !item.anonymous) {
+			events.push({
+				name: item.name,
+				signature: buildSignature(item.name, inputs),
+				fields: toFields(inputs).map((field, index) => ({
+					...field,
+					location: inputs[index]?.indexed ? "topic" : "data",
+				})),
+			});
+		}
+	}
+
+	return { functions, events };
+}
+
+/**
+ * Extract the ABI array from raw ABI JSON, build artifacts or explorer responses
+ */
+function normalizeAbi(data: unknown): AbiItem[] {
+	if (Array.isArray(data)) {
+		return data as AbiItem[];
+	}
+
+	if (data && typeof data === "object") {
+		const obj = data as Record<string, unknown>;
+
+		// Hardhat / Foundry artifacts
+		if (Array.isArray(obj.abi)) {
+			return obj.abi as AbiItem[];
+		}
+
+		// Etherscan-compatible responses carry the ABI as a JSON string
+		if (typeof obj.result === "string") {
+			if (obj.status === "0") {
+				throw new Error(`Explorer error: ${obj.result}`);
+			}
+			return normalizeAbi(JSON.parse(obj.result));
+		}
+	}
+
+	throw new Error("Unrecognized ABI format");
+}
+
+/**
+ * Load an ABI from a local file or URL
+ */
+async function loadAbiSource(source: string): Promise<AbiItem[]> {
+	if (/^https?:\/\//.test(source)) {
+		const response = await fetch(source, { headers: { "User-Agent": "blip0-cli" } });
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ABI: HTTP ${response.status}`);
+		}
+		return normalizeAbi(await response.json());
+	}
+
+	const file = Bun.file(source);
+	if (!(await file.exists())) {
+		throw new Error(`ABI file not found: ${source}`);
+	}
+	return normalizeAbi(JSON.parse(await file.text()));
+}
+
+/**
+ * Fetch a verified contract's ABI from an Etherscan-compatible explorer API
+ */
+async function fetchExplorerAbi(
+	contractAddress: string,
+	network: NetworkPreset,
+): Promise<AbiItem[]> {
+	if (!network.explorerApiUrl) {
+		throw new Error(`No explorer API configured for ${network.name}, provide an ABI file`);
+	}
+
+	const url = new URL(network.explorerApiUrl);
+	if (network.chainId) url.searchParams.set("chainid", String(network.chainId));
+	url.searchParams.set("module", "contract");
+	url.searchParams.set("action", "getabi");
+	url.searchParams.set("address", contractAddress);
+
+	const apiKey = EXPLORER_API_KEY_VARS.map((name) => process.env[name]).find(Boolean);
+	if (apiKey) url.searchParams.set("apikey", apiKey);
+
+	const response = await fetch(url, { headers: { "User-Agent": "blip0-cli" } });
+	if (!response.ok) {
+		throw new Error(`Explorer request failed: HTTP ${response.status}`);
+	}
+	return normalizeAbi(await response.json());
+}
+
+/**
+ * Fetch and parse an EVM contract's ABI, from a file/URL or the network's explorer
+ */
+export async function fetchAbiSpec(
+	contractAddress: string,
+	network: NetworkPreset,
+	abiSource?: string,
+): Promise<FetchContractSpecResult> {
+	try {
+		const abi = abiSource
+			? await loadAbiSource(abiSource)
+			: await fetchExplorerAbi(contractAddress, network);
+
+		return { success: true, spec: parseAbi(abi) };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error occurred";
+		return {
+			success: false,
+			error: message,
+		};
+	}
+}
+
+// ERC-20 function selectors
+const DECIMALS_SELECTOR = "0x313ce567";
+const SYMBOL_SELECTOR = "0x95d89b41";
+
+/**
+ * Make a read-only eth_call and return the raw hex result
+ */
+async function ethCall(rpcUrl: string, to: string, data: string): Promise<string> {
+	const response = await fetch(rpcUrl, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "eth_call",
+			params: [{ to, data }, "latest"],
+		}),
+	});
+	const body = (await response.json()) as { result?: string; error?: { message: string } };
+	if (body.error || !body.result || body.result === "0x") {
+		throw new Error(body.error?.message ?? "Empty eth_call result");
+	}
+	return body.result;
+}
+
+/**
+ * Decode an ABI-encoded string, or a bytes32 symbol as used by some older tokens
+ */
+function decodeAbiString(hex: string): string {
+	const data = hex.slice(2);
+	const bytes =
+		data.length === 64
+			? data.replace(/(00)+$/, "")
+			: data.slice(128, 128 + Number.parseInt(data.slice(64, 128), 16) * 2);
+	return Buffer.from(bytes, "hex").toString("utf8");
+}
+
+/**
+ * Read an ERC-20 token's decimals() and symbol(), or null if the contract isn't a token
+ */
+export async function fetchErc20Metadata(
+	contractAddress: string,
+	network: NetworkPreset,
+): Promise<TokenInfo | null> {
+	try {
+		const decimals = Number(
+			BigInt(await ethCall(network.rpcUrl, contractAddress, DECIMALS_SELECTOR)),
+		);
+		if (decimals > 255) {
+			return null;
+		}
+
+		let symbol: string | undefined;
+		try {
+			symbol = decodeAbiString(await ethCall(network.rpcUrl, contractAddress, SYMBOL_SELECTOR));
+		} catch {
+			// Symbol is only used for display
+		}
+
+		return { decimals, symbol: symbol || undefined };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check that a string is a 20-byte hex EVM address
+ */
+export function isEvmAddress(address: string): boolean {
+	return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+/**
+ * Get standard ERC-20 events (fallback when no ABI is available)
+ */
+export function getCommonErc20Events(): ContractEvent[] {
+	return [
+		{
+			name: "Transfer",
+			signature: "Transfer(address,address,uint256)",
+			fields: [
+				{ name: "from", type: "address", location: "topic" },
+				{ name: "to", type: "address", location: "topic" },
+				{ name: "value", type: "uint256", location: "data" },
+			],
+			doc: "Transfer tokens between addresses",
+		},
+		{
+			name: "Approval",
+			signature: "Approval(address,address,uint256)",
+			fields: [
+				{ name: "owner", type: "address", location: "topic" },
+				{ name: "spender", type: "address", location: "topic" },
+				{ name: "value", type: "uint256", location: "data" },
+			],
+			doc: "Approve a spender allowance",
+		},
+	];
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, readlink, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import {
+	getActiveVersion,
+	getBinaryPath,
+	getVersionBinary,
+	installRuntime,
+	isVersionInstalled,
+	listInstalledVersions,
+	useVersion,
+} from "./binary-manager.js";
+import { BLIP0_DIR } from "./paths.js";
+
+let fixtures: string;
+
+beforeEach(async () => {
+	fixtures = await mkdtemp(join(tmpdir(), "blip0-releases-"));
+});
+
+afterEach(async () => {
+	await rm(fixtures, { recursive: true, force: true });
+	await rm(BLIP0_DIR, { recursive: true, force: true });
+});
+
+/**
+ * Build a release tarball shaped like the published ones, returning its path and SHA-256
+ */
+async function makeRelease(version: string): Promise<{ tarball: string; sha256: string }> {
+	const name = `openzeppelin-monitor-${version}-x86_64-unknown-linux-gnu`;
+	await mkdir(join(fixtures, name), { recursive: true });
+	await writeFile(join(fixtures, name, "openzeppelin-monitor"), `#!/bin/sh\necho ${version}\n`);
+
+	const tarball = join(fixtures, `${name}.tar.gz`);
+	await Bun.$`tar -czf ${tarball} -C ${fixtures} ${name}`.quiet();
+	const sha256 = new Bun.CryptoHasher("sha256")
+		.update(await Bun.file(tarball).arrayBuffer())
+		.digest("hex");
+	return { tarball, sha256 };
+}
+
+describe("installRuntime from a local tarball", () => {
+	test("installs a tarball matching --sha256 under its version", async () => {
+		const { tarball, sha256 } = await makeRelease("v1.2.3");
+		const result = await installRuntime({ file: tarball, sha256 });
+
+		expect(result).toEqual({ version: "v1.2.3", alreadyInstalled: false, sha256, verified: true });
+		expect(await readFile(getVersionBinary("v1.2.3"), "utf8")).toContain("echo v1.2.3");
+
+		const again = await installRuntime({ file: tarball, sha256 });
+		expect(again.alreadyInstalled).toBe(true);
+	});
+
+	test("checks the tarball against a checksum file next to it", async () => {
+		const { tarball, sha256 } = await makeRelease("v1.2.3");
+		await writeFile(join(fixtures, "SHA256SUMS"), `${"0".repeat(64)}  other.tar.gz\n`);
+		await writeFile(`${tarball}.sha256`, `${sha256}  ${basename(tarball)}\n`);
+
+		const result = await installRuntime({ file: tarball });
+		expect(result.verified).toBe(true);
+		expect(await isVersionInstalled("v1.2.3")).toBe(true);
+	});
+
+	test("installs nothing when the checksum doesn't match", async () => {
+		const { tarball } = await makeRelease("v1.2.3");
+		await writeFile(`${tarball}.sha256`, `${"0".repeat(64)}\n`);
+
+		await expect(installRuntime({ file: tarball })).rejects.toThrow("Checksum mismatch");
+		await expect(installRuntime({ file: tarball, sha256: "f".repeat(64) })).rejects.toThrow(
+			"Checksum mismatch",
+		);
+		expect(await listInstalledVersions()).toEqual([]);
+	});
+
+	test("says when a tarball couldn't be checked", async () => {
+		const { tarball, sha256 } = await makeRelease("v1.2.3");
+		const result = await installRuntime({ file: tarball });
+		expect(result).toMatchObject({ version: "v1.2.3", sha256, verified: false });
+	});
+});
+
+describe("useVersion", () => {
+	test("switches the active binary between installed versions", async () => {
+		for (const version of ["v1.10.0", "v1.2.3"]) {
+			const { tarball, sha256 } = await makeRelease(version);
+			await installRuntime({ file: tarball, sha256 });
+		}
+		expect(await listInstalledVersions()).toEqual(["v1.2.3", "v1.10.0"]);
+		expect(await getActiveVersion()).toBeUndefined();
+
+		await useVersion("v1.2.3");
+		expect(await getActiveVersion()).toBe("v1.2.3");
+		expect(await getBinaryPath()).toBe(getVersionBinary("v1.2.3"));
+
+		await useVersion("v1.10.0");
+		expect(await getActiveVersion()).toBe("v1.10.0");
+		const link = join(BLIP0_DIR, "bin", "openzeppelin-monitor");
+		expect(await readlink(link)).toBe(join("versions", "v1.10.0", "openzeppelin-monitor"));
+		expect((await Bun.$`${link}`.text()).trim()).toBe("v1.10.0");
+	});
+
+	test("refuses a version that isn't installed", async () => {
+		await expect(useVersion("v9.9.9")).rejects.toThrow("v9.9.9 is not installed");
+		expect(await getActiveVersion()).toBeUndefined();
+	});
+});
@@ -0,0 +1,404 @@
+import { lstat, mkdir, readdir, readlink, rename, rm, symlink } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { BLIP0_DIR } from "./paths.js";
+
+const BIN_DIR = join(BLIP0_DIR, "bin");
+const VERSIONS_DIR = join(BIN_DIR, "versions");
+const BINARY_NAME = "openzeppelin-monitor";
+// The active version: a symlink to versions/<version>/openzeppelin-monitor
+const ACTIVE_LINK = join(BIN_DIR, BINARY_NAME);
+const RELEASES_URL = "https://api.github.com/repos/OpenZeppelin/openzeppelin-monitor/releases";
+
+const VERSION_PATTERN = /^v\d+\.\d+\.\d+(?:-[\w.]+)?$/;
+// Versions in release asset names, e.g. openzeppelin-monitor-v1.1.0-x86_64-unknown-linux-gnu.tar.gz
+const ASSET_VERSION = /openzeppelin-monitor-(v?\d+\.\d+\.\d+(?:-[\w.]+?)?)-(?:x86_64|aarch64)/;
+const CHECKSUM_LINE = /^([a-f0-9]{64})(?:\s+\*?(\S+))?$/i;
+
+/**
+ * A GitHub release of OZ Monitor
+ */
+interface Release {
+	tag_name: string;
+	assets?: Array<{ name: string; browser_download_url: string; digest?: string | null }>;
+}
+
+/**
+ * Where to install OZ Monitor from
+ */
+export interface InstallOptions {
+	// Release to install, e.g. v1.1.0; the latest release by default
+	version?: string;
+	// Local release tarball, for hosts without access to GitHub
+	file?: string;
+	// Expected SHA-256 of the tarball, overriding the published checksum
+	sha256?: string;
+	// Reinstall a version that is already installed
+	force?: boolean;
+	onProgress?: (message: string) => void;
+}
+
+/**
+ * An installed (or already present) OZ Monitor version
+ */
+export interface InstallResult {
+	version: string;
+	alreadyInstalled: boolean;
+	// SHA-256 of the installed tarball
+	sha256?: string;
+	// False when a local tarball had no checksum to be checked against
+	verified: boolean;
+}
+
+/**
+ * Normalize a version to its release tag, e.g. "1.1.0" to "v1.1.0", or null if it isn't one
+ */
+export function normalizeVersion(input: string): string | null {
+	const version = input.trim().startsWith("v") ? input.trim() : `v${input.trim()}`;
+	return VERSION_PATTERN.test(version) ? version : null;
+}
+
+/**
+ * Compare two versions numerically, for sorting newest last
+ */
+export function compareVersions(a: string, b: string): number {
+	const parts = (version: string) =>
+		version
+			.replace(/^v/, "")
+			.split(/[.-]/)
+			.map((part) => (/^\d+$/.test(part) ? Number(part) : part));
+	const [left, right] = [parts(a), parts(b)];
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const [x, y] = [left[i], right[i]];
+		if (x === y) continue;
+		// A pre-release sorts before its release
+		if (x === undefined) return 1;
+		if (y === undefined) return -1;
+		if (typeof x === "number" && typeof y === "number") return x - y;
+		return String(x).localeCompare(String(y));
+	}
+	return 0;
+}
+
+/**
+ * Get the appropriate asset name for the current platform
+ */
+export function getAssetName(version: string): string {
+	const platform = process.platform;
+	const arch = process.arch;
+
+	if (platform === "darwin") {
+		return arch === "arm64"
+			? `openzeppelin-monitor-${version}-aarch64-apple-darwin.tar.gz`
+			: `openzeppelin-monitor-${version}-x86_64-apple-darwin.tar.gz`;
+	} else if (platform === "linux") {
+		return arch === "arm64"
+			? `openzeppelin-monitor-${version}-aarch64-unknown-linux-gnu.tar.gz`
+			: `openzeppelin-monitor-${version}-x86_64-unknown-linux-gnu.tar.gz`;
+	}
+
+	throw new Error(`Unsupported platform: ${platform}/${arch}`);
+}
+
+/**
+ * Check if an OZ Monitor binary is active
+ */
+export async function hasBinary(): Promise<boolean> {
+	return await Bun.file(ACTIVE_LINK).exists();
+}
+
+/**
+ * Path of the active binary, resolved to its version directory
+ */
+export async function getBinaryPath(): Promise<string> {
+	const version = await getActiveVersion();
+	return version ? getVersionBinary(version) : ACTIVE_LINK;
+}
+
+/**
+ * Path of an installed version's binary
+ */
+export function getVersionBinary(version: string): string {
+	return join(VERSIONS_DIR, version, BINARY_NAME);
+}
+
+/**
+ * Check if a version is installed
+ */
+export async function isVersionInstalled(version: string): Promise<boolean> {
+	return await Bun.file(getVersionBinary(version)).exists();
+}
+
+/**
+ * The active version, or undefined if none is active or the binary
+ * was installed by an older blip0 without a version
+ */
+export async function getActiveVersion(): Promise<string | undefined> {
+	try {
+		if (!(await lstat(ACTIVE_LINK)).isSymbolicLink()) {
+			return undefined;
+		}
+		const version = basename(dirname(await readlink(ACTIVE_LINK)));
+		return VERSION_PATTERN.test(version) ? version : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check for a binary installed by an older blip0, which isn't tied to a version
+ */
+export async function hasUnversionedBinary(): Promise<boolean> {
+	try {
+		return (await lstat(ACTIVE_LINK)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Installed versions, oldest first
+ */
+export async function listInstalledVersions(): Promise<string[]> {
+	let entries: string[];
+	try {
+		entries = await readdir(VERSIONS_DIR);
+	} catch {
+		return [];
+	}
+
+	const versions: string[] = [];
+	for (const entry of entries) {
+		if (VERSION_PATTERN.test(entry) && (await Bun.file(getVersionBinary(entry)).exists())) {
+			versions.push(entry);
+		}
+	}
+	return versions.sort(compareVersions);
+}
+
+/**
+ * Make an installed version the one new monitors start with
+ * The link is swapped with a rename, so a concurrent start never sees it missing
+ */
+export async function useVersion(version: string): Promise<void> {
+	if (!(await Bun.file(getVersionBinary(version)).exists())) {
+		throw new Error(`OpenZeppelin Monitor ${version} is not installed`);
+	}
+
+	const tempLink = `${ACTIVE_LINK}.${process.pid}.tmp`;
+	await rm(tempLink, { force: true });
+	await symlink(join("versions", version, BINARY_NAME), tempLink);
+	await rename(tempLink, ACTIVE_LINK);
+}
+
+/**
+ * Install an OZ Monitor version from GitHub releases or a local tarball,
+ * verifying the tarball's SHA-256 before anything is extracted
+ *
+ * Release downloads must match a published checksum (or --sha256); local
+ * tarballs are checked against --sha256 or a checksum file next to them.
+ */
+export async function installRuntime(options: InstallOptions = {}): Promise<InstallResult> {
+	const progress = options.onProgress ?? (() => {});
+	const requested = options.version ? normalizeVersion(options.version) : undefined;
+	if (requested === null) {
+		throw new Error(`Invalid version "${options.version}" (expected e.g. v1.1.0)`);
+	}
+	const expectedOverride = options.sha256?.trim().toLowerCase();
+	if (expectedOverride !== undefined && !/^[a-f0-9]{64}$/.test(expectedOverride)) {
+		throw new Error("--sha256 must be 64 hex characters");
+	}
+
+	await mkdir(VERSIONS_DIR, { recursive: true });
+
+	if (options.file) {
+		const tarball = resolve(options.file);
+		if (!(await Bun.file(tarball).exists())) {
+			throw new Error(`File not found: ${tarball}`);
+		}
+		const fromName = basename(tarball).match(ASSET_VERSION)?.[1];
+		const version = requested ?? (fromName ? normalizeVersion(fromName) : null);
+		if (!version) {
+			throw new Error(
+				`Can't tell the version of ${basename(tarball)}, pass it: blip0 runtime install <version> --file ${options.file}`,
+			);
+		}
+		if (!options.force && (await isVersionInstalled(version))) {
+			return { version, alreadyInstalled: true, verified: true };
+		}
+
+		const expected = expectedOverride ?? (await findLocalChecksum(tarball));
+		progress("Verifying checksum...");
+		const sha256 = await verifyChecksum(tarball, expected);
+		progress("Extracting binary...");
+		await extractBinary(tarball, version);
+		return { version, alreadyInstalled: false, sha256, verified: expected !== undefined };
+	}
+
+	progress(requested ? `Fetching release ${requested}...` : "Fetching latest release info...");
+	const release = await fetchRelease(requested ?? undefined);
+	const version = normalizeVersion(release.tag_name) ?? release.tag_name;
+	if (!options.force && (await isVersionInstalled(version))) {
+		return { version, alreadyInstalled: true, verified: true };
+	}
+
+	const assetName = getAssetName(release.tag_name);
+	const asset = release.assets?.find((a) => a.name === assetName);
+	if (!asset) {
+		const available = release.assets?.map((a) => a.name).join(", ") || "none";
+		throw new Error(
+			`No ${version} binary for your platform (${process.platform}/${process.arch}); assets: ${available}`,
+		);
+	}
+
+	const expected = expectedOverride ?? (await findReleaseChecksum(release, assetName));
+	if (!expected) {
+		throw new Error(
+			`${version} publishes no SHA-256 checksum for ${assetName}; download it and install with --file and --sha256`,
+		);
+	}
+
+	const tarball = join(VERSIONS_DIR, `.${assetName}.${process.pid}.download`);
+	try {
+		progress(`Downloading ${assetName}...`);
+		await downloadFile(asset.browser_download_url, tarball);
+		progress("Verifying checksum...");
+		const sha256 = await verifyChecksum(tarball, expected);
+		progress("Extracting binary...");
+		await extractBinary(tarball, version);
+		return { version, alreadyInstalled: false, sha256, verified: true };
+	} finally {
+		await rm(tarball, { force: true });
+	}
+}
+
+/**
+ * Fetch a release by tag, or the latest release
+ */
+async function fetchRelease(version?: string): Promise<Release> {
+	const url = version ? `${RELEASES_URL}/tags/${version}` : `${RELEASES_URL}/latest`;
+	const response = await fetch(url, { headers: { "User-Agent": "blip0-cli" } });
+	if (response.status === 404) {
+		throw new Error(version ? `No release ${version}` : "No release found");
+	}
+	if (!response.ok) {
+		throw new Error(`Failed to fetch release info: HTTP ${response.status}`);
+	}
+	return (await response.json()) as Release;
+}
+
+/**
+ * Published SHA-256 of a release asset: GitHub's asset digest, or a checksum file in the release
+ */
+async function findReleaseChecksum(
+	release: Release,
+	assetName: string,
+): Promise<string | undefined> {
+	const asset = release.assets?.find((a) => a.name === assetName);
+	if (asset?.digest?.startsWith("sha256:")) {
+		return asset.digest.slice("sha256:".length).toLowerCase();
+	}
+
+	const checksumAssets =
+		release.assets?.filter(
+			(a) => a.name === `${assetName}.sha256` || /(sha256sums|checksums)(\.txt)?$/i.test(a.name),
+		) ?? [];
+	for (const checksumAsset of checksumAssets) {
+		const response = await fetch(checksumAsset.browser_download_url, {
+			headers: { "User-Agent": "blip0-cli" },
+		});
+		if (!response.ok) continue;
+		const checksum = parseChecksumFile(await response.text(), assetName);
+		if (checksum) return checksum;
+	}
+	return undefined;
+}
+
+/**
+ * Checksum of a local tarball from <tarball>.sha256, SHA256SUMS or checksums.txt next to it
+ */
+async function findLocalChecksum(tarball: string): Promise<string | undefined> {
+	const candidates = [
+		`${tarball}.sha256`,
+		join(dirname(tarball), "SHA256SUMS"),
+		join(dirname(tarball), "checksums.txt"),
+	];
+	for (const candidate of candidates) {
+		const file = Bun.file(candidate);
+		if (!(await file.exists())) continue;
+		const checksum = parseChecksumFile(await file.text(), basename(tarball));
+		if (checksum) return checksum;
+	}
+	return undefined;
+}
+
+/**
+ * Find a file's checksum in sha256sum output, or take a lone checksum without a file name
+ */
+function parseChecksumFile(text: string, fileName: string): string | undefined {
+	const lines = text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
+	for (const line of lines) {
+		const match = line.match(CHECKSUM_LINE);
+		if (!match?.[1]) continue;
+		if (!match[2] ? lines.length === 1 : basename(match[2]) === fileName) {
+			return match[1].toLowerCase();
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Hash a file and compare it to the expected SHA-256, if there is one
+ */
+async function verifyChecksum(path: string, expected: string | undefined): Promise<string> {
+	const hasher = new Bun.CryptoHasher("sha256");
+	for await (const chunk of Bun.file(path).stream()) {
+		hasher.update(chunk);
+	}
+	const actual = hasher.digest("hex");
+	if (expected !== undefined && actual !== expected) {
+		throw new Error(`Checksum mismatch for ${basename(path)}: expected ${expected}, got ${actual}`);
+	}
+	return actual;
+}
+
+/**
+ * Download a URL to a file
+ */
+async function downloadFile(url: string, path: string): Promise<void> {
+	const response = await fetch(url, { headers: { "User-Agent": "blip0-cli" } });
+	if (!response.ok) {
+		throw new Error(`Download failed: HTTP ${response.status}`);
+	}
+	await Bun.write(path, response);
+}
+
+/**
+ * Extract the binary from a release tarball into its version directory
+ * The tarball is unpacked beside it first, so a failed extraction leaves no half-installed version
+ */
+async function extractBinary(tarball: string, version: string): Promise<void> {
+	const staging = join(VERSIONS_DIR, `.${version}.${process.pid}.extract`);
+	await rm(staging, { recursive: true, force: true });
+	await mkdir(staging, { recursive: true });
+
+	try {
+		await Bun.$`tar -xzf ${tarball} -C ${staging}`.quiet();
+
+		const glob = new Bun.Glob(`**/${BINARY_NAME}`);
+		const [found] = await Array.fromAsync(glob.scan({ cwd: staging, onlyFiles: true }));
+		if (!found) {
+			throw new Error(`${basename(tarball)} doesn't contain ${BINARY_NAME}`);
+		}
+
+		const target = getVersionBinary(version);
+		await rm(dirname(target), { recursive: true, force: true });
+		await mkdir(dirname(target), { recursive: true });
+		await rename(join(staging, found), target);
+		await Bun.$`chmod +x ${target}`.quiet();
+	} finally {
+		await rm(staging, { recursive: true, force: true });
+	}
+}
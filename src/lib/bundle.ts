@@ -0,0 +1,243 @@
+import { existsSync } from "node:fs";
+import { chmod, copyFile, mkdir, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { CONFIG_KINDS, type ConfigFile, readConfigFiles } from "./config-validator.js";
+
+// Official OpenZeppelin Monitor container image
+export const MONITOR_IMAGE = "ghcr.io/openzeppelin/openzeppelin-monitor";
+
+/**
+ * Extra files written next to the config tree
+ */
+export interface BundleExtras {
+	// Where the bundle came from, e.g. profile "usdc"
+	source: string;
+	// Env vars the triggers read their secrets from, mapped to the secret names
+	secretEnv: Record<string, string>;
+	// Secret values to write to .env; .env is only written when given
+	envValues?: Record<string, string>;
+	docker?: boolean;
+	imageTag?: string;
+}
+
+/**
+ * Files a bundle may write next to its config tree, depending on the export options
+ */
+function bundleFiles(options: { docker?: boolean; env?: boolean }): string[] {
+	return [
+		"config",
+		"README.md",
+		".gitignore",
+		".env.example",
+		...(options.env ? [".env"] : []),
+		...(options.docker ? ["docker-compose.yml"] : []),
+	];
+}
+
+/**
+ * Create the bundle's config directories, refusing to overwrite any file the bundle writes
+ * With force, the existing config tree is replaced so no stale monitors are left behind
+ */
+export async function prepareBundleDir(
+	outDir: string,
+	options: { force?: boolean; docker?: boolean; env?: boolean } = {},
+): Promise<void> {
+	const existing = bundleFiles(options).filter((file) => existsSync(join(outDir, file)));
+	if (existing.length > 0 && !options.force) {
+		throw new Error(
+			`${outDir} already has ${existing.join(", ")}; pass --force to overwrite, or export to a new directory`,
+		);
+	}
+	await rm(join(outDir, "config"), { recursive: true, force: true });
+	for (const kind of CONFIG_KINDS) {
+		await mkdir(join(outDir, "config", kind), { recursive: true });
+	}
+}
+
+/**
+ * Copy the network, monitor and trigger files of a config directory into a bundle
+ */
+export async function copyConfigDir(configDir: string, outDir: string): Promise<void> {
+	for (const kind of CONFIG_KINDS) {
+		const from = join(configDir, kind);
+		if (!existsSync(from)) continue;
+		for (const name of await readdir(from)) {
+			if (name.endsWith(".json")) {
+				await copyFile(join(from, name), join(outDir, "config", kind, name));
+			}
+		}
+	}
+}
+
+/**
+ * Trigger settings read from environment variables, as "trigger id: field"
+ */
+function environmentSecrets(triggers: ConfigFile[]): Map<string, string> {
+	const secrets = new Map<string, string>();
+	for (const { content } of triggers) {
+		for (const [id, trigger] of Object.entries(content)) {
+			const config = ((trigger as { config?: Record<string, unknown> }).config ?? {}) as Record<
+				string,
+				{ type?: string; value?: string }
+			>;
+			for (const [field, value] of Object.entries(config)) {
+				if (value?.type === "environment" && value.value) {
+					secrets.set(value.value, `${id}: ${field}`);
+				}
+			}
+		}
+	}
+	return secrets;
+}
+
+/**
+ * Describe what each monitor watches and where it alerts, for the bundle README
+ */
+function describeMonitors(monitors: ConfigFile[], triggers: ConfigFile[]): string[] {
+	const triggerTypes = new Map<string, string>();
+	for (const { content } of triggers) {
+		for (const [id, trigger] of Object.entries(content)) {
+			triggerTypes.set(id, (trigger as { trigger_type?: string }).trigger_type ?? "unknown");
+		}
+	}
+
+	const lines: string[] = [];
+	for (const { file, content } of monitors) {
+		const monitor = content as {
+			name?: string;
+			networks?: string[];
+			addresses?: Array<{ address: string }>;
+			match_conditions?: Record<string, Array<Record<string, string>>>;
+			triggers?: string[];
+			paused?: boolean;
+		};
+
+		lines.push(`### ${monitor.name ?? file}`, "");
+		lines.push(`- File: \`config/${file}\``);
+		lines.push(`- Networks: ${(monitor.networks ?? []).join(", ") || "none"}`);
+		lines.push(
+			`- Contracts: ${(monitor.addresses ?? []).map((a) => `\`${a.address}\``).join(", ") || "any"}`,
+		);
+
+		for (const [kind, conditions] of Object.entries(monitor.match_conditions ?? {})) {
+			for (const condition of conditions ?? []) {
+				const target = condition.signature ?? `${condition.status ?? "any"} transactions`;
+				const filter = condition.expression ? ` where \`${condition.expression}\`` : "";
+				lines.push(`- Matches ${kind}: \`${target}\`${filter}`);
+			}
+		}
+
+		const alerts = (monitor.triggers ?? []).map(
+			(id) => `${triggerTypes.get(id) ?? "missing"} (\`${id}\`)`,
+		);
+		lines.push(`- Alerts: ${alerts.join(", ") || "none"}`);
+		if (monitor.paused) {
+			lines.push("- Paused");
+		}
+		lines.push("");
+	}
+	return lines;
+}
+
+/**
+ * Write the README, and optionally docker-compose.yml and .env, for a bundle's config tree
+ * Returns the files written, relative to the bundle
+ */
+export async function writeBundleExtras(outDir: string, extras: BundleExtras): Promise<string[]> {
+	const configDir = join(outDir, "config");
+	const monitors = await readConfigFiles(configDir, "monitors");
+	const triggers = await readConfigFiles(configDir, "triggers");
+	const secrets = environmentSecrets(triggers);
+	const written: string[] = [];
+
+	const envNames = [...new Set([...secrets.keys(), ...Object.keys(extras.secretEnv)])].sort();
+
+	if (envNames.length > 0) {
+		await Bun.write(
+			join(outDir, ".env.example"),
+			`${envNames.map((name) => `${name}=`).join("\n")}\n`,
+		);
+		written.push(".env.example");
+	}
+
+	if (extras.envValues) {
+		const lines = envNames.map(
+			(name) => `${name}=${JSON.stringify(extras.envValues?.[name] ?? "")}`,
+		);
+		const envPath = join(outDir, ".env");
+		await Bun.write(envPath, `${lines.join("\n")}\n`);
+		await chmod(envPath, 0o600);
+		written.push(".env");
+	}
+
+	await Bun.write(join(outDir, ".gitignore"), ".env\ndata/\n");
+	written.push(".gitignore");
+
+	if (extras.docker) {
+		// Without exported values, .env is created by hand from .env.example
+		const envFile = extras.envValues
+			? ["    env_file: .env"]
+			: ["    env_file:", "      - path: .env", "        required: false"];
+		const compose = [
+			"services:",
+			"  monitor:",
+			`    image: ${MONITOR_IMAGE}:${extras.imageTag ?? "latest"}`,
+			"    restart: unless-stopped",
+			...(envNames.length > 0 ? envFile : []),
+			"    environment:",
+			"      RUST_LOG: info",
+			"    volumes:",
+			"      - ./config:/app/config:ro",
+			"      - ./data:/app/data",
+			"",
+		];
+		await Bun.write(join(outDir, "docker-compose.yml"), compose.join("\n"));
+		written.push("docker-compose.yml");
+	}
+
+	const readme = [
+		"# OpenZeppelin Monitor bundle",
+		"",
+		`Exported by blip0 from ${extras.source} on ${new Date().toISOString().slice(0, 10)}.`,
+		"",
+		"## Monitors",
+		"",
+		...describeMonitors(monitors, triggers),
+	];
+
+	if (envNames.length > 0) {
+		readme.push(
+			"## Secrets",
+			"",
+			"Notification secrets are read from environment variables, never from the config files.",
+			extras.envValues
+				? "Their values are in `.env`. Keep it out of version control."
+				: "Copy `.env.example` to `.env` and fill in the values.",
+			"",
+			"| Variable | Used by |",
+			"|----------|---------|",
+			...envNames.map((name) => `| \`${name}\` | ${secrets.get(name) ?? "-"} |`),
+			"",
+		);
+	}
+
+	readme.push("## Running", "");
+	if (envNames.length > 0 && !extras.envValues) {
+		readme.push("First copy `.env.example` to `.env` and fill in the values:", "");
+		readme.push("```bash", "cp .env.example .env", "```", "");
+	}
+	if (extras.docker) {
+		readme.push("```bash", "docker compose up -d", "```", "");
+	} else {
+		readme.push(
+			"Run `openzeppelin-monitor` from this directory, so it finds `config/` and keeps its state in `data/`.",
+			...(envNames.length > 0 ? ["Export the variables from `.env` first."] : []),
+			"",
+		);
+	}
+
+	await Bun.write(join(outDir, "README.md"), readme.join("\n"));
+	written.push("README.md");
+
+	return written;
+}
@@ -1,11 +1,17 @@
-import { homedir } from "node:os";
 import { join } from "node:path";
-import type { NetworkPreset, SessionInfo, UserConfig } from "../types/index.js";
+import type { NetworkPreset, SavedConfig, SessionInfo, UserConfig } from "../types/index.js";
+import { BLIP0_DIR, CONFIGS_DIR, RUNTIME_DIR, SESSIONS_FILE } from "./paths.js";
+import {
+	deleteSecrets,
+	getConfigSecretNames,
+	resolveConfigSecrets,
+	storeConfigSecrets,
+} from "./secret-store.js";
+import { readSessionIndex, updateSessionIndex } from "./session-store.js";
+import { hint, log } from "./ui.js";
 
-const BLIP0_DIR = join(homedir(), ".blip0");
-const CONFIGS_DIR = join(BLIP0_DIR, "configs");
-const RUNTIME_DIR = join(BLIP0_DIR, "runtime");
-const SESSIONS_FILE = join(BLIP0_DIR, "sessions.json");
+// Etherscan V2 serves every supported chain, selected by chainid
+const ETHERSCAN_API_URL = "https://api.etherscan.io/v2/api";
 
 // Network presets
 export const NETWORK_PRESETS: Record<string, NetworkPreset> = {
@@ -27,6 +33,56 @@ export const NETWORK_PRESETS: Record<string, NetworkPreset> = {
 		blockTimeMs: 5000,
 		explorerUrl: "https://stellar.expert/explorer/testnet",
 	},
+	ethereum_mainnet: {
+		slug: "ethereum_mainnet",
+		name: "Ethereum Mainnet",
+		type: "EVM",
+		rpcUrl: "https://ethereum-rpc.publicnode.com",
+		chainId: 1,
+		blockTimeMs: 12000,
+		explorerUrl: "https://etherscan.io",
+		explorerApiUrl: ETHERSCAN_API_URL,
+	},
+	ethereum_sepolia: {
+		slug: "ethereum_sepolia",
+		name: "Ethereum Sepolia",
+		type: "EVM",
+		rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+		chainId: 11155111,
+		blockTimeMs: 12000,
+		explorerUrl: "https://sepolia.etherscan.io",
+		explorerApiUrl: ETHERSCAN_API_URL,
+	},
+	base_mainnet: {
+		slug: "base_mainnet",
+		name: "Base Mainnet",
+		type: "EVM",
+		rpcUrl: "https://base-rpc.publicnode.com",
+		chainId: 8453,
+		blockTimeMs: 2000,
+		explorerUrl: "https://basescan.org",
+		explorerApiUrl: ETHERSCAN_API_URL,
+	},
+	arbitrum_one: {
+		slug: "arbitrum_one",
+		name: "Arbitrum One",
+		type: "EVM",
+		rpcUrl: "https://arbitrum-one-rpc.publicnode.com",
+		chainId: 42161,
+		blockTimeMs: 250,
+		explorerUrl: "https://arbiscan.io",
+		explorerApiUrl: ETHERSCAN_API_URL,
+	},
+	polygon_mainnet: {
+		slug: "polygon_mainnet",
+		name: "Polygon Mainnet",
+		type: "EVM",
+		rpcUrl: "https://polygon-bor-rpc.publicnode.com",
+		chainId: 137,
+		blockTimeMs: 2000,
+		explorerUrl: "https://polygonscan.com",
+		explorerApiUrl: ETHERSCAN_API_URL,
+	},
 };
 
 /**
@@ -37,41 +93,191 @@ export async function ensureDirectories(): Promise<void> {
 }
 
 /**
- * Save user config for a tool
+ * Profile used when none is given
+ */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Tools that save configuration profiles
+ */
+export const TOOLS = ["whale-alert"];
+
+/**
+ * Check that a profile name is safe to use as a file name
+ */
+export function isValidProfileName(name: string): boolean {
+	return /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/.test(name);
+}
+
+/**
+ * Get the config file path for a tool profile
+ */
+function getProfilePath(tool: string, profile: string): string {
+	if (!isValidProfileName(profile)) {
+		throw new Error(`Invalid profile name "${profile}" (use letters, digits, ".", "_" and "-")`);
+	}
+	return join(CONFIGS_DIR, tool, `${profile}.json`);
+}
+
+/**
+ * Move a pre-profiles `${tool}.json` config into the tool's default profile
  */
-export async function saveUserConfig(tool: string, config: UserConfig): Promise<void> {
+async function migrateLegacyConfig(tool: string): Promise<void> {
+	const legacyPath = join(CONFIGS_DIR, `${tool}.json`);
+	if (!(await Bun.file(legacyPath).exists())) return;
+
+	const defaultPath = getProfilePath(tool, DEFAULT_PROFILE);
+	await Bun.$`mkdir -p ${join(CONFIGS_DIR, tool)}`.quiet();
+	if (!(await Bun.file(defaultPath).exists())) {
+		await Bun.$`mv ${legacyPath} ${defaultPath}`.quiet();
+	} else {
+		await Bun.$`rm -f ${legacyPath}`.quiet();
+	}
+}
+
+/**
+ * Save user config for a tool profile
+ * Notification secrets go to the secret store; the returned config references them by name
+ */
+export async function saveUserConfig(
+	tool: string,
+	config: UserConfig,
+	profile: string = DEFAULT_PROFILE,
+): Promise<UserConfig> {
 	await ensureDirectories();
-	const configPath = join(CONFIGS_DIR, `${tool}.json`);
-	await Bun.write(configPath, JSON.stringify(config, null, 2));
+	await migrateLegacyConfig(tool);
+	const configPath = getProfilePath(tool, profile);
+	const stored = await storeConfigSecrets(tool, profile, config);
+	await Bun.$`mkdir -p ${join(CONFIGS_DIR, tool)}`.quiet();
+	await Bun.write(configPath, JSON.stringify(stored, null, 2));
+	return stored;
 }
 
 /**
- * Load user config for a tool
+ * Load user config for a tool profile
  */
-export async function loadUserConfig(tool: string): Promise<UserConfig | null> {
-	const configPath = join(CONFIGS_DIR, `${tool}.json`);
-	const file = Bun.file(configPath);
+export async function loadUserConfig(
+	tool: string,
+	profile: string = DEFAULT_PROFILE,
+): Promise<UserConfig | null> {
+	await migrateLegacyConfig(tool);
+	const file = Bun.file(getProfilePath(tool, profile));
 	if (!(await file.exists())) {
 		return null;
 	}
 	const content = await file.text();
-	return JSON.parse(content);
+	return normalizeUserConfig(JSON.parse(content));
+}
+
+/**
+ * Validate a --tool option, defaulting to the only tool with profiles
+ */
+export function resolveTool(tool: string = "whale-alert"): string {
+	if (!TOOLS.includes(tool)) {
+		throw new Error(`Unknown tool "${tool}" (expected one of: ${TOOLS.join(", ")})`);
+	}
+	return tool;
+}
+
+/**
+ * Load a tool profile, reporting it and setting a failing exit code when it doesn't exist
+ */
+export async function loadProfileOrReport(
+	tool: string | undefined,
+	profile: string,
+): Promise<UserConfig | null> {
+	const config = await loadUserConfig(resolveTool(tool), profile);
+	if (!config) {
+		log.error(`Profile not found: ${profile}`);
+		hint("View saved profiles with:");
+		hint("  blip0 profiles list");
+		process.exitCode = 1;
+	}
+	return config;
 }
 
 /**
- * Check if config exists for a tool
+ * Upgrade configs saved before multi-contract support
  */
-export async function hasConfig(tool: string): Promise<boolean> {
-	const configPath = join(CONFIGS_DIR, `${tool}.json`);
-	return await Bun.file(configPath).exists();
+function normalizeUserConfig(
+	raw: UserConfig & { contractAddress?: string; contractName?: string; abiSource?: string },
+): UserConfig {
+	const { contractAddress, contractName, abiSource, ...config } = raw;
+	if (!config.contracts?.length && contractAddress) {
+		config.contracts = [{ address: contractAddress, name: contractName, abiSource }];
+	}
+	return config;
+}
+
+/**
+ * Check if config exists for a tool profile
+ */
+export async function hasConfig(tool: string, profile: string = DEFAULT_PROFILE): Promise<boolean> {
+	await migrateLegacyConfig(tool);
+	return await Bun.file(getProfilePath(tool, profile)).exists();
+}
+
+/**
+ * Delete user config for a tool profile, along with secrets no session still uses
+ */
+export async function deleteUserConfig(
+	tool: string,
+	profile: string = DEFAULT_PROFILE,
+): Promise<void> {
+	const config = await loadUserConfig(tool, profile);
+	await Bun.$`rm -f ${getProfilePath(tool, profile)}`.quiet();
+
+	if (config) {
+		const inUse = new Set((await loadSessions()).flatMap((s) => Object.values(s.secretEnv ?? {})));
+		await deleteSecrets(getConfigSecretNames(config).filter((name) => !inUse.has(name)));
+	}
+}
+
+/**
+ * Copy a tool profile to a new name
+ */
+export async function copyUserConfig(tool: string, from: string, to: string): Promise<void> {
+	const config = await loadUserConfig(tool, from);
+	if (!config) {
+		throw new Error(`Profile not found: ${from}`);
+	}
+	if (await hasConfig(tool, to)) {
+		throw new Error(`Profile already exists: ${to}`);
+	}
+	// The copy gets its own secrets so either profile can change or go away independently
+	await saveUserConfig(tool, await resolveConfigSecrets(config), to);
 }
 
 /**
- * Delete user config for a tool
+ * List profile names saved for a tool
  */
-export async function deleteUserConfig(tool: string): Promise<void> {
-	const configPath = join(CONFIGS_DIR, `${tool}.json`);
-	await Bun.$`rm -f ${configPath}`.quiet();
+export async function listProfiles(tool: string): Promise<string[]> {
+	await migrateLegacyConfig(tool);
+	const glob = new Bun.Glob("*.json");
+	const profiles: string[] = [];
+	try {
+		for await (const file of glob.scan(join(CONFIGS_DIR, tool))) {
+			profiles.push(file.slice(0, -".json".length));
+		}
+	} catch {
+		// No profiles saved for this tool yet
+	}
+	return profiles.sort();
+}
+
+/**
+ * Load every saved profile, grouped by tool
+ */
+export async function loadSavedConfigs(tools: string[]): Promise<SavedConfig> {
+	const saved: SavedConfig = {};
+	for (const tool of tools) {
+		saved[tool] = {};
+		for (const profile of await listProfiles(tool)) {
+			const config = await loadUserConfig(tool, profile);
+			if (config) saved[tool][profile] = config;
+		}
+	}
+	return saved;
 }
 
 /**
@@ -93,7 +299,10 @@ export async function writeOZConfigs(
 	trigger: Record<string, unknown>,
 ): Promise<void> {
 	const networkSlug = network.slug as string;
-	const monitorName = (monitor.name as string).toLowerCase().replace(/\s+/g, "_");
+	const monitorName = (monitor.name as string)
+		.toLowerCase()
+		.replace(/[^a-z0-9_-]+/g, "_")
+		.replace(/^_+|_+$/g, "");
 	const triggerId = Object.keys(trigger)[0];
 
 	await Bun.write(
@@ -114,29 +323,14 @@ export async function writeOZConfigs(
  * Load all sessions
  */
 export async function loadSessions(): Promise<SessionInfo[]> {
-	const file = Bun.file(SESSIONS_FILE);
-	if (!(await file.exists())) {
-		return [];
-	}
-	const content = await file.text();
-	return JSON.parse(content);
+	return readSessionIndex();
 }
 
 /**
- * Save sessions
- */
-export async function saveSessions(sessions: SessionInfo[]): Promise<void> {
-	await ensureDirectories();
-	await Bun.write(SESSIONS_FILE, JSON.stringify(sessions, null, 2));
-}
-
-/**
- * Add a session
+ * Add a session, replacing any existing record with the same id
  */
 export async function addSession(session: SessionInfo): Promise<void> {
-	const sessions = await loadSessions();
-	sessions.push(session);
-	await saveSessions(sessions);
+	await updateSessionIndex((sessions) => [...sessions.filter((s) => s.id !== session.id), session]);
 }
 
 /**
@@ -147,23 +341,22 @@ export async function updateSessionStatus(
 	status: SessionInfo["status"],
 	extra?: { pid?: number; containerId?: string },
 ): Promise<void> {
-	const sessions = await loadSessions();
-	const session = sessions.find((s) => s.id === sessionId);
-	if (session) {
-		session.status = status;
-		if (extra?.pid) session.pid = extra.pid;
-		if (extra?.containerId) session.containerId = extra.containerId;
-		await saveSessions(sessions);
-	}
+	await updateSessionIndex((sessions) => {
+		const session = sessions.find((s) => s.id === sessionId);
+		if (session) {
+			session.status = status;
+			if (extra?.pid) session.pid = extra.pid;
+			if (extra?.containerId) session.containerId = extra.containerId;
+		}
+		return sessions;
+	});
 }
 
 /**
  * Remove a session
  */
 export async function removeSession(sessionId: string): Promise<void> {
-	const sessions = await loadSessions();
-	const filtered = sessions.filter((s) => s.id !== sessionId);
-	await saveSessions(filtered);
+	await updateSessionIndex((sessions) => sessions.filter((s) => s.id !== sessionId));
 }
 
 /**
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	formatValidationIssue,
+	isWellFormedSignature,
+	resolveConfigDir,
+	validateConfigDir,
+} from "./config-validator.js";
+
+const CONTRACT = "CAAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQC526";
+
+const NETWORK = {
+	network_type: "Stellar",
+	slug: "stellar_testnet",
+	name: "Stellar Testnet",
+	rpc_urls: [{ type_: "rpc", url: { type: "plain", value: "https://rpc.example" }, weight: 100 }],
+	network_passphrase: "Test SDF Network ; September 2015",
+	block_time_ms: 5000,
+	confirmation_blocks: 1,
+	cron_schedule: "0 */1 * * * *",
+	max_past_blocks: 20,
+	store_blocks: true,
+};
+
+const MONITOR = {
+	name: "Whale Alert",
+	networks: ["stellar_testnet"],
+	paused: false,
+	addresses: [{ address: CONTRACT }],
+	match_conditions: {
+		functions: [],
+		events: [{ signature: "transfer(Address,Address,i128)", expression: "2 > 1000" }],
+		transactions: [],
+	},
+	triggers: ["whale-alert-slack"],
+};
+
+const TRIGGER = {
+	"whale-alert-slack": {
+		name: "Whale Alert Slack Alert",
+		trigger_type: "slack",
+		config: {
+			slack_url: { type: "environment", value: "BLIP0_SECRET_SLACK" },
+			message: { title: "Large transfer", body: "Details" },
+		},
+	},
+};
+
+let dir: string;
+
+/**
+ * Write a session-style directory with a config/ holding the given files
+ */
+async function writeConfig(files: Record<string, unknown>): Promise<void> {
+	for (const kind of ["networks", "monitors", "triggers"]) {
+		await mkdir(join(dir, "config", kind), { recursive: true });
+	}
+	for (const [file, content] of Object.entries(files)) {
+		const text = typeof content === "string" ? content : JSON.stringify(content);
+		await writeFile(join(dir, "config", file), text);
+	}
+}
+
+beforeEach(async () => {
+	dir = await mkdtemp(join(tmpdir(), "blip0-validate-"));
+});
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+describe("validateConfigDir", () => {
+	test("accepts a consistent config directory", async () => {
+		await writeConfig({
+			"networks/stellar_testnet.json": NETWORK,
+			"monitors/whale_alert.json": MONITOR,
+			"triggers/slack.json": TRIGGER,
+		});
+
+		const report = await validateConfigDir(dir);
+		expect(report.configDir).toBe(join(dir, "config"));
+		expect(report.files).toBe(3);
+		expect(report.issues).toEqual([]);
+	});
+
+	test("reports references to missing networks and triggers", async () => {
+		await writeConfig({
+			"monitors/whale_alert.json": {
+				...MONITOR,
+				networks: ["stellar_mainnet"],
+				triggers: ["whale-alert-discord"],
+			},
+			"networks/stellar_testnet.json": NETWORK,
+			"triggers/slack.json": TRIGGER,
+		});
+
+		const messages = (await validateConfigDir(dir)).issues.map(formatValidationIssue);
+		expect(messages).toEqual([
+			'monitors/whale_alert.json .networks[0]: no network file defines "stellar_mainnet"',
+			'monitors/whale_alert.json .triggers[0]: no trigger file defines "whale-alert-discord"',
+			"triggers/slack.json .whale-alert-slack: trigger isn't used by any monitor",
+			'networks/stellar_testnet.json: network "stellar_testnet" isn\'t used by any monitor',
+		]);
+	});
+
+	test("reports bad signatures, expressions and addresses", async () => {
+		await writeConfig({
+			"networks/stellar_testnet.json": NETWORK,
+			"monitors/whale_alert.json": {
+				...MONITOR,
+				addresses: [{ address: "0x0000000000000000000000000000000000000000" }],
+				match_conditions: {
+					events: [{ signature: "transfer(Address,Address", expression: "2 >" }],
+				},
+			},
+			"triggers/slack.json": TRIGGER,
+		});
+
+		const issues = (await validateConfigDir(dir)).issues;
+		expect(issues.every((issue) => issue.severity === "error")).toBe(true);
+		expect(issues.map((issue) => issue.path)).toEqual([
+			".addresses[0].address",
+			".match_conditions.events[0].signature",
+			".match_conditions.events[0].expression",
+		]);
+	});
+
+	test("reports duplicate definitions across files", async () => {
+		await writeConfig({
+			"networks/a.json": NETWORK,
+			"networks/b.json": NETWORK,
+			"monitors/whale_alert.json": MONITOR,
+			"triggers/a.json": TRIGGER,
+			"triggers/b.json": TRIGGER,
+		});
+
+		const messages = (await validateConfigDir(dir)).issues.map(formatValidationIssue);
+		expect(messages).toEqual([
+			'networks/b.json .slug: network "stellar_testnet" is defined in more than one file',
+			'triggers/b.json .whale-alert-slack: trigger "whale-alert-slack" is defined in more than one file',
+		]);
+	});
+
+	test("reports unparseable and non-object files without crashing", async () => {
+		await writeConfig({
+			"networks/stellar_testnet.json": NETWORK,
+			"networks/null.json": "null",
+			"monitors/whale_alert.json": MONITOR,
+			"monitors/list.json": "[]",
+			"monitors/broken.json": "{",
+			"triggers/slack.json": TRIGGER,
+			"triggers/number.json": "42",
+		});
+
+		const report = await validateConfigDir(dir);
+		expect(report.files).toBe(3);
+		expect(report.issues.map((issue) => [issue.file, issue.message.split(":")[0]])).toEqual([
+			["networks/null.json", "expected a JSON object"],
+			["monitors/broken.json", "invalid JSON"],
+			["monitors/list.json", "expected a JSON object"],
+			["triggers/number.json", "expected a JSON object"],
+		]);
+	});
+
+	test("reports missing directories and monitors", async () => {
+		await mkdir(join(dir, "monitors"));
+
+		const messages = (await validateConfigDir(dir)).issues.map(formatValidationIssue);
+		expect(messages).toEqual([
+			"networks/: directory is missing",
+			"triggers/: directory is missing",
+			"monitors/: no monitor files found",
+		]);
+	});
+});
+
+describe("resolveConfigDir", () => {
+	test("finds the config directory of a session or bundle", async () => {
+		expect(resolveConfigDir(dir)).toBeNull();
+		await writeConfig({});
+		expect(resolveConfigDir(dir)).toBe(join(dir, "config"));
+		expect(resolveConfigDir(join(dir, "config"))).toBe(join(dir, "config"));
+	});
+});
+
+describe("isWellFormedSignature", () => {
+	test("requires a name and balanced brackets", () => {
+		expect(isWellFormedSignature("transfer(Address,Address,i128)")).toBe(true);
+		expect(isWellFormedSignature("swap(Vec<(Address,i128)>)")).toBe(true);
+		expect(isWellFormedSignature("(Address)")).toBe(false);
+		expect(isWellFormedSignature("transfer(Vec<Address)")).toBe(false);
+	});
+});
@@ -0,0 +1,263 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { isValidContractAddress } from "./contract-inspector.js";
+import { parseExpression } from "./expression-parser.js";
+import {
+	type SchemaIssue,
+	validateMonitorConfig,
+	validateNetworkConfig,
+	validateTriggerConfig,
+} from "./oz-schema.js";
+
+export const CONFIG_KINDS = ["networks", "monitors", "triggers"] as const;
+
+export type ConfigKind = (typeof CONFIG_KINDS)[number];
+
+/**
+ * A problem in a config directory, located by file and JSON path
+ */
+export interface ValidationIssue {
+	severity: "error" | "warning";
+	// Relative to the config directory, e.g. monitors/whale_alert.json
+	file: string;
+	path: string;
+	message: string;
+}
+
+/**
+ * Result of validating a config directory
+ */
+export interface ValidationReport {
+	configDir: string;
+	files: number;
+	issues: ValidationIssue[];
+}
+
+/**
+ * A parsed config file
+ */
+export interface ConfigFile {
+	kind: ConfigKind;
+	file: string;
+	content: Record<string, unknown>;
+}
+
+const SCHEMA_VALIDATORS: Record<ConfigKind, (config: unknown) => SchemaIssue[]> = {
+	networks: validateNetworkConfig,
+	monitors: validateMonitorConfig,
+	triggers: validateTriggerConfig,
+};
+
+/**
+ * Find the directory holding networks/, monitors/ and triggers/
+ * Accepts a session directory or bundle (with a config/ subdirectory) or the config directory itself
+ */
+export function resolveConfigDir(dir: string): string | null {
+	if (existsSync(join(dir, "config", "monitors"))) {
+		return join(dir, "config");
+	}
+	if (existsSync(join(dir, "monitors"))) {
+		return dir;
+	}
+	return null;
+}
+
+/**
+ * Check that a signature looks like name(type,type,...) with balanced brackets
+ */
+export function isWellFormedSignature(signature: string): boolean {
+	if (!/^[A-Za-z_]\w*\(.*\)$/.test(signature)) {
+		return false;
+	}
+	let depth = 0;
+	for (const char of signature) {
+		if (char === "(" || char === "<") depth++;
+		if (char === ")" || char === ">") depth--;
+		if (depth < 0) return false;
+	}
+	return depth === 0;
+}
+
+/**
+ * Read every JSON file of one kind, reporting files that don't parse or aren't JSON objects
+ */
+export async function readConfigFiles(
+	configDir: string,
+	kind: ConfigKind,
+	issues: ValidationIssue[] = [],
+): Promise<ConfigFile[]> {
+	const dir = join(configDir, kind);
+	if (!existsSync(dir)) {
+		issues.push({ severity: "error", file: `${kind}/`, path: "", message: "directory is missing" });
+		return [];
+	}
+
+	const files: ConfigFile[] = [];
+	for (const name of (await readdir(dir)).filter((entry) => entry.endsWith(".json")).sort()) {
+		const file = `${kind}/${name}`;
+		try {
+			const content: unknown = JSON.parse(await Bun.file(join(dir, name)).text());
+			// Every kind of config is an object; anything else can't be checked any further
+			if (typeof content !== "object" || content === null || Array.isArray(content)) {
+				issues.push({ severity: "error", file, path: "", message: "expected a JSON object" });
+				continue;
+			}
+			files.push({ kind, file, content: content as Record<string, unknown> });
+		} catch (error) {
+			issues.push({
+				severity: "error",
+				file,
+				path: "",
+				message: `invalid JSON: ${error instanceof Error ? error.message : error}`,
+			});
+		}
+	}
+	return files;
+}
+
+/**
+ * Validate the network, monitor and trigger files of a config directory,
+ * each against OZ Monitor's schema and against one another
+ */
+export async function validateConfigDir(dir: string): Promise<ValidationReport> {
+	const configDir = resolveConfigDir(dir) ?? dir;
+	const issues: ValidationIssue[] = [];
+	const error = (file: string, path: string, message: string) =>
+		issues.push({ severity: "error", file, path, message });
+	const warning = (file: string, path: string, message: string) =>
+		issues.push({ severity: "warning", file, path, message });
+
+	const files: Record<ConfigKind, ConfigFile[]> = {
+		networks: await readConfigFiles(configDir, "networks", issues),
+		monitors: await readConfigFiles(configDir, "monitors", issues),
+		triggers: await readConfigFiles(configDir, "triggers", issues),
+	};
+
+	for (const kind of CONFIG_KINDS) {
+		for (const { file, content } of files[kind]) {
+			for (const issue of SCHEMA_VALIDATORS[kind](content)) {
+				error(file, issue.path, issue.message);
+			}
+		}
+	}
+
+	// Networks by slug and triggers by id, flagging duplicates across files
+	const networkTypes = new Map<string, string>();
+	for (const { file, content } of files.networks) {
+		const slug = content.slug as string;
+		if (networkTypes.has(slug)) {
+			error(file, ".slug", `network "${slug}" is defined in more than one file`);
+		}
+		networkTypes.set(slug, content.network_type as string);
+	}
+
+	const triggerIds = new Set<string>();
+	for (const { file, content } of files.triggers) {
+		for (const id of Object.keys(content)) {
+			if (triggerIds.has(id)) {
+				error(file, `.${id}`, `trigger "${id}" is defined in more than one file`);
+			}
+			triggerIds.add(id);
+		}
+	}
+
+	if (files.monitors.length === 0) {
+		error("monitors/", "", "no monitor files found");
+	}
+
+	const usedNetworks = new Set<string>();
+	const usedTriggers = new Set<string>();
+	const monitorNames = new Set<string>();
+
+	for (const { file, content } of files.monitors) {
+		const name = content.name as string;
+		if (monitorNames.has(name)) {
+			error(file, ".name", `monitor "${name}" is defined in more than one file`);
+		}
+		monitorNames.add(name);
+
+		const networks = Array.isArray(content.networks) ? (content.networks as string[]) : [];
+		networks.forEach((slug, index) => {
+			usedNetworks.add(slug);
+			if (!networkTypes.has(slug)) {
+				error(file, `.networks[${index}]`, `no network file defines "${slug}"`);
+			}
+		});
+
+		const triggers = Array.isArray(content.triggers) ? (content.triggers as string[]) : [];
+		triggers.forEach((id, index) => {
+			usedTriggers.add(id);
+			if (!triggerIds.has(id)) {
+				error(file, `.triggers[${index}]`, `no trigger file defines "${id}"`);
+			}
+		});
+		if (triggers.length === 0) {
+			warning(file, ".triggers", "monitor has no triggers, matches won't notify anyone");
+		}
+
+		// Addresses can only be checked when every network of the monitor is the same type
+		const types = new Set(networks.map((slug) => networkTypes.get(slug)).filter(Boolean));
+		const [networkType] = types;
+		const addresses = Array.isArray(content.addresses) ? content.addresses : [];
+		if (types.size === 1 && (networkType === "Stellar" || networkType === "EVM")) {
+			addresses.forEach((entry: { address?: unknown }, index) => {
+				if (
+					typeof entry?.address === "string" &&
+					!isValidContractAddress(entry.address, networkType)
+				) {
+					error(
+						file,
+						`.addresses[${index}].address`,
+						`"${entry.address}" is not a valid ${networkType} contract address`,
+					);
+				}
+			});
+		}
+
+		const conditions = (content.match_conditions ?? {}) as Record<string, unknown>;
+		for (const key of ["functions", "events", "transactions"]) {
+			const entries = Array.isArray(conditions[key]) ? (conditions[key] as unknown[]) : [];
+			entries.forEach((entry, index) => {
+				const path = `.match_conditions.${key}[${index}]`;
+				const { signature, expression } = (entry ?? {}) as Record<string, unknown>;
+				if (typeof signature === "string" && !isWellFormedSignature(signature)) {
+					error(file, `${path}.signature`, `"${signature}" is not a well-formed signature`);
+				}
+				if (typeof expression === "string" && expression.trim()) {
+					const parsed = parseExpression(expression);
+					if (!parsed.success) {
+						error(file, `${path}.expression`, parsed.error);
+					}
+				}
+			});
+		}
+	}
+
+	for (const { file, content } of files.triggers) {
+		for (const id of Object.keys(content)) {
+			if (!usedTriggers.has(id)) {
+				warning(file, `.${id}`, "trigger isn't used by any monitor");
+			}
+		}
+	}
+	for (const { file, content } of files.networks) {
+		if (!usedNetworks.has(content.slug as string)) {
+			warning(file, "", `network "${content.slug}" isn't used by any monitor`);
+		}
+	}
+
+	return {
+		configDir,
+		files: files.networks.length + files.monitors.length + files.triggers.length,
+		issues,
+	};
+}
+
+/**
+ * Format an issue as "file path: message"
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+	const location = issue.path ? `${issue.file} ${issue.path}` : issue.file;
+	return `${location}: ${issue.message}`;
+}
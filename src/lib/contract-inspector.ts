@@ -1,6 +1,18 @@
-import { Contract, rpc, xdr } from "@stellar/stellar-sdk";
+import {
+	Account,
+	BASE_FEE,
+	Contract,
+	rpc,
+	StrKey,
+	scValToNative,
+	TransactionBuilder,
+	xdr,
+} from "@stellar/stellar-sdk";
 import { Spec } from "@stellar/stellar-sdk/contract";
-import { NETWORK_PRESETS } from "./config-manager.js";
+import type { NetworkPreset, TokenInfo } from "../types/index.js";
+import { fetchAbiSpec, fetchErc20Metadata, isEvmAddress } from "./abi-inspector.js";
+import { getNetwork } from "./network-registry.js";
+import { withHealthyRpc } from "./rpc-health.js";
 
 /**
  * Represents a contract function from the spec
@@ -13,13 +25,19 @@ export interface ContractFunction {
 	doc?: string;
 }
 
+/**
+ * Where an event field is emitted: as a topic or in the event data
+ */
+export type EventFieldLocation = "topic" | "data";
+
 /**
  * Represents a contract event from the spec
+ * Fields are in the order the monitor indexes them: topics first, then data
  */
 export interface ContractEvent {
 	name: string;
 	signature: string;
-	fields: { name: string; type: string }[];
+	fields: { name: string; type: string; location?: EventFieldLocation }[];
 	doc?: string;
 }
 
@@ -131,12 +149,77 @@ function buildEventSignature(name: string, fields: { name: string; type: string
 	return `${name}(${params})`;
 }
 
+/**
+ * Convert a Rust type name such as TransferEvent to snake_case
+ */
+function toSnakeCase(name: string): string {
+	return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+/**
+ * Parse an explicit event spec entry, emitted by contracts built with #[contractevent]
+ */
+function parseEventEntry(event: xdr.ScSpecEventV0): ContractEvent {
+	const topicLocation = xdr.ScSpecEventParamLocationV0.scSpecEventParamLocationTopicList().value;
+	const params = event.params().map((param) => ({
+		name: param.name().toString(),
+		type: typeToString(param.type()),
+		location: (param.location().value === topicLocation ? "topic" : "data") as EventFieldLocation,
+	}));
+
+	// Topics after the prefix come first in the emitted event, followed by the data
+	const fields = [
+		...params.filter((param) => param.location === "topic"),
+		...params.filter((param) => param.location === "data"),
+	];
+
+	// The monitor matches events by their first topic, which defaults to the snake_case name
+	const name = event.prefixTopics()[0]?.toString() || toSnakeCase(event.name().toString());
+
+	return {
+		name,
+		signature: buildEventSignature(name, fields),
+		fields,
+		doc: event.doc().toString() || undefined,
+	};
+}
+
+/**
+ * Guess events from UDT structs by name, for WASM built before event specs existed
+ */
+function guessEventFromStruct(struct: xdr.ScSpecUdtStructV0): ContractEvent | null {
+	const name = struct.name().toString();
+	const lowerName = name.toLowerCase();
+	if (
+		!lowerName.includes("event") &&
+		lowerName !== "transfer" &&
+		lowerName !== "mint" &&
+		lowerName !== "burn" &&
+		lowerName !== "approval"
+	) {
+		return null;
+	}
+
+	const fields = struct.fields().map((field) => ({
+		name: field.name().toString(),
+		type: typeToString(field.type()),
+	}));
+
+	return {
+		name,
+		signature: buildEventSignature(name, fields),
+		fields,
+		doc: struct.doc().toString() || undefined,
+	};
+}
+
 /**
  * Parse the spec entries into functions and events
  */
 function parseSpecEntries(specEntries: xdr.ScSpecEntry[]): ContractSpec {
 	const functions: ContractFunction[] = [];
-	const events: ContractEvent[] = [];
+	const specEvents: ContractEvent[] = [];
+	const guessedEvents: ContractEvent[] = [];
 
 	for (const entry of specEntries) {
 		const entryType = entry.switch().value;
@@ -167,39 +250,18 @@ function parseSpecEntries(specEntries: xdr.ScSpecEntry[]): ContractSpec {
 			}
 		}
 
-		// Events are defined as UDT structs with specific naming patterns
-		// or as ScSpecEntryUdtEnumV0/ScSpecEntryUdtStructV0 with event semantics
-		// For now, we'll look for structs that could be events
+		if (entryType === xdr.ScSpecEntryKind.scSpecEntryEventV0().value) {
+			specEvents.push(parseEventEntry(entry.eventV0()));
+		}
+
 		if (entryType === xdr.ScSpecEntryKind.scSpecEntryUdtStructV0().value) {
-			const struct = entry.udtStructV0();
-			const name = struct.name().toString();
-			const doc = struct.doc().toString() || undefined;
-
-			// Check if this looks like an event (common patterns)
-			const lowerName = name.toLowerCase();
-			if (
-				lowerName.includes("event") ||
-				lowerName === "transfer" ||
-				lowerName === "mint" ||
-				lowerName === "burn" ||
-				lowerName === "approval"
-			) {
-				const fields = struct.fields().map((field) => ({
-					name: field.name().toString(),
-					type: typeToString(field.type()),
-				}));
-
-				events.push({
-					name,
-					signature: buildEventSignature(name, fields),
-					fields,
-					doc,
-				});
-			}
+			const event = guessEventFromStruct(entry.udtStructV0());
+			if (event) guessedEvents.push(event);
 		}
 	}
 
-	return { functions, events };
+	// Name heuristics are only a fallback for WASM without event spec entries
+	return { functions, events: specEvents.length > 0 ? specEvents : guessedEvents };
 }
 
 /**
@@ -207,6 +269,13 @@ function parseSpecEntries(specEntries: xdr.ScSpecEntry[]): ContractSpec {
  */
 type ContractExecutableInfo = { type: "wasm"; wasm: Buffer } | { type: "stellar_asset" };
 
+/**
+ * Soroban RPC client; plain http is allowed for local and self-hosted nodes
+ */
+function createRpcServer(rpcUrl: string): rpc.Server {
+	return new rpc.Server(rpcUrl, { allowHttp: rpcUrl.startsWith("http://") });
+}
+
 /**
  * Fetch the contract executable info from the network
  * Handles both WASM contracts and Stellar Asset Contracts (SACs)
@@ -215,7 +284,7 @@ async function fetchContractExecutable(
 	contractId: string,
 	rpcUrl: string,
 ): Promise<ContractExecutableInfo> {
-	const server = new rpc.Server(rpcUrl);
+	const server = createRpcServer(rpcUrl);
 
 	// Step 1: Get the contract instance to find the executable type
 	const contract = new Contract(contractId);
@@ -373,9 +442,9 @@ function getStellarAssetContractSpec(): ContractSpec {
 				name: "transfer",
 				signature: "transfer(Address,Address,i128)",
 				fields: [
-					{ name: "from", type: "Address" },
-					{ name: "to", type: "Address" },
-					{ name: "amount", type: "i128" },
+					{ name: "from", type: "Address", location: "topic" },
+					{ name: "to", type: "Address", location: "topic" },
+					{ name: "amount", type: "i128", location: "data" },
 				],
 				doc: "Emitted when tokens are transferred",
 			},
@@ -383,8 +452,8 @@ function getStellarAssetContractSpec(): ContractSpec {
 				name: "mint",
 				signature: "mint(Address,i128)",
 				fields: [
-					{ name: "to", type: "Address" },
-					{ name: "amount", type: "i128" },
+					{ name: "to", type: "Address", location: "topic" },
+					{ name: "amount", type: "i128", location: "data" },
 				],
 				doc: "Emitted when tokens are minted",
 			},
@@ -392,8 +461,8 @@ function getStellarAssetContractSpec(): ContractSpec {
 				name: "clawback",
 				signature: "clawback(Address,i128)",
 				fields: [
-					{ name: "from", type: "Address" },
-					{ name: "amount", type: "i128" },
+					{ name: "from", type: "Address", location: "topic" },
+					{ name: "amount", type: "i128", location: "data" },
 				],
 				doc: "Emitted when tokens are clawed back",
 			},
@@ -401,8 +470,8 @@ function getStellarAssetContractSpec(): ContractSpec {
 				name: "burn",
 				signature: "burn(Address,i128)",
 				fields: [
-					{ name: "from", type: "Address" },
-					{ name: "amount", type: "i128" },
+					{ name: "from", type: "Address", location: "topic" },
+					{ name: "amount", type: "i128", location: "data" },
 				],
 				doc: "Emitted when tokens are burned",
 			},
@@ -410,14 +479,23 @@ function getStellarAssetContractSpec(): ContractSpec {
 	};
 }
 
+/**
+ * Options for fetching a contract's specification
+ */
+export interface FetchContractSpecOptions {
+	// ABI file or URL for EVM contracts
+	abiSource?: string;
+}
+
 /**
  * Fetch and parse a contract's specification from the network
  */
 export async function fetchContractSpec(
 	contractAddress: string,
 	network: string,
+	options: FetchContractSpecOptions = {},
 ): Promise<FetchContractSpecResult> {
-	const networkPreset = NETWORK_PRESETS[network];
+	const networkPreset = getNetwork(network);
 
 	if (!networkPreset) {
 		return {
@@ -426,17 +504,15 @@ export async function fetchContractSpec(
 		};
 	}
 
-	// Only Stellar networks are supported
-	if (networkPreset.type !== "Stellar") {
-		return {
-			success: false,
-			error: "Contract introspection is only supported for Stellar networks",
-		};
+	// EVM contracts are described by their Solidity ABI
+	if (networkPreset.type === "EVM") {
+		return fetchAbiSpec(contractAddress, networkPreset, options.abiSource);
 	}
 
 	try {
-		// Fetch the contract executable info
-		const execInfo = await fetchContractExecutable(contractAddress, networkPreset.rpcUrl);
+		// Fetch the contract executable info from the best healthy endpoint
+		const { rpcUrl } = await withHealthyRpc(networkPreset);
+		const execInfo = await fetchContractExecutable(contractAddress, rpcUrl);
 
 		// Handle Stellar Asset Contracts (SACs) - use standard SEP-41 interface
 		if (execInfo.type === "stellar_asset") {
@@ -459,6 +535,102 @@ export async function fetchContractSpec(
 	}
 }
 
+// All-zero account used as the source of read-only simulations; it never has to exist
+const SIMULATION_SOURCE = "GAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWHF";
+
+/**
+ * Call a read-only contract method through simulation and return its native value
+ */
+async function simulateRead(
+	server: rpc.Server,
+	contractId: string,
+	method: string,
+	networkPassphrase: string,
+): Promise<unknown> {
+	const tx = new TransactionBuilder(new Account(SIMULATION_SOURCE, "0"), {
+		fee: BASE_FEE,
+		networkPassphrase,
+	})
+		.addOperation(new Contract(contractId).call(method))
+		.setTimeout(30)
+		.build();
+
+	const simulation = await server.simulateTransaction(tx);
+	if (!rpc.Api.isSimulationSuccess(simulation) || !simulation.result) {
+		throw new Error(`Simulation of ${method}() failed`);
+	}
+	return scValToNative(simulation.result.retval);
+}
+
+/**
+ * Read a token's decimals() and symbol(), or null if the contract isn't a token
+ * Works for Stellar Asset Contracts and SEP-41 tokens on Stellar, and ERC-20 tokens on EVM
+ */
+export async function fetchTokenMetadata(
+	contractAddress: string,
+	network: string,
+): Promise<TokenInfo | null> {
+	const configured = getNetwork(network);
+	if (!configured) {
+		return null;
+	}
+
+	const networkPreset = await withHealthyRpc(configured);
+	if (networkPreset.type === "EVM") {
+		return fetchErc20Metadata(contractAddress, networkPreset);
+	}
+
+	try {
+		const server = createRpcServer(networkPreset.rpcUrl);
+		const passphrase = networkPreset.networkPassphrase ?? "";
+		const decimals = Number(await simulateRead(server, contractAddress, "decimals", passphrase));
+		if (!Number.isInteger(decimals) || decimals < 0) {
+			return null;
+		}
+
+		let symbol: string | undefined;
+		try {
+			const raw = String(await simulateRead(server, contractAddress, "symbol", passphrase));
+			// The native asset's SAC reports its symbol as "native"
+			symbol = raw === "native" ? "XLM" : raw;
+		} catch {
+			// Symbol is only used for display
+		}
+
+		return { decimals, symbol };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keep only the functions and events whose signatures appear in every spec
+ */
+export function intersectContractSpecs(specs: ContractSpec[]): ContractSpec {
+	const [first, ...rest] = specs;
+	if (!first) {
+		return { functions: [], events: [] };
+	}
+
+	const inAll = (signature: string, pick: (spec: ContractSpec) => { signature: string }[]) =>
+		rest.every((spec) => pick(spec).some((item) => item.signature === signature));
+
+	return {
+		functions: first.functions.filter((fn) => inAll(fn.signature, (spec) => spec.functions)),
+		events: first.events.filter((event) => inAll(event.signature, (spec) => spec.events)),
+	};
+}
+
+/**
+ * Check that an address is valid for the given network type
+ */
+export function isValidContractAddress(
+	address: string,
+	networkType: NetworkPreset["type"],
+): boolean {
+	return networkType === "EVM" ? isEvmAddress(address) : StrKey.isValidContract(address);
+}
+
 /**
  * Get common token events (for contracts that follow standard patterns)
  * This is used as a fallback when we can't detect events from the spec
@@ -469,9 +641,9 @@ export function getCommonTokenEvents(): ContractEvent[] {
 			name: "transfer",
 			signature: "transfer(Address,Address,i128)",
 			fields: [
-				{ name: "from", type: "Address" },
-				{ name: "to", type: "Address" },
-				{ name: "amount", type: "i128" },
+				{ name: "from", type: "Address", location: "topic" },
+				{ name: "to", type: "Address", location: "topic" },
+				{ name: "amount", type: "i128", location: "data" },
 			],
 			doc: "Transfer tokens between addresses",
 		},
@@ -479,8 +651,8 @@ export function getCommonTokenEvents(): ContractEvent[] {
 			name: "mint",
 			signature: "mint(Address,i128)",
 			fields: [
-				{ name: "to", type: "Address" },
-				{ name: "amount", type: "i128" },
+				{ name: "to", type: "Address", location: "topic" },
+				{ name: "amount", type: "i128", location: "data" },
 			],
 			doc: "Mint new tokens",
 		},
@@ -488,8 +660,8 @@ export function getCommonTokenEvents(): ContractEvent[] {
 			name: "burn",
 			signature: "burn(Address,i128)",
 			fields: [
-				{ name: "from", type: "Address" },
-				{ name: "amount", type: "i128" },
+				{ name: "from", type: "Address", location: "topic" },
+				{ name: "amount", type: "i128", location: "data" },
 			],
 			doc: "Burn tokens",
 		},
@@ -0,0 +1,124 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { MONITOR_IMAGE } from "./bundle.js";
+
+export const DEFAULT_IMAGE = `${MONITOR_IMAGE}:latest`;
+// Where the official image reads its config and keeps its block data
+const CONTAINER_CONFIG_DIR = "/app/config";
+const CONTAINER_DATA_DIR = "/app/data";
+const STOP_TIMEOUT_SECONDS = 5;
+
+/**
+ * Check that the docker CLI is installed and its daemon is reachable
+ */
+export async function hasDocker(): Promise<boolean> {
+	try {
+		await Bun.$`docker version --format ${"{{.Server.Version}}"}`.quiet();
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Name of a session's container, so it can be found with docker ps
+ */
+export function getContainerName(sessionId: string): string {
+	return `blip0-${sessionId}`;
+}
+
+/**
+ * Run the monitor image detached with the session's config and data directories mounted,
+ * returning the container id
+ *
+ * Secrets are passed by name only (-e NAME) and read from the docker CLI's own
+ * environment, so their values never appear in the command line.
+ */
+export async function startContainer(
+	sessionId: string,
+	sessionDir: string,
+	image: string,
+	env: Record<string, string>,
+): Promise<string> {
+	const dataDir = join(sessionDir, "data");
+	await mkdir(dataDir, { recursive: true });
+
+	// A container left over from an earlier run would hold on to the name
+	await removeContainer(getContainerName(sessionId));
+
+	const envArgs = Object.keys(env).flatMap((name) => ["-e", name]);
+	const result =
+		await Bun.$`docker run -d --name ${getContainerName(sessionId)} --label blip0.session=${sessionId} -v ${join(sessionDir, "config")}:${CONTAINER_CONFIG_DIR}:ro -v ${dataDir}:${CONTAINER_DATA_DIR} -e RUST_LOG=info ${envArgs} ${image}`
+			.env({ ...process.env, ...env })
+			.quiet();
+	return result.text().trim();
+}
+
+/**
+ * Check if a container is running
+ */
+export async function isContainerRunning(containerId: string): Promise<boolean> {
+	try {
+		const result =
+			await Bun.$`docker inspect --format ${"{{.State.Running}}"} ${containerId}`.quiet();
+		return result.text().trim() === "true";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Stop a container, keeping it (and its logs) until the session is restarted or purged
+ */
+export async function stopContainer(containerId: string): Promise<void> {
+	if (await isContainerRunning(containerId)) {
+		await Bun.$`docker stop --time ${STOP_TIMEOUT_SECONDS} ${containerId}`.quiet();
+	}
+}
+
+/**
+ * Remove a container if it exists
+ */
+export async function removeContainer(container: string): Promise<void> {
+	await Bun.$`docker rm -f ${container}`.quiet().nothrow();
+}
+
+/**
+ * Read a container's output, oldest first
+ */
+export async function readContainerLogs(containerId: string): Promise<string[]> {
+	const result = await Bun.$`docker logs ${containerId} 2>&1`.quiet().nothrow();
+	if (result.exitCode !== 0) {
+		throw new Error(`Can't read logs of container ${containerId.slice(0, 12)}`);
+	}
+	const lines = result.text().split("\n");
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+/**
+ * Follow a container's new output, calling onLine for each line until the signal aborts
+ */
+export async function followContainerLogs(
+	containerId: string,
+	onLine: (line: string) => void,
+	signal: AbortSignal,
+): Promise<void> {
+	const proc = Bun.spawn(["docker", "logs", "--follow", "--since", "0s", containerId], {
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	signal.addEventListener("abort", () => proc.kill(), { once: true });
+
+	// The monitor writes to both streams, which docker keeps apart
+	const pump = async (stream: ReadableStream<Uint8Array>) => {
+		const decoder = new TextDecoder();
+		let partial = "";
+		for await (const chunk of stream) {
+			const lines = (partial + decoder.decode(chunk, { stream: true })).split("\n");
+			partial = lines.pop() ?? "";
+			for (const line of lines) onLine(line);
+		}
+	};
+	await Promise.all([pump(proc.stdout), pump(proc.stderr), proc.exited]);
+}
@@ -0,0 +1,200 @@
+import type { MatchParam, NetworkPreset } from "../types/index.js";
+import type { MatchKind } from "./match-conditions.js";
+
+/**
+ * Operators offered by the expression builder
+ */
+export type ConditionOperator =
+	| "eq"
+	| "ne"
+	| "gt"
+	| "gte"
+	| "lt"
+	| "lte"
+	| "between"
+	| "in"
+	| "not_in"
+	| "contains";
+
+/**
+ * How conditions are joined into one expression
+ */
+export type ExpressionJoiner = "AND" | "OR";
+
+/**
+ * A single condition on one parameter
+ */
+export interface ExpressionCondition {
+	ref: string;
+	param: MatchParam;
+	operator: ConditionOperator;
+	values: string[];
+}
+
+/**
+ * Labels for operators, and how many values each takes (0 = a list)
+ */
+export const OPERATORS: Record<ConditionOperator, { label: string; arity: number }> = {
+	eq: { label: "equals", arity: 1 },
+	ne: { label: "does not equal", arity: 1 },
+	gt: { label: "greater than", arity: 1 },
+	gte: { label: "at least", arity: 1 },
+	lt: { label: "less than", arity: 1 },
+	lte: { label: "at most", arity: 1 },
+	between: { label: "between", arity: 2 },
+	in: { label: "in list", arity: 0 },
+	not_in: { label: "not in list", arity: 0 },
+	contains: { label: "contains", arity: 1 },
+};
+
+const COMPARISON_SYMBOLS: Partial<Record<ConditionOperator, string>> = {
+	eq: "==",
+	ne: "!=",
+	gt: ">",
+	gte: ">=",
+	lt: "<",
+	lte: "<=",
+};
+
+// Soroban integers and Solidity int/uint of any width
+const NUMERIC_TYPE = /^(?:[iu](?:32|64|128|256)|u?int\d*)$/;
+
+/**
+ * Check whether a spec type is an integer
+ */
+export function isNumericType(type: string): boolean {
+	return NUMERIC_TYPE.test(type);
+}
+
+/**
+ * Check whether a spec type holds text that can be searched
+ */
+function isTextType(type: string): boolean {
+	return ["String", "Symbol", "string", "Bytes", "bytes"].includes(type);
+}
+
+/**
+ * How an expression refers to a parameter
+ * Stellar event arguments are referenced by position, everything else by name
+ */
+export function paramRef(
+	param: MatchParam,
+	index: number,
+	kind: MatchKind,
+	networkType: NetworkPreset["type"],
+): string {
+	return networkType === "Stellar" && kind === "event" ? String(index) : param.name;
+}
+
+/**
+ * Operators that make sense for a parameter type
+ */
+export function operatorsForType(type: string): ConditionOperator[] {
+	if (isNumericType(type)) {
+		return ["gt", "gte", "lt", "lte", "between", "eq", "ne", "in", "not_in"];
+	}
+	if (type === "bool") {
+		return ["eq", "ne"];
+	}
+	if (isTextType(type)) {
+		return ["eq", "ne", "contains", "in", "not_in"];
+	}
+	return ["eq", "ne", "in", "not_in"];
+}
+
+/**
+ * Validate a value typed for a parameter, returning an error message if it is invalid
+ */
+export function validateConditionValue(value: string, param: MatchParam): string | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		return "A value is required";
+	}
+	if (isNumericType(param.type)) {
+		const unsigned = /^u/.test(param.type);
+		return (unsigned ? /^\d+$/ : /^-?\d+$/).test(trimmed)
+			? undefined
+			: `${param.type} expects ${unsigned ? "a non-negative" : "an"} integer`;
+	}
+	if (param.type === "bool") {
+		return trimmed === "true" || trimmed === "false" ? undefined : "Enter true or false";
+	}
+	if (param.type === "address") {
+		return /^0x[0-9a-fA-F]{40}$/.test(trimmed) ? undefined : "Enter a 0x-prefixed EVM address";
+	}
+	if (param.type === "Address") {
+		return /^[GCM][A-Z2-7]{55,}$/.test(trimmed) ? undefined : "Enter a G... or C... address";
+	}
+	return undefined;
+}
+
+/**
+ * Format a value as an expression literal for the parameter's type
+ */
+export function formatLiteral(value: string, param: MatchParam): string {
+	const trimmed = value.trim();
+	if (isNumericType(param.type) || param.type === "bool") {
+		return trimmed;
+	}
+	// EVM addresses are compared as hex, case-insensitively
+	if (param.type === "address") {
+		return trimmed.toLowerCase();
+	}
+	return `'${trimmed.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Build the expression for a single condition
+ */
+export function buildConditionExpression(condition: ExpressionCondition): string {
+	const { ref, param, operator, values } = condition;
+	const literals = values.map((value) => formatLiteral(value, param));
+
+	switch (operator) {
+		case "between":
+			return `(${ref} >= ${literals[0]} AND ${ref} <= ${literals[1]})`;
+		case "in":
+			return literals.length === 1
+				? `${ref} == ${literals[0]}`
+				: `(${literals.map((literal) => `${ref} == ${literal}`).join(" OR ")})`;
+		case "not_in":
+			return literals.length === 1
+				? `${ref} != ${literals[0]}`
+				: `(${literals.map((literal) => `${ref} != ${literal}`).join(" AND ")})`;
+		case "contains":
+			return `${ref} contains ${literals[0]}`;
+		default:
+			return `${ref} ${COMPARISON_SYMBOLS[operator]} ${literals[0]}`;
+	}
+}
+
+/**
+ * Join conditions into a single OZ Monitor expression
+ */
+export function buildExpression(
+	conditions: ExpressionCondition[],
+	joiner: ExpressionJoiner = "AND",
+): string {
+	return conditions.map(buildConditionExpression).join(` ${joiner} `);
+}
+
+/**
+ * Describe a condition in words, for summaries and previews
+ */
+export function describeCondition(condition: ExpressionCondition): string {
+	const name = condition.param.name || `arg ${condition.ref}`;
+	const { label } = OPERATORS[condition.operator];
+	const values =
+		condition.operator === "between" ? condition.values.join(" and ") : condition.values.join(", ");
+	return `${name} ${label} ${values}`;
+}
+
+/**
+ * Split a comma- or whitespace-separated list of values
+ */
+export function parseValueList(input: string): string[] {
+	return input
+		.split(/[\s,]+/)
+		.map((value) => value.trim())
+		.filter(Boolean);
+}
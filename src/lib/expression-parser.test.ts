@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import type { MatchParam } from "../types/index.js";
+import { type LintContext, lintExpression, parseExpression } from "./expression-parser.js";
+
+const TRANSFER: MatchParam[] = [
+	{ name: "from", type: "Address" },
+	{ name: "to", type: "Address" },
+	{ name: "amount", type: "i128" },
+];
+const STELLAR_FUNCTION: LintContext = {
+	kind: "function",
+	networkType: "Stellar",
+	params: TRANSFER,
+};
+const STELLAR_EVENT: LintContext = { kind: "event", networkType: "Stellar", params: TRANSFER };
+const ADDRESS = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+
+describe("parseExpression", () => {
+	test("parses a single comparison", () => {
+		const result = parseExpression("2 > 1000");
+		expect(result).toEqual({
+			success: true,
+			ast: {
+				type: "condition",
+				variable: { base: "2", path: [], position: 0 },
+				operator: ">",
+				value: { kind: "number", value: "1000" },
+			},
+		});
+	});
+
+	test("binds AND tighter than OR", () => {
+		const result = parseExpression("a == 1 OR b == 2 AND c == 3");
+		if (!result.success) throw new Error(result.error);
+		expect(result.ast).toMatchObject({
+			type: "logical",
+			operator: "OR",
+			left: { type: "condition" },
+			right: { type: "logical", operator: "AND" },
+		});
+	});
+
+	test("respects parentheses and symbolic joiners", () => {
+		const result = parseExpression("(a == 1 || b == 2) && c == 3");
+		if (!result.success) throw new Error(result.error);
+		expect(result.ast).toMatchObject({
+			operator: "AND",
+			left: { type: "logical", operator: "OR" },
+		});
+	});
+
+	test("reads nested paths and every literal kind", () => {
+		expect(parseExpression("0.from[1] == 'G\\'A'")).toMatchObject({
+			success: true,
+			ast: {
+				variable: { base: "0", path: ["from", "1"] },
+				value: { kind: "string", value: "G'A" },
+			},
+		});
+		expect(parseExpression("flag != TRUE")).toMatchObject({
+			ast: { value: { kind: "bool", value: "true" } },
+		});
+		expect(parseExpression("hash == 0xAb")).toMatchObject({
+			ast: { value: { kind: "hex", value: "0xAb" } },
+		});
+		expect(parseExpression("x >= -1.5")).toMatchObject({
+			ast: { operator: ">=", value: { kind: "number", value: "-1.5" } },
+		});
+		expect(parseExpression("name contains 'abc'")).toMatchObject({
+			ast: { operator: "contains" },
+		});
+	});
+
+	test("reports syntax errors with their position", () => {
+		expect(parseExpression("")).toEqual({ success: false, error: "Expression is empty" });
+		expect(parseExpression("amount > ")).toEqual({
+			success: false,
+			error: "Expected a value, found end of expression (at position 10)",
+		});
+		expect(parseExpression("amount = 5")).toMatchObject({
+			success: false,
+			error: expect.stringContaining("Expected a comparison operator"),
+		});
+		expect(parseExpression("(amount > 5")).toMatchObject({
+			success: false,
+			error: expect.stringContaining('Expected ")"'),
+		});
+		expect(parseExpression("amount > 5 5")).toMatchObject({
+			success: false,
+			error: expect.stringContaining("expected AND, OR or the end"),
+		});
+	});
+
+	test("asks for quotes around text values", () => {
+		expect(parseExpression("to == alice")).toMatchObject({
+			success: false,
+			error: expect.stringContaining("Text values must be quoted, e.g. 'alice'"),
+		});
+	});
+
+	test("rejects unterminated strings", () => {
+		expect(parseExpression("to == 'abc")).toMatchObject({
+			success: false,
+			error: expect.stringContaining("Unterminated string"),
+		});
+	});
+});
+
+describe("lintExpression", () => {
+	test("accepts a well-typed expression", () => {
+		expect(lintExpression(`amount > 1000 AND to == '${ADDRESS}'`, STELLAR_FUNCTION)).toEqual({
+			errors: [],
+			warnings: [],
+		});
+	});
+
+	test("reports syntax errors as errors", () => {
+		expect(lintExpression("amount >", STELLAR_FUNCTION).errors).toHaveLength(1);
+	});
+
+	test("checks parameter names and indexes", () => {
+		expect(lintExpression("value > 1", STELLAR_FUNCTION).errors).toEqual([
+			'Unknown parameter "value" (expected one of: from, to, amount)',
+		]);
+		expect(lintExpression("3 > 1", STELLAR_FUNCTION).errors).toEqual([
+			"Argument 3 doesn't exist, the signature has 3 parameter(s)",
+		]);
+	});
+
+	test("requires positions for Stellar event arguments", () => {
+		expect(lintExpression("amount > 1", STELLAR_EVENT).errors).toEqual([
+			'Stellar event arguments are referenced by position, use 2 instead of "amount"',
+		]);
+		expect(lintExpression("2 > 1", STELLAR_EVENT).errors).toEqual([]);
+	});
+
+	test("checks comparisons against the parameter type", () => {
+		expect(lintExpression("amount > 'big'", STELLAR_FUNCTION).errors).toEqual([
+			'"amount" (i128) can only be compared with a number',
+		]);
+		expect(lintExpression("amount > 1.5", STELLAR_FUNCTION).errors).toEqual([
+			'"amount" (i128) is an integer, use base units instead of 1.5',
+		]);
+		expect(lintExpression("to > 5", STELLAR_FUNCTION).errors).toEqual([
+			`"to" (Address) isn't a number and can't be compared with >`,
+		]);
+		expect(lintExpression("to == 'alice'", STELLAR_FUNCTION).warnings).toEqual([
+			"'alice' doesn't look like a Stellar address",
+		]);
+	});
+
+	test("warns about negative bounds on unsigned types", () => {
+		const context: LintContext = {
+			kind: "function",
+			networkType: "EVM",
+			params: [{ name: "value", type: "uint256" }],
+		};
+		expect(lintExpression("value > -1", context).warnings).toHaveLength(1);
+	});
+
+	test("only checks syntax without a signature", () => {
+		expect(lintExpression("anything == 'x'", { kind: "transaction", networkType: "EVM" })).toEqual({
+			errors: [],
+			warnings: [],
+		});
+		expect(
+			lintExpression("anything ==", { kind: "transaction", networkType: "EVM" }).errors,
+		).toHaveLength(1);
+	});
+});
@@ -0,0 +1,388 @@
+import type { MatchParam, NetworkPreset } from "../types/index.js";
+import { isNumericType } from "./expression-builder.js";
+import type { MatchKind } from "./match-conditions.js";
+
+/**
+ * Comparison operators in the OZ Monitor expression grammar
+ */
+export type ComparisonOperator =
+	| "=="
+	| "!="
+	| ">"
+	| ">="
+	| "<"
+	| "<="
+	| "contains"
+	| "starts_with"
+	| "ends_with";
+
+/**
+ * A literal on the right-hand side of a comparison
+ */
+export interface LiteralValue {
+	kind: "number" | "string" | "bool" | "hex";
+	value: string;
+}
+
+/**
+ * A variable reference such as "amount", "2" or "0.from", with its position in the input
+ */
+export interface VariableRef {
+	base: string;
+	path: string[];
+	position: number;
+}
+
+/**
+ * A single comparison, e.g. 2 > 1000
+ */
+export interface ConditionNode {
+	type: "condition";
+	variable: VariableRef;
+	operator: ComparisonOperator;
+	value: LiteralValue;
+}
+
+/**
+ * Two sub-expressions joined with AND or OR
+ */
+export interface LogicalNode {
+	type: "logical";
+	operator: "AND" | "OR";
+	left: ExpressionNode;
+	right: ExpressionNode;
+}
+
+export type ExpressionNode = ConditionNode | LogicalNode;
+
+/**
+ * Result of parsing an expression
+ */
+export type ParseExpressionResult =
+	| { success: true; ast: ExpressionNode }
+	| { success: false; error: string };
+
+/**
+ * What an expression is checked against
+ */
+export interface LintContext {
+	kind: MatchKind | "transaction";
+	networkType: NetworkPreset["type"];
+	// Parameters of the matched signature; omitted for transactions or unknown signatures
+	params?: MatchParam[];
+}
+
+/**
+ * Problems found in an expression; errors make it unusable, warnings are advisory
+ */
+export interface LintResult {
+	errors: string[];
+	warnings: string[];
+}
+
+const SYMBOL_OPERATORS: ComparisonOperator[] = [">=", "<=", "==", "!=", ">", "<"];
+const WORD_OPERATORS: ComparisonOperator[] = ["contains", "starts_with", "ends_with"];
+const ORDERING_OPERATORS: ComparisonOperator[] = [">", ">=", "<", "<="];
+
+/**
+ * Syntax error raised while parsing, carrying the offset it occurred at
+ */
+class ExpressionSyntaxError extends Error {
+	constructor(
+		message: string,
+		readonly position: number,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Parse an OZ Monitor filter expression into a syntax tree
+ */
+export function parseExpression(input: string): ParseExpressionResult {
+	let pos = 0;
+
+	const skipWhitespace = () => {
+		while (pos < input.length && /\s/.test(input.charAt(pos))) pos++;
+	};
+
+	const fail = (message: string): never => {
+		throw new ExpressionSyntaxError(message, pos);
+	};
+
+	// Match a keyword or symbol; words must not run into an identifier
+	const accept = (tokens: string[]): string | null => {
+		skipWhitespace();
+		for (const token of tokens) {
+			const candidate = input.slice(pos, pos + token.length);
+			if (candidate.toUpperCase() !== token.toUpperCase()) continue;
+			if (/\w$/.test(token) && /\w/.test(input.charAt(pos + token.length))) continue;
+			pos += token.length;
+			return token;
+		}
+		return null;
+	};
+
+	const describeNext = () => {
+		skipWhitespace();
+		return pos >= input.length ? "end of expression" : `"${input.slice(pos, pos + 12)}"`;
+	};
+
+	const parseVariable = (): VariableRef => {
+		skipWhitespace();
+		const position = pos;
+		const segment = () => {
+			const match = input.slice(pos).match(/^(?:[A-Za-z_]\w*|\d+)/);
+			if (!match) fail(`Expected a parameter name or index, found ${describeNext()}`);
+			pos += match?.[0].length ?? 0;
+			return match?.[0] ?? "";
+		};
+
+		const base = segment();
+		const path: string[] = [];
+		while (input.charAt(pos) === "." || input.charAt(pos) === "[") {
+			if (input.charAt(pos) === ".") {
+				pos++;
+				path.push(segment());
+			} else {
+				const match = input.slice(pos).match(/^\[(\d+)\]/);
+				if (!match?.[1]) fail(`Expected an index like [0], found ${describeNext()}`);
+				pos += match?.[0].length ?? 0;
+				path.push(match?.[1] ?? "");
+			}
+		}
+		return { base, path, position };
+	};
+
+	const parseOperator = (): ComparisonOperator => {
+		const operator = accept(SYMBOL_OPERATORS) ?? accept(WORD_OPERATORS);
+		if (!operator) {
+			return fail(
+				`Expected a comparison operator (==, !=, >, >=, <, <=, contains), found ${describeNext()}`,
+			);
+		}
+		return operator.toLowerCase() as ComparisonOperator;
+	};
+
+	const parseString = (quote: string): LiteralValue => {
+		pos++;
+		let value = "";
+		while (pos < input.length && input.charAt(pos) !== quote) {
+			if (input.charAt(pos) === "\\") pos++;
+			value += input.charAt(pos);
+			pos++;
+		}
+		if (pos >= input.length) fail("Unterminated string");
+		pos++;
+		return { kind: "string", value };
+	};
+
+	const parseLiteral = (): LiteralValue => {
+		skipWhitespace();
+		const char = input.charAt(pos);
+		if (char === "'" || char === '"') {
+			return parseString(char);
+		}
+
+		const rest = input.slice(pos);
+		const hex = rest.match(/^0x[0-9a-fA-F]*/);
+		if (hex) {
+			pos += hex[0].length;
+			return { kind: "hex", value: hex[0] };
+		}
+		const number = rest.match(/^-?\d+(?:\.\d+)?/);
+		if (number && !/^\w/.test(rest.slice(number[0].length))) {
+			pos += number[0].length;
+			return { kind: "number", value: number[0] };
+		}
+		const bool = accept(["true", "false"]);
+		if (bool) {
+			return { kind: "bool", value: bool.toLowerCase() };
+		}
+
+		const word = rest.match(/^\w+/);
+		return word
+			? fail(`Text values must be quoted, e.g. '${word[0]}'`)
+			: fail(`Expected a value, found ${describeNext()}`);
+	};
+
+	const parseCondition = (): ConditionNode => {
+		const variable = parseVariable();
+		const operator = parseOperator();
+		const value = parseLiteral();
+		return { type: "condition", variable, operator, value };
+	};
+
+	const parseTerm = (): ExpressionNode => {
+		if (accept(["("])) {
+			const inner = parseOr();
+			if (!accept([")"])) fail(`Expected ")", found ${describeNext()}`);
+			return inner;
+		}
+		return parseCondition();
+	};
+
+	const parseAnd = (): ExpressionNode => {
+		let left = parseTerm();
+		while (accept(["AND", "&&"])) {
+			left = { type: "logical", operator: "AND", left, right: parseTerm() };
+		}
+		return left;
+	};
+
+	const parseOr = (): ExpressionNode => {
+		let left = parseAnd();
+		while (accept(["OR", "||"])) {
+			left = { type: "logical", operator: "OR", left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	try {
+		if (!input.trim()) {
+			return { success: false, error: "Expression is empty" };
+		}
+		const ast = parseOr();
+		skipWhitespace();
+		if (pos < input.length) fail(`Unexpected ${describeNext()}, expected AND, OR or the end`);
+		return { success: true, ast };
+	} catch (error) {
+		if (error instanceof ExpressionSyntaxError) {
+			return { success: false, error: `${error.message} (at position ${error.position + 1})` };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Collect every comparison in a syntax tree, left to right
+ */
+function collectConditions(node: ExpressionNode): ConditionNode[] {
+	return node.type === "condition"
+		? [node]
+		: [...collectConditions(node.left), ...collectConditions(node.right)];
+}
+
+/**
+ * Find the parameter a variable refers to, by position or by name
+ */
+function resolveParam(
+	variable: VariableRef,
+	params: MatchParam[],
+	context: LintContext,
+	result: LintResult,
+): MatchParam | null {
+	if (/^\d+$/.test(variable.base)) {
+		const param = params[Number(variable.base)];
+		if (!param) {
+			result.errors.push(
+				`Argument ${variable.base} doesn't exist, the signature has ${params.length} parameter(s)`,
+			);
+		}
+		return param ?? null;
+	}
+
+	// Hand-typed signatures carry no names to check against
+	if (params.every((param) => !param.name)) {
+		result.warnings.push(`Can't check "${variable.base}", parameter names are unknown`);
+		return null;
+	}
+
+	const index = params.findIndex((param) => param.name === variable.base);
+	if (index === -1) {
+		const known = params.map((param) => param.name).filter(Boolean);
+		result.errors.push(
+			`Unknown parameter "${variable.base}" (expected one of: ${known.join(", ")})`,
+		);
+		return null;
+	}
+
+	if (context.networkType === "Stellar" && context.kind === "event") {
+		result.errors.push(
+			`Stellar event arguments are referenced by position, use ${index} instead of "${variable.base}"`,
+		);
+	}
+	return params[index] ?? null;
+}
+
+/**
+ * Check that a comparison makes sense for the parameter's type
+ */
+function checkComparison(condition: ConditionNode, param: MatchParam, result: LintResult): void {
+	const { operator, value } = condition;
+	const label = `"${param.name || condition.variable.base}" (${param.type})`;
+	const ordering = ORDERING_OPERATORS.includes(operator);
+	const textual = WORD_OPERATORS.includes(operator);
+
+	if (isNumericType(param.type)) {
+		if (textual) {
+			result.errors.push(`${label} is a number and can't be used with ${operator}`);
+		} else if (value.kind !== "number") {
+			result.errors.push(`${label} can only be compared with a number`);
+		} else if (value.value.includes(".")) {
+			result.errors.push(`${label} is an integer, use base units instead of ${value.value}`);
+		} else if (/^u/.test(param.type) && value.value.startsWith("-")) {
+			result.warnings.push(
+				`${label} is unsigned, comparing with ${value.value} is always one-sided`,
+			);
+		}
+		return;
+	}
+
+	if (ordering) {
+		result.errors.push(`${label} isn't a number and can't be compared with ${operator}`);
+		return;
+	}
+
+	if (param.type === "bool") {
+		if (value.kind !== "bool" || textual) {
+			result.errors.push(`${label} can only be compared with true or false using == or !=`);
+		}
+		return;
+	}
+
+	if (param.type === "Address") {
+		if (value.kind !== "string") {
+			result.errors.push(`${label} must be compared with a quoted address, e.g. 'G...'`);
+		} else if (!textual && !/^[GCM][A-Z2-7]{55,}$/.test(value.value)) {
+			result.warnings.push(`'${value.value}' doesn't look like a Stellar address`);
+		}
+		return;
+	}
+
+	if (param.type === "address") {
+		if (value.kind === "number" || value.kind === "bool") {
+			result.errors.push(`${label} must be compared with a 0x address`);
+		} else if (!textual && !/^0x[0-9a-fA-F]{40}$/.test(value.value)) {
+			result.warnings.push(`${value.value} doesn't look like a 20-byte EVM address`);
+		}
+	}
+}
+
+/**
+ * Parse an expression and check it against the matched signature's parameter types
+ */
+export function lintExpression(expression: string, context: LintContext): LintResult {
+	const result: LintResult = { errors: [], warnings: [] };
+
+	const parsed = parseExpression(expression);
+	if (!parsed.success) {
+		result.errors.push(parsed.error);
+		return result;
+	}
+
+	// Transaction fields and unknown signatures are only checked for syntax
+	if (context.kind === "transaction" || !context.params) {
+		return result;
+	}
+
+	for (const condition of collectConditions(parsed.ast)) {
+		const param = resolveParam(condition.variable, context.params, context, result);
+		// Nested fields of structs and maps aren't described by the signature
+		if (param && condition.variable.path.length === 0) {
+			checkComparison(condition, param, result);
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,366 @@
+import type {
+	ContractTarget,
+	MatchCondition,
+	MonitorType,
+	UserConfig,
+	WebhookOptions,
+} from "../types/index.js";
+import { isValidContractAddress } from "./contract-inspector.js";
+import { DEFAULT_CONDITIONS, lintConfigExpressions } from "./match-conditions.js";
+import { decodeMessageLine, lintMessage } from "./message-template.js";
+import { getNetwork, getNetworks } from "./network-registry.js";
+import { isSecretRef } from "./secret-store.js";
+import { isValidWebhookUrl, isWebhookMethod, parseHeaders, WEBHOOK_METHODS } from "./webhook.js";
+
+const NOTIFICATION_TYPES: UserConfig["notificationType"][] = [
+	"discord",
+	"telegram",
+	"slack",
+	"webhook",
+];
+const MONITOR_TYPES: MonitorType[] = ["events", "functions", "transactions"];
+
+/**
+ * Settings accepted in non-interactive mode, from CLI flags or BLIP0_* env vars
+ */
+export interface HeadlessInput {
+	network?: string;
+	contracts?: string[];
+	contractName?: string;
+	threshold?: string;
+	notification?: string;
+	webhookUrl?: string;
+	telegramToken?: string;
+	telegramChatId?: string;
+	webhookMethod?: string;
+	webhookHeaders?: string[];
+	webhookSecret?: string;
+	monitorType?: string;
+	signatures?: string[];
+	expression?: string;
+	messageTitle?: string;
+	messageBody?: string;
+}
+
+/**
+ * Result of building a config without prompts
+ */
+export type HeadlessConfigResult =
+	| { success: true; config: UserConfig }
+	| { success: false; errors: string[] };
+
+/**
+ * Environment variables read in non-interactive mode
+ */
+export const HEADLESS_ENV_VARS = {
+	network: "BLIP0_NETWORK",
+	contracts: "BLIP0_CONTRACT",
+	contractName: "BLIP0_CONTRACT_NAME",
+	threshold: "BLIP0_THRESHOLD",
+	notification: "BLIP0_NOTIFICATION_TYPE",
+	webhookUrl: "BLIP0_WEBHOOK_URL",
+	telegramToken: "BLIP0_TELEGRAM_TOKEN",
+	telegramChatId: "BLIP0_TELEGRAM_CHAT_ID",
+	webhookMethod: "BLIP0_WEBHOOK_METHOD",
+	webhookHeaders: "BLIP0_WEBHOOK_HEADERS",
+	webhookSecret: "BLIP0_WEBHOOK_SECRET",
+	monitorType: "BLIP0_MONITOR_TYPE",
+	signatures: "BLIP0_SIGNATURES",
+	expression: "BLIP0_EXPRESSION",
+	messageTitle: "BLIP0_MESSAGE_TITLE",
+	messageBody: "BLIP0_MESSAGE_BODY",
+} as const;
+
+/**
+ * Merge CLI flags with BLIP0_* env vars (flags take precedence)
+ */
+export function resolveHeadlessInput(
+	flags: HeadlessInput,
+	env: Record<string, string | undefined> = process.env,
+): HeadlessInput {
+	const fromEnv = (
+		key: Exclude<keyof typeof HEADLESS_ENV_VARS, "contracts" | "signatures" | "webhookHeaders">,
+	) => flags[key] || env[HEADLESS_ENV_VARS[key]] || undefined;
+
+	// Signatures and headers contain commas, so their env vars use ";" as a separator
+	const fromEnvList = (key: "contracts" | "signatures" | "webhookHeaders", separator = ";") =>
+		flags[key]?.length
+			? flags[key]
+			: env[HEADLESS_ENV_VARS[key]]
+					?.split(separator)
+					.map((item) => item.trim())
+					.filter(Boolean);
+
+	return {
+		network: fromEnv("network"),
+		contracts: fromEnvList("contracts", ","),
+		contractName: fromEnv("contractName"),
+		threshold: fromEnv("threshold"),
+		notification: fromEnv("notification"),
+		webhookUrl: fromEnv("webhookUrl"),
+		telegramToken: fromEnv("telegramToken"),
+		telegramChatId: fromEnv("telegramChatId"),
+		webhookMethod: fromEnv("webhookMethod"),
+		webhookHeaders: fromEnvList("webhookHeaders"),
+		webhookSecret: fromEnv("webhookSecret"),
+		monitorType: fromEnv("monitorType"),
+		signatures: fromEnvList("signatures"),
+		expression: fromEnv("expression"),
+		messageTitle: fromEnv("messageTitle"),
+		messageBody: fromEnv("messageBody"),
+	};
+}
+
+/**
+ * Build a complete user config without prompting, on top of an optional saved config
+ */
+export function buildHeadlessConfig(
+	input: HeadlessInput,
+	base?: UserConfig | null,
+): HeadlessConfigResult {
+	const notificationType = (input.notification ||
+		base?.notificationType) as UserConfig["notificationType"];
+	const monitorType = (input.monitorType || base?.monitorType || "events") as MonitorType;
+
+	const config: Partial<UserConfig> = {
+		...base,
+		network: input.network || base?.network,
+		contracts: input.contracts?.length ? parseContractTargets(input.contracts) : base?.contracts,
+		threshold: input.threshold || base?.threshold,
+		notificationType,
+		monitorType,
+	};
+
+	// Notification credentials only carry over when the channel is unchanged
+	const sameChannel = base?.notificationType === notificationType;
+	if (notificationType === "telegram") {
+		const saved = sameChannel && base ? parseTelegramCredentials(base.webhookUrl) : null;
+		const token = input.telegramToken || saved?.token;
+		const chatId = input.telegramChatId || saved?.chatId;
+		config.webhookUrl = token && chatId ? JSON.stringify({ token, chatId }) : undefined;
+	} else {
+		config.webhookUrl = input.webhookUrl || (sameChannel ? base?.webhookUrl : undefined);
+	}
+
+	// A single contract can be named with --contract-name
+	if (input.contractName && config.contracts?.length === 1 && config.contracts[0]) {
+		config.contracts = [{ ...config.contracts[0], name: input.contractName }];
+	}
+
+	const errors: string[] = [];
+
+	if (notificationType === "webhook") {
+		const saved = sameChannel ? base?.webhook : undefined;
+		let headers = saved?.headers;
+		if (input.webhookHeaders?.length) {
+			try {
+				headers = parseHeaders(input.webhookHeaders);
+			} catch (error) {
+				errors.push(error instanceof Error ? error.message : String(error));
+			}
+		}
+		config.webhook = {
+			method: (input.webhookMethod?.toUpperCase() ||
+				saved?.method ||
+				"POST") as WebhookOptions["method"],
+			headers,
+			secret: input.webhookSecret || saved?.secret,
+		};
+	} else {
+		config.webhook = undefined;
+	}
+
+	if (input.signatures?.length) {
+		const conditions: MatchCondition[] = input.signatures.map((signature) => ({ signature }));
+		config.selectedEvents = monitorType === "events" ? conditions : undefined;
+		config.selectedFunctions = monitorType === "functions" ? conditions : undefined;
+	}
+
+	// --expression replaces the filter of every matched signature (or the transaction filter)
+	if (input.expression) {
+		const expression = input.expression;
+		const networkType = (config.network && getNetwork(config.network)?.type) || "Stellar";
+		if (monitorType === "transactions") {
+			config.selectedTransactions = { ...config.selectedTransactions, expression };
+		} else {
+			const kind = monitorType === "events" ? "event" : "function";
+			const key = monitorType === "events" ? "selectedEvents" : "selectedFunctions";
+			const conditions = config[key]?.length
+				? config[key]
+				: [DEFAULT_CONDITIONS[networkType][kind]];
+			config[key] = conditions.map((condition) => ({ ...condition, expression }));
+		}
+	}
+
+	// Message parts replace the saved ones individually; "\n" in the body is a line break
+	if (input.messageTitle || input.messageBody) {
+		config.message = {
+			...config.message,
+			...(input.messageTitle && { title: input.messageTitle }),
+			...(input.messageBody && { body: decodeMessageLine(input.messageBody) }),
+		};
+	}
+
+	errors.push(
+		...validateUserConfig(config, {
+			telegramToken: input.telegramToken,
+			telegramChatId: input.telegramChatId,
+		}),
+	);
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, config: config as UserConfig };
+}
+
+/**
+ * Validate a user config, returning one message per problem
+ */
+export function validateUserConfig(
+	config: Partial<UserConfig>,
+	provided: { telegramToken?: string; telegramChatId?: string } = {},
+): string[] {
+	const errors: string[] = [];
+
+	const networkPreset = config.network ? getNetwork(config.network) : undefined;
+	if (!config.network) {
+		errors.push(`Network is required (--network or ${HEADLESS_ENV_VARS.network})`);
+	} else if (!networkPreset) {
+		errors.push(
+			`Unknown network "${config.network}" (expected one of: ${Object.keys(getNetworks()).join(", ")})`,
+		);
+	}
+
+	if (!config.contracts?.length) {
+		errors.push(`Contract address is required (--contract or ${HEADLESS_ENV_VARS.contracts})`);
+	}
+	for (const contract of config.contracts ?? []) {
+		if (networkPreset && !isValidContractAddress(contract.address, networkPreset.type)) {
+			errors.push(`"${contract.address}" is not a valid ${networkPreset.type} contract address`);
+		}
+	}
+	const addresses = (config.contracts ?? []).map((c) => c.address.toLowerCase());
+	if (new Set(addresses).size !== addresses.length) {
+		errors.push("The same contract address is listed more than once");
+	}
+
+	if (!config.threshold) {
+		errors.push(`Threshold is required (--threshold or ${HEADLESS_ENV_VARS.threshold})`);
+	} else if (!/^\d+$/.test(config.threshold) || BigInt(config.threshold) <= 0n) {
+		errors.push(`Threshold must be a positive integer, got "${config.threshold}"`);
+	}
+
+	if (config.monitorType && !MONITOR_TYPES.includes(config.monitorType)) {
+		errors.push(
+			`Unknown monitor type "${config.monitorType}" (expected one of: ${MONITOR_TYPES.join(", ")})`,
+		);
+	}
+
+	const signatures = [...(config.selectedEvents ?? []), ...(config.selectedFunctions ?? [])];
+	for (const { signature } of signatures) {
+		if (!/^\w+\(.*\)$/.test(signature)) {
+			errors.push(`Invalid signature "${signature}", e.g. transfer(Address,Address,i128)`);
+		}
+	}
+
+	errors.push(...lintConfigExpressions(config).errors);
+	if (config.message && config.network && config.contracts) {
+		errors.push(...lintMessage(config.message, config as UserConfig).errors);
+	}
+
+	switch (config.notificationType) {
+		case undefined:
+			errors.push(
+				`Notification type is required (--notification or ${HEADLESS_ENV_VARS.notification})`,
+			);
+			break;
+		case "discord":
+			if (!config.webhookUrl) {
+				errors.push(
+					`Discord webhook URL is required (--webhook-url or ${HEADLESS_ENV_VARS.webhookUrl})`,
+				);
+			} else if (
+				!isSecretRef(config.webhookUrl) &&
+				!config.webhookUrl.startsWith("https://discord.com/api/webhooks/")
+			) {
+				errors.push("Discord webhook URL must start with https://discord.com/api/webhooks/");
+			}
+			break;
+		case "slack":
+			if (!config.webhookUrl) {
+				errors.push(
+					`Slack webhook URL is required (--webhook-url or ${HEADLESS_ENV_VARS.webhookUrl})`,
+				);
+			} else if (
+				!isSecretRef(config.webhookUrl) &&
+				!config.webhookUrl.startsWith("https://hooks.slack.com/")
+			) {
+				errors.push("Slack webhook URL must start with https://hooks.slack.com/");
+			}
+			break;
+		case "telegram": {
+			const saved = config.webhookUrl ? parseTelegramCredentials(config.webhookUrl) : null;
+			if (!saved?.token && !provided.telegramToken) {
+				errors.push(
+					`Telegram bot token is required (--telegram-token or ${HEADLESS_ENV_VARS.telegramToken})`,
+				);
+			}
+			if (!saved?.chatId && !provided.telegramChatId) {
+				errors.push(
+					`Telegram chat ID is required (--telegram-chat-id or ${HEADLESS_ENV_VARS.telegramChatId})`,
+				);
+			}
+			break;
+		}
+		case "webhook":
+			if (!config.webhookUrl) {
+				errors.push(`Webhook URL is required (--webhook-url or ${HEADLESS_ENV_VARS.webhookUrl})`);
+			} else if (!isSecretRef(config.webhookUrl) && !isValidWebhookUrl(config.webhookUrl)) {
+				errors.push(`Webhook URL must be an http(s) URL, got "${config.webhookUrl}"`);
+			}
+			if (config.webhook && !isWebhookMethod(config.webhook.method)) {
+				errors.push(
+					`Unsupported webhook method "${config.webhook.method}" (expected one of: ${WEBHOOK_METHODS.join(", ")})`,
+				);
+			}
+			break;
+		default:
+			if (!NOTIFICATION_TYPES.includes(config.notificationType)) {
+				errors.push(
+					`Unknown notification type "${config.notificationType}" (expected one of: ${NOTIFICATION_TYPES.join(", ")})`,
+				);
+			}
+	}
+
+	return errors;
+}
+
+/**
+ * Parse contract flags: comma-separated "ADDRESS" or "ADDRESS:Display name" entries
+ */
+export function parseContractTargets(inputs: string[]): ContractTarget[] {
+	return inputs
+		.flatMap((input) => input.split(","))
+		.map((entry) => entry.trim())
+		.filter(Boolean)
+		.map((entry) => {
+			const separator = entry.indexOf(":");
+			if (separator === -1) {
+				return { address: entry };
+			}
+			const name = entry.slice(separator + 1).trim();
+			return { address: entry.slice(0, separator).trim(), name: name || undefined };
+		});
+}
+
+/**
+ * Parse the Telegram credentials stored as JSON in webhookUrl
+ */
+function parseTelegramCredentials(value: string): { token?: string; chatId?: string } | null {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
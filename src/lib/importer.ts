@@ -0,0 +1,322 @@
+import { basename } from "node:path";
+import type {
+	AlertMessage,
+	MatchCondition,
+	MonitorType,
+	TemplateVars,
+	UserConfig,
+	WebhookMethod,
+} from "../types/index.js";
+import { type ConfigFile, readConfigFiles } from "./config-validator.js";
+import { parseChannelText } from "./message-template.js";
+import { getNetwork, getRpcEndpoints } from "./network-registry.js";
+import { listSecretNames, secretEnvName, toSecretRef } from "./secret-store.js";
+import { buildMessageVars, buildMonitorConfig, renderMessage } from "./template-engine.js";
+
+type NotificationType = UserConfig["notificationType"];
+
+const NOTIFICATION_TYPES: NotificationType[] = ["discord", "slack", "telegram", "webhook"];
+const WEBHOOK_METHODS: WebhookMethod[] = ["POST", "PUT", "PATCH"];
+
+/**
+ * How a monitor of an imported config directory is brought into blip0
+ *
+ * Monitors that a profile can reproduce exactly become profiles; everything
+ * else is kept as a raw session that runs the original files untouched.
+ */
+export type ImportedMonitor =
+	| { kind: "profile"; file: string; name: string; config: UserConfig }
+	| {
+			kind: "raw";
+			file: string;
+			name: string;
+			reason: string;
+			files: ConfigFile[];
+			// Env vars of the files that carry secrets from blip0's store
+			secretEnv: Record<string, string>;
+	  };
+
+type MappingResult = { success: true; config: UserConfig } | { success: false; error: string };
+
+/**
+ * Read the value of an OZ Monitor secret: plain text, a reference to a stored secret
+ * when the env var is one blip0 sets (as in exported bundles), or an env var set right now
+ */
+function readSecretValue(value: unknown, field: string, stored: Map<string, string>): string {
+	const secret = value as { type?: string; value?: string } | undefined;
+	if (secret?.type === "plain" && secret.value) {
+		return secret.value;
+	}
+	const storedName = secret?.type === "environment" ? stored.get(secret.value ?? "") : undefined;
+	if (storedName) {
+		return toSecretRef(storedName);
+	}
+	if (secret?.type === "environment" && secret.value) {
+		const resolved = process.env[secret.value];
+		if (!resolved) {
+			throw new Error(`${field} is read from ${secret.value}, which isn't set`);
+		}
+		return resolved;
+	}
+	throw new Error(`${field} uses a "${secret?.type ?? "missing"}" secret`);
+}
+
+/**
+ * Notification settings of a trigger, in UserConfig form
+ */
+function mapTrigger(
+	trigger: Record<string, unknown>,
+	stored: Map<string, string>,
+): Pick<UserConfig, "notificationType" | "webhookUrl" | "webhook" | "message"> {
+	const type = trigger.trigger_type as NotificationType;
+	if (!NOTIFICATION_TYPES.includes(type)) {
+		throw new Error(`${trigger.trigger_type} triggers aren't supported by profiles`);
+	}
+
+	const config = (trigger.config ?? {}) as Record<string, unknown>;
+	const raw = (config.message ?? {}) as Partial<AlertMessage>;
+	const message = {
+		title: parseChannelText(raw.title ?? "", type),
+		body: parseChannelText(raw.body ?? "", type),
+	};
+
+	switch (type) {
+		case "discord":
+			return {
+				notificationType: type,
+				webhookUrl: readSecretValue(config.discord_url, "discord_url", stored),
+				message,
+			};
+		case "slack":
+			return {
+				notificationType: type,
+				webhookUrl: readSecretValue(config.slack_url, "slack_url", stored),
+				message,
+			};
+		case "telegram":
+			return {
+				notificationType: type,
+				webhookUrl: JSON.stringify({
+					token: readSecretValue(config.token, "token", stored),
+					chatId: String(config.chat_id ?? ""),
+				}),
+				message,
+			};
+		case "webhook": {
+			const method = ((config.method as string | undefined) ?? "POST").toUpperCase();
+			if (!WEBHOOK_METHODS.includes(method as WebhookMethod)) {
+				throw new Error(`webhook method ${method} isn't supported by profiles`);
+			}
+			const headers = config.headers as Record<string, string> | undefined;
+			return {
+				notificationType: type,
+				webhookUrl: readSecretValue(config.url, "url", stored),
+				webhook: {
+					method: method as WebhookMethod,
+					...(headers && Object.keys(headers).length > 0 ? { headers } : {}),
+					...(config.secret ? { secret: readSecretValue(config.secret, "secret", stored) } : {}),
+				},
+				message,
+			};
+		}
+	}
+}
+
+/**
+ * The amount compared in a condition's expression, used as the profile's threshold
+ */
+function extractThreshold(expressions: Array<string | undefined>): string {
+	for (const expression of expressions) {
+		const match = expression?.match(/>=?\s*(\d+)\b/);
+		if (match?.[1]) return match[1];
+	}
+	return "0";
+}
+
+/**
+ * The parts of a monitor that decide what it matches, with empty entries dropped
+ */
+function matchingShape(monitor: Record<string, unknown>): string {
+	const conditions = (monitor.match_conditions ?? {}) as Record<
+		string,
+		Array<Record<string, unknown>>
+	>;
+	const normalized: Record<string, unknown> = {};
+	for (const key of ["functions", "events", "transactions"]) {
+		const entries = (conditions[key] ?? []).map((entry) =>
+			Object.fromEntries(
+				Object.entries(entry).filter(([, value]) => value !== "" && value != null),
+			),
+		);
+		if (entries.length > 0) normalized[key] = entries;
+	}
+	const triggerConditions = monitor.trigger_conditions as unknown[] | undefined;
+
+	return JSON.stringify({
+		networks: monitor.networks,
+		paused: monitor.paused ?? false,
+		addresses: monitor.addresses ?? [],
+		match_conditions: normalized,
+		trigger_conditions: triggerConditions?.length ? triggerConditions : undefined,
+	});
+}
+
+/**
+ * Map a monitor onto a profile, or explain why it can't be
+ */
+function mapMonitor(
+	tool: string,
+	monitor: Record<string, unknown>,
+	networks: Map<string, Record<string, unknown>>,
+	triggers: Map<string, Record<string, unknown>>,
+	stored: Map<string, string>,
+): MappingResult {
+	if (monitor.paused) {
+		return { success: false, error: "it is paused" };
+	}
+	const slugs = (monitor.networks ?? []) as string[];
+	const triggerIds = (monitor.triggers ?? []) as string[];
+	if (slugs.length !== 1 || !slugs[0]) {
+		return { success: false, error: "profiles watch exactly one network" };
+	}
+	if (triggerIds.length !== 1 || !triggerIds[0]) {
+		return { success: false, error: "profiles have exactly one trigger" };
+	}
+
+	const slug = slugs[0];
+	const preset = getNetwork(slug);
+	const network = networks.get(slug);
+	if (!preset || !network || network.network_type !== preset.type) {
+		return { success: false, error: `"${slug}" isn't a known network (see \`blip0 network add\`)` };
+	}
+	const rpcUrls = (
+		(network.rpc_urls ?? []) as Array<{ url?: { type?: string; value?: string } }>
+	).map((rpc) => rpc.url?.value);
+	const knownUrls = new Set(getRpcEndpoints(preset).map((endpoint) => endpoint.url));
+	if (rpcUrls.some((url) => !url || !knownUrls.has(url))) {
+		return { success: false, error: `"${slug}" uses other RPC endpoints than blip0's network` };
+	}
+
+	const trigger = triggers.get(triggerIds[0]);
+	if (!trigger) {
+		return { success: false, error: `trigger "${triggerIds[0]}" isn't defined` };
+	}
+	let notification: ReturnType<typeof mapTrigger>;
+	try {
+		notification = mapTrigger(trigger, stored);
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) };
+	}
+
+	const conditions = (monitor.match_conditions ?? {}) as Record<string, MatchCondition[]>;
+	const kinds = (["events", "functions", "transactions"] as MonitorType[]).filter(
+		(kind) => (conditions[kind]?.length ?? 0) > 0,
+	);
+	if (kinds.length !== 1) {
+		return {
+			success: false,
+			error: "profiles match exactly one of events, functions or transactions",
+		};
+	}
+	const [monitorType] = kinds as [MonitorType];
+
+	const addresses = (monitor.addresses ?? []) as Array<{ address: string }>;
+	const config: UserConfig = {
+		network: slug,
+		contracts: addresses.map(({ address }) => ({ address })),
+		threshold: "0",
+		...notification,
+		monitorType,
+	};
+
+	if (monitorType === "transactions") {
+		const [transaction] = (
+			monitor.match_conditions as { transactions: Array<Record<string, string>> }
+		).transactions;
+		config.selectedTransactions = {
+			status: transaction?.status as "Success" | "Any",
+			expression: transaction?.expression,
+		};
+		config.threshold = extractThreshold([transaction?.expression]);
+	} else {
+		const selected = (conditions[monitorType] ?? []).map(({ signature, expression }) => ({
+			signature,
+			...(expression ? { expression } : {}),
+		}));
+		if (monitorType === "events") config.selectedEvents = selected;
+		else config.selectedFunctions = selected;
+		config.threshold = extractThreshold(selected.map((condition) => condition.expression));
+	}
+
+	// The profile must generate a monitor that matches exactly what the original does
+	try {
+		const vars = buildMessageVars(tool, config, preset);
+		const generated = buildMonitorConfig(config, {
+			...vars,
+			TRIGGER_ID: triggerIds[0],
+		} as TemplateVars);
+		if (matchingShape(generated as unknown as Record<string, unknown>) !== matchingShape(monitor)) {
+			return { success: false, error: "its conditions can't be expressed as a profile" };
+		}
+		const original = ((trigger.config ?? {}) as { message?: AlertMessage }).message;
+		const message = renderMessage(config, vars);
+		if (message.title !== original?.title || message.body !== original?.body) {
+			return { success: false, error: "its alert message can't be reproduced by a profile" };
+		}
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) };
+	}
+
+	return { success: true, config };
+}
+
+/**
+ * Work out how each monitor of a validated config directory is imported as profiles of a tool
+ */
+export async function planImport(configDir: string, tool: string): Promise<ImportedMonitor[]> {
+	const networkFiles = await readConfigFiles(configDir, "networks");
+	const monitorFiles = await readConfigFiles(configDir, "monitors");
+	const triggerFiles = await readConfigFiles(configDir, "triggers");
+
+	const networks = new Map(networkFiles.map((file) => [file.content.slug as string, file.content]));
+	const stored = new Map(
+		(await listSecretNames()).map((secretName) => [secretEnvName(secretName), secretName]),
+	);
+	const triggers = new Map<string, Record<string, unknown>>();
+	for (const { content } of triggerFiles) {
+		for (const [id, trigger] of Object.entries(content)) {
+			triggers.set(id, trigger as Record<string, unknown>);
+		}
+	}
+
+	return monitorFiles.map((monitorFile) => {
+		const monitor = monitorFile.content;
+		const name = (monitor.name as string) || basename(monitorFile.file, ".json");
+		const mapped = mapMonitor(tool, monitor, networks, triggers, stored);
+		if (mapped.success) {
+			return { kind: "profile", file: monitorFile.file, name, config: mapped.config };
+		}
+
+		// A raw session carries the monitor with just the networks and triggers it uses
+		const slugs = new Set((monitor.networks ?? []) as string[]);
+		const ids = (monitor.triggers ?? []) as string[];
+		const files = [
+			monitorFile,
+			...networkFiles.filter((file) => slugs.has(file.content.slug as string)),
+			...triggerFiles.filter((file) => ids.some((id) => id in file.content)),
+		];
+		const secretEnv: Record<string, string> = {};
+		for (const id of ids) {
+			const config = (triggers.get(id)?.config ?? {}) as Record<
+				string,
+				{ type?: string; value?: string }
+			>;
+			for (const value of Object.values(config)) {
+				const storedName =
+					value?.type === "environment" ? stored.get(value.value ?? "") : undefined;
+				if (storedName && value.value) secretEnv[value.value] = storedName;
+			}
+		}
+		return { kind: "raw", file: monitorFile.file, name, reason: mapped.error, files, secretEnv };
+	});
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { getLogPath, readSessionLogs, rotateLogs, rotateLogsWhileRunning } from "./log-manager.js";
+
+let sessionDir: string;
+let logPath: string;
+
+beforeEach(async () => {
+	sessionDir = await mkdtemp(join(tmpdir(), "blip0-logs-"));
+	logPath = getLogPath(sessionDir);
+	await mkdir(dirname(logPath), { recursive: true });
+});
+
+afterEach(async () => {
+	await rm(sessionDir, { recursive: true, force: true });
+});
+
+describe("rotateLogs", () => {
+	test("leaves a log under the size limit alone", async () => {
+		await writeFile(logPath, "short\n");
+		await rotateLogs(sessionDir, 100);
+		expect(await readFile(logPath, "utf8")).toBe("short\n");
+		expect(await Bun.file(`${logPath}.1`).exists()).toBe(false);
+	});
+
+	test("moves a full log aside and empties it in place", async () => {
+		await writeFile(logPath, "line 1\nline 2\n");
+		await rotateLogs(sessionDir, 10);
+		expect(await readFile(`${logPath}.1`, "utf8")).toBe("line 1\nline 2\n");
+		expect(await readFile(logPath, "utf8")).toBe("");
+	});
+
+	test("keeps the five newest rotated files", async () => {
+		for (let i = 1; i <= 7; i++) {
+			await writeFile(logPath, `rotation ${i}\n`);
+			await rotateLogs(sessionDir, 1);
+		}
+
+		const kept = [];
+		for (let i = 1; i <= 5; i++) {
+			kept.push(await readFile(`${logPath}.${i}`, "utf8"));
+		}
+		expect(kept).toEqual([7, 6, 5, 4, 3].map((n) => `rotation ${n}\n`));
+		expect(await Bun.file(`${logPath}.6`).exists()).toBe(false);
+	});
+});
+
+describe("rotateLogsWhileRunning", () => {
+	test("returns soon after the monitor exits", async () => {
+		const monitor = Bun.spawn(["sleep", "0.2"]);
+		const started = Date.now();
+		await rotateLogsWhileRunning(sessionDir, monitor.pid, async () => true, { exitCheckMs: 20 });
+		expect(Date.now() - started).toBeLessThan(2000);
+	});
+
+	test("stops without rotating once the pid isn't the monitor's", async () => {
+		await writeFile(logPath, "x".repeat(64));
+		// This test process is alive, but isn't the monitor
+		await rotateLogsWhileRunning(sessionDir, process.pid, async () => false, { exitCheckMs: 20 });
+		expect(await Bun.file(`${logPath}.1`).exists()).toBe(false);
+	});
+});
+
+describe("readSessionLogs", () => {
+	test("reads rotated files before the current one, up to the limit", async () => {
+		await writeFile(
+			`${logPath}.1`,
+			"2025-01-01T12:00:00Z  INFO first\n2025-01-01T12:00:01Z ERROR second\n  at trace\n",
+		);
+		await writeFile(logPath, "2025-01-01T12:00:02Z  WARN third\n");
+
+		const all = await readSessionLogs(sessionDir);
+		expect(all.map((entry) => entry.text)).toEqual([
+			"2025-01-01T12:00:00Z  INFO first",
+			"2025-01-01T12:00:01Z ERROR second",
+			"  at trace",
+			"2025-01-01T12:00:02Z  WARN third",
+		]);
+
+		const errors = await readSessionLogs(sessionDir, { level: "error" });
+		expect(errors.map((entry) => entry.text)).toEqual([
+			"2025-01-01T12:00:01Z ERROR second",
+			"  at trace",
+		]);
+
+		const last = await readSessionLogs(sessionDir, {}, 1);
+		expect(last.map((entry) => entry.text)).toEqual(["2025-01-01T12:00:02Z  WARN third"]);
+	});
+});
@@ -0,0 +1,351 @@
+import { closeSync, openSync } from "node:fs";
+import { appendFile, copyFile, rename, rm, stat, truncate } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+const LOGS_DIR = "logs";
+const LOG_FILE = "monitor.log";
+const MAX_LOG_BYTES = 10 * 1024 * 1024;
+const MAX_ROTATED_FILES = 5;
+const FOLLOW_INTERVAL_MS = 500;
+// How often a running monitor's log is checked against the size limit
+const ROTATE_INTERVAL_MS = 30_000;
+// How often the rotator checks whether the monitor has exited
+const EXIT_CHECK_INTERVAL_MS = 1000;
+// bin/blip0.js only imports this, so it's the entry whether run from source or installed
+const CLI_ENTRY = join(dirname(import.meta.dir), "index.ts");
+// Logs are read backwards in chunks this size when only the last lines are needed
+const READ_CHUNK_BYTES = 64 * 1024;
+const NEWLINE = 0x0a;
+
+/**
+ * OZ Monitor (tracing) log levels, from least to most severe
+ */
+export const LOG_LEVELS = ["trace", "debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * A single parsed log line
+ */
+export interface LogEntry {
+	timestamp?: Date;
+	level?: LogLevel;
+	text: string;
+}
+
+/**
+ * Filters applied when reading logs
+ */
+export interface LogFilter {
+	since?: Date;
+	level?: LogLevel;
+}
+
+// Tracing lines look like "2025-01-01T12:00:00.123456Z  INFO openzeppelin_monitor: ..."
+const LOG_LINE_PATTERN =
+	/^(\d{4}-\d{2}-\d{2}[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)\s+(TRACE|DEBUG|INFO|WARN|ERROR)\b/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching ANSI escape sequences
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Get the current log file path for a session directory
+ */
+export function getLogPath(sessionDir: string): string {
+	return join(sessionDir, LOGS_DIR, LOG_FILE);
+}
+
+/**
+ * Rotate the session log once it grows past the size limit
+ *
+ * The log is copied and truncated in place (rather than renamed) so a running
+ * monitor, which holds the file open in append mode, keeps writing to it. A line
+ * written between the last copy and the truncate is lost; lines written while the
+ * bulk of the file is copied are copied after it to keep that window short.
+ */
+export async function rotateLogs(sessionDir: string, maxBytes = MAX_LOG_BYTES): Promise<void> {
+	const logPath = getLogPath(sessionDir);
+	const size = await fileSize(logPath);
+	if (size < maxBytes) return;
+
+	await rm(`${logPath}.${MAX_ROTATED_FILES}`, { force: true });
+	for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+		if (await Bun.file(`${logPath}.${i}`).exists()) {
+			await rename(`${logPath}.${i}`, `${logPath}.${i + 1}`);
+		}
+	}
+
+	const rotated = `${logPath}.1`;
+	await copyFile(logPath, rotated);
+	const copied = await fileSize(rotated);
+	const written = await fileSize(logPath);
+	if (written > copied) {
+		await appendFile(rotated, await Bun.file(logPath).slice(copied, written).bytes());
+	}
+	await truncate(logPath, 0);
+}
+
+/**
+ * Start a detached process that keeps a running monitor's log rotated until it exits
+ *
+ * The monitor writes straight to the log file, so nothing else would bound it
+ * while no blip0 command runs. The process is this CLI's hidden rotate-logs command,
+ * started from the CLI entry itself so it works when the caller isn't the CLI.
+ */
+export function startLogRotation(sessionDir: string, pid: number, startedAt?: string): void {
+	const args = [sessionDir, String(pid), ...(startedAt ? [startedAt] : [])];
+	const proc = Bun.spawn([process.execPath, CLI_ENTRY, "rotate-logs", ...args], {
+		stdin: "ignore",
+		stdout: "ignore",
+		stderr: "ignore",
+		detached: true,
+	});
+	proc.unref();
+}
+
+/**
+ * Rotate the session log on an interval for as long as the monitor runs
+ *
+ * isMonitor confirms the pid still belongs to the monitor rather than a process that
+ * reused it, and is checked before every rotation. A bare pid check in between ends
+ * the loop soon after the monitor exits.
+ */
+export async function rotateLogsWhileRunning(
+	sessionDir: string,
+	pid: number,
+	isMonitor: () => Promise<boolean>,
+	options: { rotateMs?: number; exitCheckMs?: number } = {},
+): Promise<void> {
+	const { rotateMs = ROTATE_INTERVAL_MS, exitCheckMs = EXIT_CHECK_INTERVAL_MS } = options;
+	let nextRotation = 0;
+	while (isRunning(pid)) {
+		if (Date.now() >= nextRotation) {
+			if (!(await isMonitor())) return;
+			await rotateLogs(sessionDir);
+			nextRotation = Date.now() + rotateMs;
+		}
+		await Bun.sleep(exitCheckMs);
+	}
+}
+
+/**
+ * Open the session log for appending, returning a file descriptor for the monitor's output
+ */
+export async function openSessionLog(sessionDir: string): Promise<number> {
+	await Bun.$`mkdir -p ${join(sessionDir, LOGS_DIR)}`.quiet();
+	await rotateLogs(sessionDir);
+	return openSync(getLogPath(sessionDir), "a");
+}
+
+/**
+ * Close a log file descriptor handed to the monitor process
+ */
+export function closeSessionLog(fd: number): void {
+	closeSync(fd);
+}
+
+/**
+ * Parse a log line into timestamp, level and text
+ */
+export function parseLogLine(line: string): LogEntry {
+	const text = line.replace(ANSI_PATTERN, "");
+	const match = text.match(LOG_LINE_PATTERN);
+	if (!match?.[1] || !match[2]) {
+		return { text };
+	}
+
+	const timestamp = new Date(match[1]);
+	return {
+		timestamp: Number.isNaN(timestamp.getTime()) ? undefined : timestamp,
+		level: match[2].toLowerCase() as LogLevel,
+		text,
+	};
+}
+
+/**
+ * Check whether a string is a known log level
+ */
+export function isLogLevel(input: string): input is LogLevel {
+	return LOG_LEVELS.includes(input as LogLevel);
+}
+
+/**
+ * Parse a --since value: a duration such as "30s", "10m", "2h", "1d" or a date
+ */
+export function parseSince(input: string, now: Date = new Date()): Date {
+	const duration = input.trim().match(/^(\d+)\s*(s|m|h|d)$/i);
+	if (duration?.[1] && duration[2]) {
+		const units: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+		const ms = Number(duration[1]) * (units[duration[2].toLowerCase()] ?? 0);
+		return new Date(now.getTime() - ms);
+	}
+
+	const date = new Date(input);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid --since value "${input}", use a duration (10m, 2h) or a date`);
+	}
+	return date;
+}
+
+/**
+ * Create a stateful predicate that applies filters to entries in order
+ *
+ * Continuation lines (stack traces, multi-line messages) carry no timestamp or
+ * level of their own, so they inherit those of the line they belong to.
+ */
+export function createLogFilter(filter: LogFilter): (entry: LogEntry) => boolean {
+	const minLevel = filter.level ? LOG_LEVELS.indexOf(filter.level) : 0;
+	let current: Pick<LogEntry, "timestamp" | "level"> = {};
+
+	return (entry) => {
+		if (entry.level) {
+			current = { timestamp: entry.timestamp, level: entry.level };
+		}
+
+		if (filter.since && current.timestamp && current.timestamp < filter.since) return false;
+		if (filter.level && (!current.level || LOG_LEVELS.indexOf(current.level) < minLevel)) {
+			return false;
+		}
+		return true;
+	};
+}
+
+/**
+ * Read a session's log lines, oldest first, including rotated files
+ *
+ * With a limit, the files are read backwards from the newest and reading stops
+ * once that many matching lines are found, so only the tail is loaded.
+ */
+export async function readSessionLogs(
+	sessionDir: string,
+	filter: LogFilter = {},
+	limit = 0,
+): Promise<LogEntry[]> {
+	const logPath = getLogPath(sessionDir);
+	const paths = [
+		logPath,
+		...Array.from({ length: MAX_ROTATED_FILES }, (_, i) => `${logPath}.${i + 1}`),
+	];
+
+	// Newest first; a line and its continuation lines are filtered together,
+	// so a group is only complete once the line that starts it is read
+	const entries: LogEntry[] = [];
+	let group: LogEntry[] = [];
+	const flushGroup = () => {
+		const matching = group.reverse().filter(createLogFilter(filter));
+		entries.push(...matching.reverse());
+		group = [];
+	};
+
+	for (const path of paths) {
+		for await (const line of readLinesBackwards(path)) {
+			const entry = parseLogLine(line);
+			group.push(entry);
+			if (!entry.level) continue;
+
+			flushGroup();
+			if (limit > 0 && entries.length >= limit) {
+				return entries.reverse();
+			}
+		}
+	}
+	flushGroup();
+
+	return entries.reverse();
+}
+
+/**
+ * Follow the session log, calling onEntry for each new line until the signal aborts
+ */
+export async function followSessionLog(
+	sessionDir: string,
+	filter: LogFilter,
+	onEntry: (entry: LogEntry) => void,
+	signal: AbortSignal,
+): Promise<void> {
+	const logPath = getLogPath(sessionDir);
+	const matches = createLogFilter(filter);
+	let offset = await fileSize(logPath);
+	let partial = "";
+
+	while (!signal.aborted) {
+		await Bun.sleep(FOLLOW_INTERVAL_MS);
+
+		const size = await fileSize(logPath);
+		if (size < offset) {
+			// The log was rotated (truncated), start over from the beginning
+			offset = 0;
+			partial = "";
+		}
+		if (size === offset) continue;
+
+		const chunk = await Bun.file(logPath).slice(offset, size).text();
+		offset = size;
+
+		const lines = (partial + chunk).split("\n");
+		partial = lines.pop() ?? "";
+
+		for (const entry of lines.map(parseLogLine).filter(matches)) {
+			onEntry(entry);
+		}
+	}
+}
+
+/**
+ * Yield a file's lines from last to first, reading it from the end in chunks
+ *
+ * Lines are split on bytes rather than decoded text, so a multi-byte character
+ * split across two chunks is decoded whole.
+ */
+async function* readLinesBackwards(path: string): AsyncGenerator<string> {
+	const file = Bun.file(path);
+	let end = await fileSize(path);
+	if (end === 0) return;
+
+	const decoder = new TextDecoder();
+	// The newline ending the last line doesn't start another one
+	const [last] = new Uint8Array(await file.slice(end - 1, end).arrayBuffer());
+	if (last === NEWLINE) end--;
+	if (end === 0) return;
+
+	let carry = new Uint8Array(0);
+	while (end > 0) {
+		const start = Math.max(0, end - READ_CHUNK_BYTES);
+		const chunk = new Uint8Array(await file.slice(start, end).arrayBuffer());
+		end = start;
+
+		const bytes = new Uint8Array(chunk.length + carry.length);
+		bytes.set(chunk);
+		bytes.set(carry, chunk.length);
+
+		let lineEnd = bytes.length;
+		for (let i = bytes.length - 1; i >= 0; i--) {
+			if (bytes[i] !== NEWLINE) continue;
+			yield decoder.decode(bytes.subarray(i + 1, lineEnd));
+			lineEnd = i;
+		}
+		carry = bytes.slice(0, lineEnd);
+	}
+	yield decoder.decode(carry);
+}
+
+/**
+ * Check if a process is still alive
+ */
+function isRunning(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		return (error as NodeJS.ErrnoException).code !== "ESRCH";
+	}
+}
+
+/**
+ * Get a file's size, or 0 if it doesn't exist
+ */
+async function fileSize(path: string): Promise<number> {
+	try {
+		return (await stat(path)).size;
+	} catch {
+		return 0;
+	}
+}
@@ -0,0 +1,207 @@
+import type { MatchCondition, MatchParam, NetworkPreset, UserConfig } from "../types/index.js";
+import { isNumericType, paramRef } from "./expression-builder.js";
+import { type LintResult, lintExpression } from "./expression-parser.js";
+import { getNetwork } from "./network-registry.js";
+
+type NetworkType = NetworkPreset["type"];
+
+/**
+ * Whether a condition matches contract events or function calls
+ */
+export type MatchKind = "event" | "function";
+
+// 32-bit integers are usually ledgers, counters or flags rather than amounts
+const NARROW_TYPE = /^(?:[iu]32|u?int(?:8|16|32))$/;
+// Parameter names that usually carry a token amount
+const AMOUNT_NAME = /amount|value|qty|quantity|shares|assets/i;
+
+/**
+ * Default transfer conditions per network type, used when nothing is selected
+ */
+export const DEFAULT_CONDITIONS: Record<NetworkType, Record<MatchKind, MatchCondition>> = {
+	Stellar: {
+		event: {
+			signature: "transfer(Address,Address,i128)",
+			params: [
+				{ name: "from", type: "Address", location: "topic" },
+				{ name: "to", type: "Address", location: "topic" },
+				{ name: "amount", type: "i128", location: "data" },
+			],
+		},
+		function: {
+			signature: "transfer(Address,Address,i128)",
+			params: [
+				{ name: "from", type: "Address" },
+				{ name: "to", type: "Address" },
+				{ name: "amount", type: "i128" },
+			],
+		},
+	},
+	EVM: {
+		event: {
+			signature: "Transfer(address,address,uint256)",
+			params: [
+				{ name: "from", type: "address", location: "topic" },
+				{ name: "to", type: "address", location: "topic" },
+				{ name: "value", type: "uint256", location: "data" },
+			],
+		},
+		function: {
+			signature: "transfer(address,uint256)",
+			params: [
+				{ name: "to", type: "address" },
+				{ name: "value", type: "uint256" },
+			],
+		},
+	},
+};
+
+/**
+ * A numeric field compared against the threshold, and how expressions refer to it
+ */
+export interface AmountField {
+	param: MatchParam;
+	ref: string;
+}
+
+/**
+ * Split a signature such as transfer(Address,Address,i128) into its parameter types
+ */
+function signatureTypes(signature: string): string[] {
+	const inner = signature.slice(signature.indexOf("(") + 1, signature.lastIndexOf(")"));
+	const types: string[] = [];
+	let depth = 0;
+	let current = "";
+
+	// Commas inside generics and tuples, e.g. Map<Address,i128>, don't split parameters
+	for (const char of inner) {
+		if (char === "," && depth === 0) {
+			types.push(current.trim());
+			current = "";
+			continue;
+		}
+		if (char === "(" || char === "<") depth++;
+		if (char === ")" || char === ">") depth--;
+		current += char;
+	}
+	if (current.trim()) types.push(current.trim());
+
+	return types;
+}
+
+/**
+ * Parameters of a condition, from the contract spec or, failing that, its signature
+ */
+export function getConditionParams(
+	condition: MatchCondition,
+	kind: MatchKind,
+	networkType: NetworkType,
+): MatchParam[] {
+	if (condition.params?.length) {
+		return condition.params;
+	}
+
+	const defaults = DEFAULT_CONDITIONS[networkType][kind];
+	if (defaults.signature === condition.signature && defaults.params) {
+		return defaults.params;
+	}
+
+	// Hand-typed signatures only carry types, names are unknown
+	return signatureTypes(condition.signature).map((type) => ({ name: "", type }));
+}
+
+/**
+ * Find the numeric field holding the amount, preferring amount-like names
+ */
+export function findAmountField(
+	condition: MatchCondition,
+	kind: MatchKind,
+	networkType: NetworkType,
+): AmountField | null {
+	const numeric = getConditionParams(condition, kind, networkType)
+		.map((param, index) => ({ param, index }))
+		.filter(({ param }) => isNumericType(param.type));
+	const wide = numeric.filter(({ param }) => !NARROW_TYPE.test(param.type));
+
+	const candidate =
+		numeric.find(({ param }) => AMOUNT_NAME.test(param.name)) ??
+		(wide.length === 1 ? wide[0] : undefined) ??
+		(numeric.length === 1 ? numeric[0] : undefined);
+	if (!candidate) {
+		return null;
+	}
+
+	const ref = paramRef(candidate.param, candidate.index, kind, networkType);
+	return ref ? { param: candidate.param, ref } : null;
+}
+
+/**
+ * Build the threshold expression for a condition, or undefined if it has no amount field
+ */
+export function buildAmountExpression(
+	condition: MatchCondition,
+	kind: MatchKind,
+	networkType: NetworkType,
+	threshold: string,
+): string | undefined {
+	const field = findAmountField(condition, kind, networkType);
+	return field ? `${field.ref} > ${threshold}` : undefined;
+}
+
+/**
+ * Warnings for selected events or functions that can't be compared against the threshold
+ */
+export function getMatchWarnings(config: UserConfig): string[] {
+	const networkType = getNetwork(config.network)?.type ?? "Stellar";
+	const monitorType = config.monitorType || "events";
+	if (monitorType === "transactions") {
+		return [];
+	}
+
+	const kind: MatchKind = monitorType === "events" ? "event" : "function";
+	const conditions = (kind === "event" ? config.selectedEvents : config.selectedFunctions) ?? [];
+
+	return conditions
+		.filter((condition) => condition.expression === undefined)
+		.filter((condition) => !findAmountField(condition, kind, networkType))
+		.map(
+			(condition) =>
+				`${condition.signature} has no amount field to compare with the threshold, it will alert on every ${kind}`,
+		);
+}
+
+/**
+ * Lint every custom expression in a config against its signature's parameters
+ * Messages are prefixed with the signature they belong to
+ */
+export function lintConfigExpressions(config: Partial<UserConfig>): LintResult {
+	const networkType = (config.network && getNetwork(config.network)?.type) || "Stellar";
+	const result: LintResult = { errors: [], warnings: [] };
+
+	const add = (label: string, lint: LintResult) => {
+		result.errors.push(...lint.errors.map((error) => `${label}: ${error}`));
+		result.warnings.push(...lint.warnings.map((warning) => `${label}: ${warning}`));
+	};
+
+	const groups: [MatchKind, MatchCondition[] | undefined][] = [
+		["event", config.selectedEvents],
+		["function", config.selectedFunctions],
+	];
+	for (const [kind, conditions] of groups) {
+		for (const condition of conditions ?? []) {
+			if (!condition.expression) continue;
+			const params = getConditionParams(condition, kind, networkType);
+			add(condition.signature, lintExpression(condition.expression, { kind, networkType, params }));
+		}
+	}
+
+	const transactionExpression = config.selectedTransactions?.expression;
+	if (transactionExpression) {
+		add(
+			"transactions",
+			lintExpression(transactionExpression, { kind: "transaction", networkType }),
+		);
+	}
+
+	return result;
+}
@@ -0,0 +1,340 @@
+import type { AlertMessage, MatchCondition, MessageVars, UserConfig } from "../types/index.js";
+import { isNumericType, paramRef } from "./expression-builder.js";
+import type { LintResult } from "./expression-parser.js";
+import {
+	DEFAULT_CONDITIONS,
+	findAmountField,
+	getConditionParams,
+	type MatchKind,
+} from "./match-conditions.js";
+import { getNetwork } from "./network-registry.js";
+
+/**
+ * Channels a message can be formatted for
+ */
+export type MessageChannel = UserConfig["notificationType"];
+
+/**
+ * A variable that can be used in a message template
+ */
+export interface MessageVariable {
+	name: string;
+	description: string;
+}
+
+// blip0 placeholders, filled in when the config is generated
+const BLIP0_PLACEHOLDER = /\{\{(\w+)\}\}/g;
+// OZ Monitor variables, filled in by the monitor for each match
+const OZ_VARIABLE = /\$\{([\w.]+)\}/g;
+
+const PLACEHOLDER_DESCRIPTIONS: Record<keyof MessageVars, string> = {
+	NETWORK_SLUG: "Network slug, e.g. stellar_mainnet",
+	NETWORK_NAME: "Network name, e.g. Stellar Mainnet",
+	CONTRACT_ADDRESS: "Address of the first watched contract",
+	CONTRACT_NAME: "Names of the watched contracts",
+	THRESHOLD: "Threshold in base units",
+	THRESHOLD_DISPLAY: "Threshold in token units, e.g. 1,000 USDC",
+	MONITOR_NAME: "Monitor name",
+};
+
+// Sample values used for previews and test alerts
+const SAMPLE_STELLAR_ACCOUNT = "GDUKMGUGDZQK6YHYA5Z6AY2G4XDSZPSZ3SW5UN3ARVMO6QSRDWP5YLEX";
+const SAMPLE_EVM_ACCOUNT = "0x71c7656ec7ab88b098defb751b7401b5f6d8976f";
+const SAMPLE_TX_HASH = "3389e9f0f1a65f19736cacf544c2e825313e8447f569233bb8db39aa607c8889";
+
+/**
+ * Conditions a config matches, falling back to the default transfer
+ */
+function matchedConditions(config: UserConfig): { kind: MatchKind; conditions: MatchCondition[] } {
+	const networkType = getNetwork(config.network)?.type ?? "Stellar";
+	const kind: MatchKind = config.monitorType === "functions" ? "function" : "event";
+	const selected = kind === "event" ? config.selectedEvents : config.selectedFunctions;
+	return {
+		kind,
+		conditions: selected?.length ? selected : [DEFAULT_CONDITIONS[networkType][kind]],
+	};
+}
+
+/**
+ * Reference an OZ Monitor variable, e.g. ${transaction.hash}
+ */
+function ozVar(name: string): string {
+	return `\${${name}}`;
+}
+
+/**
+ * Capitalize a label such as "transfer" or "mint"
+ */
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Default title and body for a config, written in the neutral markup
+ * (**bold** and `code`) that formatForChannel converts per channel
+ */
+export function defaultMessage(config: UserConfig): AlertMessage {
+	const networkType = getNetwork(config.network)?.type ?? "Stellar";
+	const title = "Whale Alert - {{CONTRACT_NAME}}";
+	const lines: string[] = [];
+
+	if (config.monitorType === "transactions") {
+		lines.push("Transaction above {{THRESHOLD_DISPLAY}} detected on {{NETWORK_NAME}}", "");
+		if (networkType === "EVM") {
+			lines.push(
+				`**Value:** ${ozVar("transaction.value")}`,
+				`**From:** ${ozVar("transaction.from")}`,
+				`**To:** ${ozVar("transaction.to")}`,
+			);
+		}
+	} else {
+		const { kind, conditions } = matchedConditions(config);
+		const group = kind === "event" ? "events" : "functions";
+		const [condition] = conditions;
+
+		if (conditions.length === 1 && condition) {
+			const name = capitalize(condition.signature.slice(0, condition.signature.indexOf("(")));
+			const hasAmount = findAmountField(condition, kind, networkType) !== null;
+			lines.push(
+				hasAmount
+					? `${name} above {{THRESHOLD_DISPLAY}} detected on {{NETWORK_NAME}}`
+					: `${name} detected on {{NETWORK_NAME}}`,
+				"",
+			);
+			getConditionParams(condition, kind, networkType).forEach((param, index) => {
+				const ref = paramRef(param, index, kind, networkType) || String(index);
+				const label = capitalize(param.name || `Argument ${index}`);
+				lines.push(`**${label}:** ${ozVar(`${group}.0.args.${ref}`)}`);
+			});
+		} else {
+			// Conditions have different arguments, so only the matched signature is shown
+			lines.push(`\`${ozVar(`${group}.0.signature`)}\` detected on {{NETWORK_NAME}}`, "");
+		}
+	}
+
+	lines.push("", `**Transaction:** ${ozVar("transaction.hash")}`);
+	return { title, body: lines.join("\n").replace(/\n{3,}/g, "\n\n") };
+}
+
+/**
+ * The message a config sends: its custom template, or the default for its monitor type
+ */
+export function resolveMessage(config: UserConfig): AlertMessage {
+	const fallback = defaultMessage(config);
+	return {
+		title: config.message?.title || fallback.title,
+		body: config.message?.body || fallback.body,
+	};
+}
+
+/**
+ * OZ Monitor variables available for a config's monitor type
+ */
+export function getMessageVariables(config: UserConfig): MessageVariable[] {
+	const networkType = getNetwork(config.network)?.type ?? "Stellar";
+	const variables: MessageVariable[] = [
+		{ name: "monitor.name", description: "Monitor name" },
+		{ name: "transaction.hash", description: "Transaction hash" },
+	];
+
+	if (networkType === "EVM") {
+		variables.push(
+			{ name: "transaction.from", description: "Sender" },
+			{ name: "transaction.to", description: "Recipient" },
+			{ name: "transaction.value", description: "Native value sent" },
+		);
+	}
+	if (config.monitorType === "transactions") {
+		return variables;
+	}
+
+	const { kind, conditions } = matchedConditions(config);
+	const group = kind === "event" ? "events" : "functions";
+	variables.push({ name: `${group}.0.signature`, description: `Matched ${kind} signature` });
+
+	const seen = new Set<string>();
+	for (const condition of conditions) {
+		getConditionParams(condition, kind, networkType).forEach((param, index) => {
+			const ref = paramRef(param, index, kind, networkType) || String(index);
+			const name = `${group}.0.args.${ref}`;
+			if (seen.has(name)) return;
+			seen.add(name);
+			variables.push({
+				name,
+				description: `${param.name || `Argument ${index}`} (${param.type}) of ${condition.signature}`,
+			});
+		});
+	}
+
+	return variables;
+}
+
+/**
+ * Check a message template's blip0 placeholders and OZ Monitor variables
+ */
+export function lintMessage(message: Partial<AlertMessage>, config: UserConfig): LintResult {
+	const result: LintResult = { errors: [], warnings: [] };
+	const available = new Set(getMessageVariables(config).map((variable) => variable.name));
+	const monitorType = config.monitorType || "events";
+
+	for (const [part, text] of Object.entries(message)) {
+		if (text === undefined) continue;
+		if (!text.trim()) {
+			result.errors.push(`The message ${part} is empty`);
+			continue;
+		}
+
+		for (const [, name] of text.matchAll(BLIP0_PLACEHOLDER)) {
+			if (name && !(name in PLACEHOLDER_DESCRIPTIONS)) {
+				result.errors.push(`Unknown placeholder {{${name}}} in the message ${part}`);
+			}
+		}
+		for (const [, name] of text.matchAll(OZ_VARIABLE)) {
+			if (name && !available.has(name)) {
+				result.warnings.push(
+					`${ozVar(name)} in the message ${part} isn't available for ${monitorType} monitors`,
+				);
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * blip0 placeholders usable in message templates, with descriptions
+ */
+export function getMessagePlaceholders(): MessageVariable[] {
+	return Object.entries(PLACEHOLDER_DESCRIPTIONS).map(([name, description]) => ({
+		name,
+		description,
+	}));
+}
+
+/**
+ * Decode a single-line message template, where "\n" stands for a line break
+ */
+export function decodeMessageLine(input: string): string {
+	return input.replace(/\\n/g, "\n");
+}
+
+/**
+ * Encode a multi-line message template for single-line input
+ */
+export function encodeMessageLine(text: string): string {
+	return text.replace(/\n/g, "\\n");
+}
+
+/**
+ * Escape text for Telegram's HTML parse mode
+ */
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert the neutral markup (**bold**, `code`) to a channel's own formatting
+ */
+export function formatForChannel(text: string, channel: MessageChannel): string {
+	switch (channel) {
+		case "discord":
+			return text;
+		case "slack":
+			return text.replace(/\*\*(.+?)\*\*/g, "*$1*");
+		case "telegram":
+			return escapeHtml(text)
+				.replace(/\*\*(.+?)\*\*/g, "<b>$1</b>")
+				.replace(/`(.+?)`/g, "<code>$1</code>");
+		case "webhook":
+			return text.replace(/\*\*(.+?)\*\*/g, "$1").replace(/`(.+?)`/g, "$1");
+	}
+}
+
+/**
+ * Convert text already formatted for a channel back to the neutral markup,
+ * so that formatForChannel reproduces it
+ */
+export function parseChannelText(text: string, channel: MessageChannel): string {
+	switch (channel) {
+		case "discord":
+		case "webhook":
+			return text;
+		case "slack":
+			return text.replace(/(?<!\*)\*([^*\n]+)\*(?!\*)/g, "**$1**");
+		case "telegram":
+			return text
+				.replace(/<b>(.+?)<\/b>/g, "**$1**")
+				.replace(/<code>(.+?)<\/code>/g, "`$1`")
+				.replace(/&lt;/g, "<")
+				.replace(/&gt;/g, ">")
+				.replace(/&amp;/g, "&");
+	}
+}
+
+/**
+ * Synthetic match data for previews and test alerts, shaped like OZ Monitor's variables
+ */
+export function sampleMessageData(
+	config: UserConfig,
+	monitorName: string,
+): Record<string, unknown> {
+	const networkType = getNetwork(config.network)?.type ?? "Stellar";
+	const account = networkType === "EVM" ? SAMPLE_EVM_ACCOUNT : SAMPLE_STELLAR_ACCOUNT;
+	// Comfortably above the threshold, so the sample looks like a real match
+	const amount = (BigInt(/^\d+$/.test(config.threshold) ? config.threshold : "0") * 3n).toString();
+
+	const data: Record<string, unknown> = {
+		monitor: { name: monitorName },
+		transaction: {
+			hash: networkType === "EVM" ? `0x${SAMPLE_TX_HASH}` : SAMPLE_TX_HASH,
+			from: account,
+			to: config.contracts[0]?.address ?? account,
+			value: amount,
+		},
+	};
+	if (config.monitorType === "transactions") {
+		return data;
+	}
+
+	const { kind, conditions } = matchedConditions(config);
+	const [condition] = conditions;
+	if (!condition) {
+		return data;
+	}
+
+	const amountField = findAmountField(condition, kind, networkType);
+	const args: Record<string, string> = {};
+	getConditionParams(condition, kind, networkType).forEach((param, index) => {
+		const ref = paramRef(param, index, kind, networkType) || String(index);
+		if (amountField?.param === param) {
+			args[ref] = amount;
+		} else if (isNumericType(param.type)) {
+			args[ref] = "1";
+		} else if (param.type === "Address" || param.type === "address") {
+			args[ref] = account;
+		} else if (param.type === "bool") {
+			args[ref] = "true";
+		} else {
+			args[ref] = `sample ${param.name || param.type}`;
+		}
+	});
+
+	data[kind === "event" ? "events" : "functions"] = [{ signature: condition.signature, args }];
+	return data;
+}
+
+/**
+ * Fill OZ Monitor variables from match data, leaving unknown ones as they are
+ */
+export function renderMessageData(text: string, data: Record<string, unknown>): string {
+	return text.replace(OZ_VARIABLE, (variable, path: string) => {
+		let value: unknown = data;
+		for (const key of path.split(".")) {
+			value =
+				typeof value === "object" && value !== null
+					? (value as Record<string, unknown>)[key]
+					: undefined;
+		}
+		return value === undefined || value === null ? variable : String(value);
+	});
+}
@@ -0,0 +1,126 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { NetworkPreset, RpcEndpoint } from "../types/index.js";
+import { getPaths, NETWORK_PRESETS } from "./config-manager.js";
+
+const NETWORKS_DIR = join(getPaths().blip0Dir, "networks");
+
+// Passphrases of the public Stellar networks and of a local quickstart
+export const STELLAR_PASSPHRASES: Record<string, string> = {
+	mainnet: "Public Global Stellar Network ; September 2015",
+	testnet: "Test SDF Network ; September 2015",
+	futurenet: "Test SDF Future Network ; October 2022",
+	standalone: "Standalone Network ; February 2017",
+};
+
+// Registry networks, read once per process; reset whenever the registry changes
+let customNetworks: Record<string, NetworkPreset> | null = null;
+
+/**
+ * Check that a network slug is usable as a file name and OZ Monitor slug
+ */
+export function isValidNetworkSlug(slug: string): boolean {
+	return /^[a-z0-9][a-z0-9_-]{0,63}$/.test(slug);
+}
+
+/**
+ * Read the networks added with `blip0 network add`
+ * Read synchronously, since network lookups happen throughout config generation
+ */
+function loadCustomNetworks(): Record<string, NetworkPreset> {
+	if (customNetworks) {
+		return customNetworks;
+	}
+
+	customNetworks = {};
+	if (!existsSync(NETWORKS_DIR)) {
+		return customNetworks;
+	}
+	for (const file of readdirSync(NETWORKS_DIR).filter((name) => name.endsWith(".json"))) {
+		try {
+			const network = JSON.parse(readFileSync(join(NETWORKS_DIR, file), "utf8")) as NetworkPreset;
+			if (network.slug === file.slice(0, -".json".length)) {
+				customNetworks[network.slug] = network;
+			}
+		} catch {
+			// A broken file shouldn't hide the other networks; `network show` reports it
+		}
+	}
+	return customNetworks;
+}
+
+/**
+ * Every known network: the built-in presets, overridden or extended by the registry
+ */
+export function getNetworks(): Record<string, NetworkPreset> {
+	return { ...NETWORK_PRESETS, ...loadCustomNetworks() };
+}
+
+/**
+ * Look up a network by slug
+ */
+export function getNetwork(slug: string): NetworkPreset | undefined {
+	return getNetworks()[slug];
+}
+
+/**
+ * Whether a network comes from the registry rather than the built-in presets
+ */
+export function isCustomNetwork(slug: string): boolean {
+	return slug in loadCustomNetworks();
+}
+
+/**
+ * Path of a registry network's file
+ */
+export function getNetworkPath(slug: string): string {
+	if (!isValidNetworkSlug(slug)) {
+		throw new Error(`Invalid network slug "${slug}" (use lowercase letters, digits, "_" and "-")`);
+	}
+	return join(NETWORKS_DIR, `${slug}.json`);
+}
+
+/**
+ * Add or replace a network in the registry
+ */
+export async function saveNetwork(network: NetworkPreset): Promise<void> {
+	await Bun.$`mkdir -p ${NETWORKS_DIR}`.quiet();
+	await Bun.write(getNetworkPath(network.slug), JSON.stringify(network, null, 2));
+	customNetworks = null;
+}
+
+/**
+ * Remove a network from the registry; a built-in network it overrode comes back
+ */
+export async function removeNetwork(slug: string): Promise<boolean> {
+	const path = getNetworkPath(slug);
+	if (!existsSync(path)) {
+		return false;
+	}
+	await Bun.$`rm -f ${path}`.quiet();
+	customNetworks = null;
+	return true;
+}
+
+/**
+ * The RPC endpoints the monitor uses for a network
+ */
+export function getRpcEndpoints(network: NetworkPreset): RpcEndpoint[] {
+	return network.rpcUrls?.length ? network.rpcUrls : [{ url: network.rpcUrl, weight: 100 }];
+}
+
+/**
+ * Parse an RPC given as "url" or "url@weight"
+ */
+export function parseRpcEndpoint(input: string): RpcEndpoint | null {
+	const match = input.trim().match(/^(.+?)(?:@(\d{1,3}))?$/);
+	const url = match?.[1] ?? "";
+	const weight = match?.[2] === undefined ? 100 : Number(match[2]);
+	try {
+		const parsed = new URL(url);
+		if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+	} catch {
+		return null;
+	}
+	return weight <= 100 ? { url, weight } : null;
+}
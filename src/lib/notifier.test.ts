@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import type { UserConfig } from "../types/index.js";
+import { sendAlert, signWebhookPayload, withBaseUrl } from "./notifier.js";
+
+const MESSAGE = { title: "Large transfer", body: "1000 USDC moved" };
+
+const BASE: UserConfig = {
+	network: "stellar_mainnet",
+	contracts: [{ address: "CA1" }],
+	threshold: "1000",
+	notificationType: "webhook",
+	webhookUrl: "https://hooks.example.com/alerts?team=ops",
+};
+
+let server: Server<undefined>;
+let baseUrl: string;
+// Last request the server received, and what it should answer with next
+let received: { path: string; method: string; headers: Headers; body: string } | undefined;
+let reply: { status: number; body: string };
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const url = new URL(request.url);
+			received = {
+				path: `${url.pathname}${url.search}`,
+				method: request.method,
+				headers: request.headers,
+				body: await request.text(),
+			};
+			return new Response(reply.body, { status: reply.status });
+		},
+	});
+	baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+beforeEach(() => {
+	received = undefined;
+	reply = { status: 200, body: "" };
+});
+
+describe("withBaseUrl", () => {
+	test("keeps the path and query of the original URL", () => {
+		expect(withBaseUrl(BASE.webhookUrl, "http://localhost:8080/")).toBe(
+			"http://localhost:8080/alerts?team=ops",
+		);
+		expect(withBaseUrl(BASE.webhookUrl)).toBe(BASE.webhookUrl);
+	});
+});
+
+describe("sendAlert to Telegram", () => {
+	const telegram: UserConfig = {
+		...BASE,
+		notificationType: "telegram",
+		webhookUrl: JSON.stringify({ token: "123:abc", chatId: "-100" }),
+	};
+
+	test("posts the message to the bot's chat", async () => {
+		reply = { status: 200, body: '{"ok":true,"result":{}}' };
+		expect(await sendAlert(telegram, MESSAGE, { baseUrl })).toEqual({
+			success: true,
+			status: 200,
+		});
+		expect(received?.path).toBe("/bot123:abc/sendMessage");
+		expect(JSON.parse(received?.body ?? "")).toMatchObject({
+			chat_id: "-100",
+			text: "<b>Large transfer</b>\n\n1000 USDC moved",
+		});
+	});
+
+	test("fails on ok: false even with a 200 status", async () => {
+		reply = { status: 200, body: '{"ok":false,"description":"Bad Request: chat not found"}' };
+		const result = await sendAlert(telegram, MESSAGE, { baseUrl });
+		expect(result.success).toBe(false);
+		expect(!result.success && result.error).toContain("chat not found");
+	});
+});
+
+describe("sendAlert to a webhook", () => {
+	test("signs the payload when the webhook has a secret", async () => {
+		const config: UserConfig = {
+			...BASE,
+			webhook: { method: "PUT", headers: { "X-Team": "ops" }, secret: "signing-key" },
+		};
+		expect((await sendAlert(config, MESSAGE, { baseUrl })).success).toBe(true);
+
+		expect(received?.method).toBe("PUT");
+		expect(received?.path).toBe("/alerts?team=ops");
+		expect(received?.headers.get("x-team")).toBe("ops");
+		const timestamp = received?.headers.get("x-timestamp") ?? "";
+		expect(timestamp).toMatch(/^\d+$/);
+		expect(received?.headers.get("x-signature")).toBe(
+			signWebhookPayload("signing-key", received?.body ?? "", timestamp),
+		);
+	});
+
+	test("sends no signature without a secret", async () => {
+		await sendAlert(BASE, MESSAGE, { baseUrl });
+		expect(received?.headers.has("x-signature")).toBe(false);
+		expect(JSON.parse(received?.body ?? "")).toEqual(MESSAGE);
+	});
+
+	test("reports the reason the server gave", async () => {
+		reply = { status: 403, body: '{"message":"invalid token"}' };
+		expect(await sendAlert(BASE, MESSAGE, { baseUrl })).toEqual({
+			success: false,
+			status: 403,
+			error: "HTTP 403 Forbidden - invalid token",
+		});
+	});
+});
+
+test("signWebhookPayload signs the payload followed by the timestamp", () => {
+	// echo -n '{"a":1}1700000000000' | openssl dgst -sha256 -hmac key
+	expect(signWebhookPayload("key", '{"a":1}', "1700000000000")).toBe(
+		"46f0d18373b429dbd5e12aa60fa869be1f92b0c6678e187ac782827e7126ca0c",
+	);
+});
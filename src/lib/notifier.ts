@@ -0,0 +1,162 @@
+import { createHmac } from "node:crypto";
+import type { AlertMessage, UserConfig } from "../types/index.js";
+
+const TELEGRAM_API_URL = "https://api.telegram.org";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Outcome of delivering an alert
+ */
+export type DeliveryResult =
+	| { success: true; status: number }
+	| { success: false; status?: number; error: string };
+
+/**
+ * Where and how to send an alert
+ */
+interface AlertRequest {
+	url: string;
+	method: string;
+	headers: Record<string, string>;
+	body: string;
+}
+
+/**
+ * Point a URL at another server, keeping its path and query
+ */
+export function withBaseUrl(url: string, baseUrl?: string): string {
+	if (!baseUrl) {
+		return url;
+	}
+	const parsed = new URL(url);
+	return `${baseUrl.replace(/\/+$/, "")}${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * Sign a webhook payload the way OZ Monitor does: HMAC-SHA256 of the payload followed by the timestamp
+ */
+export function signWebhookPayload(secret: string, payload: string, timestamp: string): string {
+	return createHmac("sha256", secret).update(`${payload}${timestamp}`).digest("hex");
+}
+
+/**
+ * Build the HTTP request for a channel, mirroring the payloads OZ Monitor sends
+ * The config must have its secrets resolved
+ */
+function buildRequest(config: UserConfig, message: AlertMessage, baseUrl?: string): AlertRequest {
+	const json = { "Content-Type": "application/json" };
+
+	switch (config.notificationType) {
+		case "discord":
+			return {
+				url: withBaseUrl(config.webhookUrl, baseUrl),
+				method: "POST",
+				headers: json,
+				body: JSON.stringify({ content: `**${message.title}**\n\n${message.body}` }),
+			};
+		case "slack":
+			return {
+				url: withBaseUrl(config.webhookUrl, baseUrl),
+				method: "POST",
+				headers: json,
+				body: JSON.stringify({ text: `*${message.title}*\n\n${message.body}` }),
+			};
+		case "telegram": {
+			const { token, chatId } = JSON.parse(config.webhookUrl) as { token: string; chatId: string };
+			return {
+				url: `${(baseUrl ?? TELEGRAM_API_URL).replace(/\/+$/, "")}/bot${token}/sendMessage`,
+				method: "POST",
+				headers: json,
+				body: JSON.stringify({
+					chat_id: chatId,
+					text: `<b>${message.title}</b>\n\n${message.body}`,
+					parse_mode: "HTML",
+					disable_web_page_preview: true,
+				}),
+			};
+		}
+		case "webhook": {
+			const body = JSON.stringify({ title: message.title, body: message.body });
+			const headers: Record<string, string> = { ...json, ...config.webhook?.headers };
+			if (config.webhook?.secret) {
+				const timestamp = Date.now().toString();
+				headers["X-Timestamp"] = timestamp;
+				headers["X-Signature"] = signWebhookPayload(config.webhook.secret, body, timestamp);
+			}
+			return {
+				url: withBaseUrl(config.webhookUrl, baseUrl),
+				method: config.webhook?.method ?? "POST",
+				headers,
+				body,
+			};
+		}
+	}
+}
+
+/**
+ * Pull a readable reason out of an error response from Discord, Slack, Telegram or a webhook
+ */
+function describeErrorBody(text: string): string {
+	try {
+		const parsed = JSON.parse(text) as Record<string, unknown>;
+		const reason = parsed.description ?? parsed.message ?? parsed.error;
+		if (typeof reason === "string") {
+			return reason;
+		}
+	} catch {
+		// Slack and many webhooks answer in plain text
+	}
+	const trimmed = text.trim();
+	return trimmed.length > 200 ? `${trimmed.slice(0, 200)}...` : trimmed;
+}
+
+/**
+ * Send an alert straight to a config's channel, bypassing the monitor
+ */
+export async function sendAlert(
+	config: UserConfig,
+	message: AlertMessage,
+	options: { baseUrl?: string } = {},
+): Promise<DeliveryResult> {
+	let request: AlertRequest;
+	try {
+		request = buildRequest(config, message, options.baseUrl);
+	} catch (error) {
+		return {
+			success: false,
+			error: `Invalid ${config.notificationType} settings: ${error instanceof Error ? error.message : error}`,
+		};
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(request.url, {
+			method: request.method,
+			headers: request.headers,
+			body: request.body,
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+	} catch (error) {
+		const reason =
+			error instanceof Error && error.name === "TimeoutError"
+				? `no response after ${REQUEST_TIMEOUT_MS / 1000}s`
+				: error instanceof Error
+					? error.message
+					: String(error);
+		return { success: false, error: `Could not reach ${new URL(request.url).host}: ${reason}` };
+	}
+
+	const text = await response.text();
+	// Telegram reports some failures with a 200 status and "ok": false
+	const telegramFailed = config.notificationType === "telegram" && text.includes('"ok":false');
+	if (response.ok && !telegramFailed) {
+		return { success: true, status: response.status };
+	}
+
+	const reason = describeErrorBody(text);
+	return {
+		success: false,
+		status: response.status,
+		error: `HTTP ${response.status} ${response.statusText}${reason ? ` - ${reason}` : ""}`,
+	};
+}
@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import {
+	formatSchemaIssues,
+	validateMonitorConfig,
+	validateNetworkConfig,
+	validateTriggerConfig,
+} from "./oz-schema.js";
+
+const NETWORK = {
+	network_type: "Stellar",
+	slug: "stellar_testnet",
+	name: "Stellar Testnet",
+	rpc_urls: [{ type_: "rpc", url: { type: "plain", value: "https://rpc.example" }, weight: 100 }],
+	network_passphrase: "Test SDF Network ; September 2015",
+	block_time_ms: 5000,
+	confirmation_blocks: 1,
+	cron_schedule: "0 */1 * * * *",
+	max_past_blocks: 20,
+	store_blocks: true,
+};
+
+const MONITOR = {
+	name: "Whale Alert",
+	networks: ["stellar_testnet"],
+	paused: false,
+	addresses: [{ address: "CA..." }],
+	match_conditions: {
+		functions: [],
+		events: [{ signature: "transfer(Address,Address,i128)", expression: "2 > 1000" }],
+		transactions: [],
+	},
+	triggers: ["whale-alert-slack"],
+};
+
+const TRIGGER = {
+	"whale-alert-slack": {
+		name: "Whale Alert Slack Alert",
+		trigger_type: "slack",
+		config: {
+			slack_url: { type: "environment", value: "BLIP0_SECRET_SLACK" },
+			message: { title: "Large transfer", body: "Details" },
+		},
+	},
+};
+
+describe("validateNetworkConfig", () => {
+	test("accepts a complete Stellar network", () => {
+		expect(validateNetworkConfig(NETWORK)).toEqual([]);
+	});
+
+	test("reports missing and mistyped fields by path", () => {
+		const { network_passphrase: _, ...withoutPassphrase } = NETWORK;
+		expect(
+			validateNetworkConfig({ ...withoutPassphrase, store_blocks: "yes", cron_schedule: "* * *" }),
+		).toEqual([
+			{ path: ".network_passphrase", message: "is required" },
+			{ path: ".store_blocks", message: "expected true or false" },
+			{ path: ".cron_schedule", message: "expected 6 fields (sec min hour day month weekday)" },
+		]);
+	});
+
+	test("checks each RPC endpoint", () => {
+		const issues = validateNetworkConfig({
+			...NETWORK,
+			rpc_urls: [{ type_: "rpc", url: { type: "vault", value: "" }, weight: 101 }],
+		});
+		expect(issues.map((issue) => issue.path)).toEqual([
+			".rpc_urls[0].url.type",
+			".rpc_urls[0].url.value",
+			".rpc_urls[0].weight",
+		]);
+	});
+
+	test("requires a chain id on EVM networks", () => {
+		const issues = validateNetworkConfig({ ...NETWORK, network_type: "EVM" });
+		expect(issues).toEqual([{ path: ".chain_id", message: "is required" }]);
+	});
+
+	test("rejects values that aren't objects", () => {
+		expect(validateNetworkConfig(null)).toEqual([
+			{ path: "(root)", message: "expected an object" },
+		]);
+		expect(validateNetworkConfig([NETWORK])).toHaveLength(1);
+	});
+});
+
+describe("validateMonitorConfig", () => {
+	test("accepts a complete monitor", () => {
+		expect(validateMonitorConfig(MONITOR)).toEqual([]);
+	});
+
+	test("requires at least one network and well-formed conditions", () => {
+		const issues = validateMonitorConfig({
+			...MONITOR,
+			networks: [],
+			match_conditions: { events: [{ expression: 5 }] },
+		});
+		expect(formatSchemaIssues(issues)).toEqual([
+			".networks: must not be empty",
+			".match_conditions.events[0].signature: is required",
+			".match_conditions.events[0].expression: expected a string",
+		]);
+	});
+});
+
+describe("validateTriggerConfig", () => {
+	test("accepts a complete trigger", () => {
+		expect(validateTriggerConfig(TRIGGER)).toEqual([]);
+	});
+
+	test("requires the secret fields of the trigger type", () => {
+		const issues = validateTriggerConfig({
+			t: { name: "T", trigger_type: "telegram", config: { message: { title: "a", body: "b" } } },
+		});
+		expect(formatSchemaIssues(issues)).toEqual([
+			".t.config.token: is required",
+			".t.config.chat_id: is required",
+		]);
+	});
+
+	test("rejects unknown trigger types and empty files", () => {
+		expect(validateTriggerConfig({})).toEqual([{ path: "(root)", message: "defines no triggers" }]);
+		const issues = validateTriggerConfig({
+			t: { name: "T", trigger_type: "pager", config: {} },
+		});
+		expect(issues[0]?.path).toBe(".t.trigger_type");
+	});
+
+	test("checks webhook headers and message", () => {
+		const issues = validateTriggerConfig({
+			t: {
+				name: "T",
+				trigger_type: "webhook",
+				config: {
+					url: { type: "plain", value: "https://example.com" },
+					headers: { "X-Count": 1 },
+					message: { title: "" },
+				},
+			},
+		});
+		expect(formatSchemaIssues(issues)).toEqual([
+			".t.config.headers.X-Count: expected a string",
+			".t.config.message.title: must not be empty",
+			".t.config.message.body: is required",
+		]);
+	});
+});
@@ -0,0 +1,274 @@
+/**
+ * A problem found in a config, with the JSON path it was found at
+ */
+export interface SchemaIssue {
+	path: string;
+	message: string;
+}
+
+/**
+ * Trigger types OZ Monitor supports, with the secret fields each one requires
+ */
+const TRIGGER_SECRETS: Record<string, string[]> = {
+	discord: ["discord_url"],
+	slack: ["slack_url"],
+	telegram: ["token"],
+	webhook: ["url"],
+	email: ["password"],
+	script: [],
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects issues while walking a config, with typed field checks
+ */
+function createChecker() {
+	const issues: SchemaIssue[] = [];
+
+	const add = (path: string, message: string) => {
+		issues.push({ path: path || "(root)", message });
+	};
+
+	const isObject = (value: unknown): value is JsonObject =>
+		typeof value === "object" && value !== null && !Array.isArray(value);
+
+	const object = (value: unknown, path: string): JsonObject | null => {
+		if (isObject(value)) return value;
+		add(path, "expected an object");
+		return null;
+	};
+
+	const string = (
+		parent: JsonObject,
+		key: string,
+		path: string,
+		{ optional = false, nonEmpty = true } = {},
+	): void => {
+		const value = parent[key];
+		if (value === undefined && optional) return;
+		if (typeof value !== "string") {
+			add(`${path}.${key}`, value === undefined ? "is required" : "expected a string");
+		} else if (nonEmpty && !value.trim()) {
+			add(`${path}.${key}`, "must not be empty");
+		}
+	};
+
+	const integer = (
+		parent: JsonObject,
+		key: string,
+		path: string,
+		{ optional = false, min = 0 } = {},
+	): void => {
+		const value = parent[key];
+		if (value === undefined && optional) return;
+		if (typeof value !== "number" || !Number.isInteger(value)) {
+			add(`${path}.${key}`, value === undefined ? "is required" : "expected an integer");
+		} else if (value < min) {
+			add(`${path}.${key}`, `must be at least ${min}`);
+		}
+	};
+
+	const boolean = (parent: JsonObject, key: string, path: string): void => {
+		if (typeof parent[key] !== "boolean") {
+			add(`${path}.${key}`, parent[key] === undefined ? "is required" : "expected true or false");
+		}
+	};
+
+	const array = (
+		parent: JsonObject,
+		key: string,
+		path: string,
+		{ optional = false, nonEmpty = false } = {},
+	): unknown[] | null => {
+		const value = parent[key];
+		if (value === undefined && optional) return null;
+		if (!Array.isArray(value)) {
+			add(`${path}.${key}`, value === undefined ? "is required" : "expected an array");
+			return null;
+		}
+		if (nonEmpty && value.length === 0) {
+			add(`${path}.${key}`, "must not be empty");
+		}
+		return value;
+	};
+
+	// Secrets are { type: "plain" | "environment", value }
+	const secret = (parent: JsonObject, key: string, path: string): void => {
+		const value = parent[key];
+		if (value === undefined) {
+			add(`${path}.${key}`, "is required");
+			return;
+		}
+		const entry = object(value, `${path}.${key}`);
+		if (!entry) return;
+		if (!["plain", "environment", "hashicorp_cloud_vault"].includes(entry.type as string)) {
+			add(`${path}.${key}.type`, 'expected "plain", "environment" or "hashicorp_cloud_vault"');
+		}
+		string(entry, "value", `${path}.${key}`);
+	};
+
+	return { issues, add, object, string, integer, boolean, array, secret };
+}
+
+/**
+ * Check a network config against the shape OZ Monitor expects
+ */
+export function validateNetworkConfig(config: unknown): SchemaIssue[] {
+	const check = createChecker();
+	const network = check.object(config, "");
+	if (!network) return check.issues;
+
+	if (network.network_type !== "Stellar" && network.network_type !== "EVM") {
+		check.add(".network_type", 'expected "Stellar" or "EVM"');
+	}
+	check.string(network, "slug", "");
+	check.string(network, "name", "");
+
+	const rpcUrls = check.array(network, "rpc_urls", "", { nonEmpty: true }) ?? [];
+	rpcUrls.forEach((value, index) => {
+		const path = `.rpc_urls[${index}]`;
+		const rpc = check.object(value, path);
+		if (!rpc) return;
+		check.string(rpc, "type_", path);
+		check.secret(rpc, "url", path);
+		check.integer(rpc, "weight", path);
+		if (typeof rpc.weight === "number" && rpc.weight > 100) {
+			check.add(`${path}.weight`, "must be at most 100");
+		}
+	});
+
+	if (network.network_type === "Stellar") {
+		check.string(network, "network_passphrase", "");
+	}
+	if (network.network_type === "EVM") {
+		check.integer(network, "chain_id", "", { min: 1 });
+	}
+	check.integer(network, "block_time_ms", "", { min: 1 });
+	check.integer(network, "confirmation_blocks", "");
+	check.integer(network, "max_past_blocks", "", { optional: true });
+	check.boolean(network, "store_blocks", "");
+
+	check.string(network, "cron_schedule", "");
+	if (
+		typeof network.cron_schedule === "string" &&
+		network.cron_schedule.trim().split(/\s+/).length !== 6
+	) {
+		check.add(".cron_schedule", "expected 6 fields (sec min hour day month weekday)");
+	}
+
+	return check.issues;
+}
+
+/**
+ * Check a monitor config against the shape OZ Monitor expects
+ */
+export function validateMonitorConfig(config: unknown): SchemaIssue[] {
+	const check = createChecker();
+	const monitor = check.object(config, "");
+	if (!monitor) return check.issues;
+
+	check.string(monitor, "name", "");
+	check.boolean(monitor, "paused", "");
+
+	for (const key of ["networks", "triggers"]) {
+		const values = check.array(monitor, key, "", { nonEmpty: key === "networks" }) ?? [];
+		values.forEach((value, index) => {
+			if (typeof value !== "string" || !value) {
+				check.add(`.${key}[${index}]`, "expected a non-empty string");
+			}
+		});
+	}
+
+	const addresses = check.array(monitor, "addresses", "") ?? [];
+	addresses.forEach((value, index) => {
+		const address = check.object(value, `.addresses[${index}]`);
+		if (address) check.string(address, "address", `.addresses[${index}]`);
+	});
+
+	const conditions = check.object(monitor.match_conditions, ".match_conditions");
+	if (conditions) {
+		for (const key of ["functions", "events", "transactions"]) {
+			const path = `.match_conditions.${key}`;
+			const entries = check.array(conditions, key, ".match_conditions", { optional: true }) ?? [];
+			entries.forEach((value, index) => {
+				const entry = check.object(value, `${path}[${index}]`);
+				if (!entry) return;
+				check.string(entry, key === "transactions" ? "status" : "signature", `${path}[${index}]`);
+				check.string(entry, "expression", `${path}[${index}]`, { optional: true });
+			});
+		}
+	}
+
+	return check.issues;
+}
+
+/**
+ * Check a trigger config (one or more triggers keyed by id) against the shape OZ Monitor expects
+ */
+export function validateTriggerConfig(config: unknown): SchemaIssue[] {
+	const check = createChecker();
+	const triggers = check.object(config, "");
+	if (!triggers) return check.issues;
+
+	if (Object.keys(triggers).length === 0) {
+		check.add("", "defines no triggers");
+	}
+
+	for (const [id, value] of Object.entries(triggers)) {
+		const path = `.${id}`;
+		const trigger = check.object(value, path);
+		if (!trigger) continue;
+
+		check.string(trigger, "name", path);
+		const type = trigger.trigger_type as string;
+		const secrets = TRIGGER_SECRETS[type];
+		if (!secrets) {
+			check.add(
+				`${path}.trigger_type`,
+				`expected one of: ${Object.keys(TRIGGER_SECRETS).join(", ")}`,
+			);
+		}
+
+		const settings = check.object(trigger.config, `${path}.config`);
+		if (!settings) continue;
+		for (const key of secrets ?? []) {
+			check.secret(settings, key, `${path}.config`);
+		}
+
+		if (type === "telegram") {
+			check.string(settings, "chat_id", `${path}.config`);
+		}
+		if (type === "webhook") {
+			check.string(settings, "method", `${path}.config`, { optional: true });
+			if (settings.secret !== undefined) {
+				check.secret(settings, "secret", `${path}.config`);
+			}
+			if (settings.headers !== undefined) {
+				const headers = check.object(settings.headers, `${path}.config.headers`);
+				for (const [name, header] of Object.entries(headers ?? {})) {
+					if (typeof header !== "string") {
+						check.add(`${path}.config.headers.${name}`, "expected a string");
+					}
+				}
+			}
+		}
+
+		if (type !== "script") {
+			const message = check.object(settings.message, `${path}.config.message`);
+			if (message) {
+				check.string(message, "title", `${path}.config.message`);
+				check.string(message, "body", `${path}.config.message`);
+			}
+		}
+	}
+
+	return check.issues;
+}
+
+/**
+ * Format issues as "path: message" lines
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string[] {
+	return issues.map((issue) => `${issue.path}: ${issue.message}`);
+}
@@ -0,0 +1,10 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// BLIP0_HOME keeps everything somewhere else, e.g. a scratch directory for tests
+export const BLIP0_DIR = process.env.BLIP0_HOME || join(homedir(), ".blip0");
+export const CONFIGS_DIR = join(BLIP0_DIR, "configs");
+export const RUNTIME_DIR = join(BLIP0_DIR, "runtime");
+export const SESSIONS_FILE = join(BLIP0_DIR, "sessions.json");
+// Inside each session directory, holding the pid of its local monitor process
+export const PID_FILE = "monitor.pid";
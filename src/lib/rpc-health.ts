@@ -0,0 +1,196 @@
+import type { NetworkPreset, RpcEndpoint } from "../types/index.js";
+import { getRpcEndpoints } from "./network-registry.js";
+
+const PROBE_TIMEOUT_MS = 5_000;
+// Endpoints further behind the freshest one than this are considered stale
+const MAX_LAG_MS = 30_000;
+// Probe results are reused within one command, e.g. across contracts in the wizard
+const CACHE_TTL_MS = 60_000;
+
+/**
+ * Health of one RPC endpoint
+ */
+export interface RpcHealth {
+	url: string;
+	weight: number;
+	healthy: boolean;
+	latencyMs?: number;
+	// Latest ledger (Stellar) or block (EVM) the endpoint reports
+	latestLedger?: number;
+	// Ledgers or blocks behind the freshest endpoint of the network
+	lag?: number;
+	error?: string;
+}
+
+/**
+ * Endpoints ranked for a network, with the probe results they were ranked by
+ */
+export interface RankedEndpoints {
+	endpoints: RpcEndpoint[];
+	results: RpcHealth[];
+	// False when no endpoint was healthy and the configured ones are used as they are
+	ranked: boolean;
+}
+
+const cache = new Map<string, { at: number; result: Promise<RpcHealth> }>();
+
+/**
+ * Call a JSON-RPC method, returning its result
+ */
+async function callRpc(url: string, method: string, params?: unknown[]): Promise<unknown> {
+	const response = await fetch(url, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, ...(params && { params }) }),
+		signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status} ${response.statusText}`);
+	}
+	const body = (await response.json()) as { result?: unknown; error?: { message?: string } };
+	if (body.error) {
+		throw new Error(body.error.message ?? `${method} failed`);
+	}
+	return body.result;
+}
+
+/**
+ * Probe an endpoint: getHealth and getLatestLedger on Stellar, eth_syncing and eth_blockNumber on EVM
+ * Latency is the round trip of the latest-ledger call
+ */
+async function probe(network: NetworkPreset, endpoint: RpcEndpoint): Promise<RpcHealth> {
+	const result: RpcHealth = { url: endpoint.url, weight: endpoint.weight, healthy: false };
+	try {
+		if (network.type === "Stellar") {
+			const health = (await callRpc(endpoint.url, "getHealth")) as { status?: string };
+			if (health?.status !== "healthy") {
+				result.error = `reports status "${health?.status ?? "unknown"}"`;
+				return result;
+			}
+			const started = performance.now();
+			const latest = (await callRpc(endpoint.url, "getLatestLedger")) as { sequence?: number };
+			result.latencyMs = Math.round(performance.now() - started);
+			result.latestLedger = latest?.sequence;
+		} else {
+			const syncing = await callRpc(endpoint.url, "eth_syncing", []);
+			if (syncing) {
+				result.error = "node is still syncing";
+				return result;
+			}
+			const started = performance.now();
+			const block = (await callRpc(endpoint.url, "eth_blockNumber", [])) as string;
+			result.latencyMs = Math.round(performance.now() - started);
+			result.latestLedger = Number.parseInt(block, 16);
+		}
+		result.healthy = Number.isFinite(result.latestLedger);
+		if (!result.healthy) result.error = "no latest ledger in the response";
+	} catch (error) {
+		result.error =
+			error instanceof Error && error.name === "TimeoutError"
+				? `no response after ${PROBE_TIMEOUT_MS / 1000}s`
+				: error instanceof Error
+					? error.message
+					: String(error);
+	}
+	return result;
+}
+
+/**
+ * Probe every RPC endpoint of a network in parallel
+ * Endpoints lagging behind the freshest one are marked unhealthy
+ */
+export async function probeNetwork(network: NetworkPreset): Promise<RpcHealth[]> {
+	const now = Date.now();
+	const results = await Promise.all(
+		getRpcEndpoints(network).map((endpoint) => {
+			const key = `${network.slug} ${endpoint.url}`;
+			const cached = cache.get(key);
+			if (cached && now - cached.at < CACHE_TTL_MS) {
+				return cached.result.then((result) => ({ ...result, weight: endpoint.weight }));
+			}
+			const result = probe(network, endpoint);
+			cache.set(key, { at: now, result });
+			return result;
+		}),
+	);
+
+	const freshest = Math.max(...results.map((result) => result.latestLedger ?? 0));
+	const maxLag = Math.max(1, Math.ceil(MAX_LAG_MS / network.blockTimeMs));
+	return results.map((result) => {
+		if (result.latestLedger === undefined) return result;
+		const lag = freshest - result.latestLedger;
+		return lag > maxLag
+			? { ...result, lag, healthy: false, error: `${lag} behind the freshest endpoint` }
+			: { ...result, lag };
+	});
+}
+
+/**
+ * Scale a configured weight down by an endpoint's latency relative to the fastest
+ * A weight of 0 stays 0, and positive weights never round down to it
+ */
+function scaleWeight(weight: number, fastestMs = 0, latencyMs = 0): number {
+	if (weight <= 0) return 0;
+	return Math.max(1, Math.round((weight * Math.max(1, fastestMs)) / Math.max(1, latencyMs)));
+}
+
+/**
+ * Order a network's endpoints fastest first, weighted by latency, without unhealthy ones
+ *
+ * Positive weights are scaled by how much slower each endpoint is than the
+ * fastest; endpoints weighted 0 keep their weight of 0. If nothing is healthy,
+ * the configured endpoints are returned as they are rather than leaving the
+ * monitor without an RPC.
+ */
+export async function rankRpcEndpoints(network: NetworkPreset): Promise<RankedEndpoints> {
+	const results = await probeNetwork(network);
+	const healthy = results
+		.filter((result) => result.healthy)
+		.sort((a, b) => (a.latencyMs ?? 0) - (b.latencyMs ?? 0));
+
+	const [fastest] = healthy;
+	if (!fastest) {
+		return { endpoints: getRpcEndpoints(network), results, ranked: false };
+	}
+
+	const endpoints = healthy.map((result) => ({
+		url: result.url,
+		weight: scaleWeight(result.weight, fastest.latencyMs, result.latencyMs),
+	}));
+	return { endpoints, results, ranked: true };
+}
+
+/**
+ * A copy of the network whose own RPC (used by blip0 for introspection) is the best healthy endpoint
+ */
+export async function withHealthyRpc(network: NetworkPreset): Promise<NetworkPreset> {
+	const { endpoints, ranked } = await rankRpcEndpoints(network);
+	// Endpoints weighted 0 are only used when nothing else is left
+	const best = endpoints.find((endpoint) => endpoint.weight > 0) ?? endpoints[0];
+	return ranked && best ? { ...network, rpcUrl: best.url } : network;
+}
+
+/**
+ * Describe a probe result in a few words, e.g. "120 ms, at 51234" or the error
+ */
+export function describeRpcHealth(result: RpcHealth): string {
+	if (!result.healthy) {
+		return result.error ?? "unhealthy";
+	}
+	const lag = result.lag ? `, ${result.lag} behind` : "";
+	return `${result.latencyMs} ms, at ${result.latestLedger}${lag}`;
+}
+
+/**
+ * Warnings about endpoints left out of a ranking, or about falling back to the configured ones
+ */
+export function rankingWarnings(network: NetworkPreset, ranking: RankedEndpoints): string[] {
+	if (!ranking.ranked) {
+		return [`No healthy RPC endpoint for ${network.name}, using the configured ones as they are`];
+	}
+	return ranking.results
+		.filter((result) => !result.healthy)
+		.map(
+			(result) => `Skipping RPC ${result.url} for ${network.name}: ${describeRpcHealth(result)}`,
+		);
+}
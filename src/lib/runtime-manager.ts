@@ -1,6 +1,15 @@
-import { homedir } from "node:os";
+import { existsSync } from "node:fs";
 import { join } from "node:path";
-import type { SessionInfo } from "../types/index.js";
+import type { RuntimeBackend, SessionInfo } from "../types/index.js";
+import {
+	getActiveVersion,
+	getBinaryPath,
+	getVersionBinary,
+	hasBinary,
+	installRuntime,
+	isVersionInstalled,
+	useVersion,
+} from "./binary-manager.js";
 import {
 	addSession,
 	cleanupSession,
@@ -8,110 +17,86 @@ import {
 	removeSession,
 	updateSessionStatus,
 } from "./config-manager.js";
+import { formatValidationIssue, validateConfigDir } from "./config-validator.js";
+import {
+	DEFAULT_IMAGE,
+	hasDocker,
+	isContainerRunning,
+	removeContainer,
+	startContainer,
+	stopContainer,
+} from "./docker-runtime.js";
+import { closeSessionLog, openSessionLog, startLogRotation } from "./log-manager.js";
+import { PID_FILE } from "./paths.js";
+import { resolveSecretEnv } from "./secret-store.js";
 import { hint, log, spinner } from "./ui.js";
 
-const BLIP0_DIR = join(homedir(), ".blip0");
-const BIN_DIR = join(BLIP0_DIR, "bin");
+const BINARY_NAME = "openzeppelin-monitor";
+const STOP_TIMEOUT_MS = 5000;
 
 /**
- * Check if OZ Monitor binary exists
+ * Options for starting a monitor session
  */
-export async function hasBinary(): Promise<boolean> {
-	const binaryPath = join(BIN_DIR, "openzeppelin-monitor");
-	return await Bun.file(binaryPath).exists();
+export interface StartOptions {
+	// Saved profile the session was generated from
+	profile?: string;
+	// Env vars to inject, mapped to the secret store entries holding their values
+	secretEnv?: Record<string, string>;
+	// Run the native binary (default) or the Docker image
+	runtime?: RuntimeBackend;
+	// Image for the docker runtime
+	image?: string;
+	// OZ Monitor version for the binary runtime, e.g. the one a session was started with;
+	// the active version is used when unset or no longer installed
+	binaryVersion?: string;
 }
 
+const RUNTIME_BACKENDS: RuntimeBackend[] = ["binary", "docker"];
+
 /**
- * Get the appropriate asset name for the current platform
+ * Read the --runtime and --image options, throwing on unknown runtimes
  */
-function getAssetName(version: string): string {
-	const platform = process.platform;
-	const arch = process.arch;
-
-	if (platform === "darwin") {
-		return arch === "arm64"
-			? `openzeppelin-monitor-${version}-aarch64-apple-darwin.tar.gz`
-			: `openzeppelin-monitor-${version}-x86_64-apple-darwin.tar.gz`;
-	} else if (platform === "linux") {
-		return arch === "arm64"
-			? `openzeppelin-monitor-${version}-aarch64-unknown-linux-gnu.tar.gz`
-			: `openzeppelin-monitor-${version}-x86_64-unknown-linux-gnu.tar.gz`;
+export function parseRuntimeOptions(options: {
+	runtime?: string;
+	image?: string;
+}): Pick<StartOptions, "runtime" | "image"> {
+	const runtime = (options.runtime?.toLowerCase() ?? "binary") as RuntimeBackend;
+	if (!RUNTIME_BACKENDS.includes(runtime)) {
+		throw new Error(
+			`Unknown runtime "${options.runtime}" (expected one of: ${RUNTIME_BACKENDS.join(", ")})`,
+		);
 	}
+	if (options.image && runtime !== "docker") {
+		throw new Error("--image requires --runtime docker");
+	}
+	return { runtime, image: options.image };
+}
 
-	throw new Error(`Unsupported platform: ${platform}/${arch}`);
+/**
+ * Start time and command line of a running process, used to detect pid reuse
+ */
+interface ProcessIdentity {
+	startedAt: string;
+	command: string;
 }
 
 /**
- * Download OZ Monitor binary from GitHub releases
+ * Install the latest OZ Monitor release and make it the active version
  */
 export async function downloadBinary(): Promise<boolean> {
 	const s = spinner();
 	s.start("Downloading OpenZeppelin Monitor...");
 
 	try {
-		await Bun.$`mkdir -p ${BIN_DIR}`.quiet();
-
-		// Get latest release info
-		s.message("Fetching latest release info...");
-		const releaseUrl =
-			"https://api.github.com/repos/OpenZeppelin/openzeppelin-monitor/releases/latest";
-		const response = await fetch(releaseUrl, {
-			headers: { "User-Agent": "blip0-cli" },
-		});
-
-		if (!response.ok) {
-			s.stop("Failed to fetch release info");
-			return false;
-		}
-
-		const release = (await response.json()) as {
-			tag_name: string;
-			assets?: Array<{ name: string; browser_download_url: string }>;
-		};
-		const version = release.tag_name; // e.g., "v1.1.0"
-
-		// Find the right asset
-		const assetName = getAssetName(version);
-		const asset = release.assets?.find((a) => a.name === assetName);
-
-		if (!asset) {
-			s.stop(`Binary not found for your platform (${process.platform}/${process.arch})`);
-			hint("Available assets:");
-			release.assets?.forEach((a) => {
-				hint(`  - ${a.name}`);
-			});
-			return false;
-		}
-
-		// Download the tarball
-		s.message(`Downloading ${assetName}...`);
-		const downloadUrl = asset.browser_download_url;
-		const tarballPath = join(BIN_DIR, assetName);
-
-		await Bun.$`curl -L -o ${tarballPath} ${downloadUrl}`.quiet();
-
-		// Extract the binary
-		s.message("Extracting binary...");
-		await Bun.$`tar -xzf ${tarballPath} -C ${BIN_DIR}`.quiet();
-
-		// Clean up tarball
-		await Bun.$`rm ${tarballPath}`.quiet();
-
-		// Make binary executable
-		const binaryPath = join(BIN_DIR, "openzeppelin-monitor");
-		await Bun.$`chmod +x ${binaryPath}`.quiet();
-
-		// Verify binary exists
-		if (!(await Bun.file(binaryPath).exists())) {
-			s.stop("Binary extraction failed");
-			return false;
-		}
-
-		s.stop(`OpenZeppelin Monitor ${version} installed`);
+		const result = await installRuntime({ onProgress: (message) => s.message(message) });
+		await useVersion(result.version);
+		s.stop(`OpenZeppelin Monitor ${result.version} installed`);
 		return true;
 	} catch (error) {
 		s.stop("Failed to download binary");
 		log.error(`Error: ${error}`);
+		hint("Install a specific version or a local tarball with:");
+		hint("  blip0 runtime install <version> [--file <tarball>]");
 		return false;
 	}
 }
@@ -130,26 +115,49 @@ export async function startWithBinary(
 	sessionId: string,
 	sessionDir: string,
 	tool: string,
+	options: StartOptions = {},
 ): Promise<SessionInfo | null> {
-	const binaryPath = join(BIN_DIR, "openzeppelin-monitor");
+	const { binaryPath, binaryVersion } = await resolveBinary(options.binaryVersion);
 
 	try {
-		// Start the process in the background
+		// Secrets only ever reach the monitor through its environment
+		const secretValues = await resolveSecretEnv(options.secretEnv ?? {});
+
+		// Monitor output goes straight to the session log file
+		const logFd = await openSessionLog(sessionDir);
+
+		// Start the process detached in its own process group so it outlives the CLI
 		const proc = Bun.spawn([binaryPath], {
 			cwd: sessionDir,
 			env: {
-				...process.env,
+				...getInheritedEnv(),
+				...secretValues,
 				RUST_LOG: "info",
 			},
-			stdout: "pipe",
-			stderr: "pipe",
+			stdin: "ignore",
+			stdout: logFd,
+			stderr: logFd,
+			detached: true,
 		});
+		proc.unref();
+
+		// The child has its own copy of the descriptor
+		closeSessionLog(logFd);
+
+		await Bun.write(join(sessionDir, PID_FILE), `${proc.pid}\n`);
+		const identity = await waitForProcessIdentity(proc.pid);
+		startLogRotation(sessionDir, proc.pid, identity?.startedAt);
 
 		const session: SessionInfo = {
 			id: sessionId,
 			tool,
+			profile: options.profile,
+			secretEnv: options.secretEnv,
 			configPath: sessionDir,
 			pid: proc.pid,
+			processStartedAt: identity?.startedAt,
+			command: identity?.command,
+			binaryVersion,
 			startedAt: new Date(),
 			status: "running",
 		};
@@ -175,6 +183,85 @@ export async function startWithBinary(
 	}
 }
 
+/**
+ * Find the binary to run: the requested version if it is installed, otherwise the active one
+ */
+async function resolveBinary(
+	version?: string,
+): Promise<{ binaryPath: string; binaryVersion?: string }> {
+	const active = await getActiveVersion();
+	if (!version || version === active) {
+		return { binaryPath: await getBinaryPath(), binaryVersion: active };
+	}
+	if (await isVersionInstalled(version)) {
+		return { binaryPath: getVersionBinary(version), binaryVersion: version };
+	}
+
+	log.warn(
+		`OpenZeppelin Monitor ${version} is no longer installed, starting ${active ?? "the unversioned binary"} instead`,
+	);
+	hint("Reinstall it to keep the session on its version:");
+	hint(`  blip0 runtime install ${version}`);
+	return { binaryPath: await getBinaryPath(), binaryVersion: active };
+}
+
+/**
+ * Start OZ Monitor in a container of the official image
+ */
+export async function startWithDocker(
+	sessionId: string,
+	sessionDir: string,
+	tool: string,
+	options: StartOptions = {},
+): Promise<SessionInfo | null> {
+	const image = options.image ?? DEFAULT_IMAGE;
+
+	try {
+		const secretValues = await resolveSecretEnv(options.secretEnv ?? {});
+		const containerId = await startContainer(sessionId, sessionDir, image, secretValues);
+
+		const session: SessionInfo = {
+			id: sessionId,
+			tool,
+			profile: options.profile,
+			secretEnv: options.secretEnv,
+			configPath: sessionDir,
+			runtime: "docker",
+			containerId,
+			image,
+			startedAt: new Date(),
+			status: "running",
+		};
+
+		await addSession(session);
+
+		// Monitor the container for early failure, e.g. a config the image rejects
+		setTimeout(async () => {
+			try {
+				if (!(await isContainerRunning(containerId))) {
+					await updateSessionStatus(sessionId, "error");
+				}
+			} catch {
+				// Ignore errors in background check
+			}
+		}, 2000);
+
+		return session;
+	} catch (error) {
+		log.error(`Failed to start container: ${error}`);
+		return null;
+	}
+}
+
+/**
+ * The CLI's environment minus blip0's own variables, which may hold credentials
+ */
+function getInheritedEnv(): Record<string, string | undefined> {
+	return Object.fromEntries(
+		Object.entries(process.env).filter(([name]) => !name.startsWith("BLIP0_")),
+	);
+}
+
 /**
  * Start OZ Monitor
  */
@@ -182,11 +269,21 @@ export async function startMonitor(
 	sessionDir: string,
 	tool: string,
 	sessionId?: string,
+	options: StartOptions = {},
 ): Promise<SessionInfo | null> {
 	const id = sessionId || generateSessionId();
 
+	if (options.runtime === "docker") {
+		if (!(await hasDocker())) {
+			log.error("Docker is not available (is the daemon running?)");
+			return null;
+		}
+		return startWithDocker(id, sessionDir, tool, options);
+	}
+
 	// Ensure binary is available
-	if (!(await hasBinary())) {
+	const pinned = options.binaryVersion && (await isVersionInstalled(options.binaryVersion));
+	if (!pinned && !(await hasBinary())) {
 		const downloaded = await downloadBinary();
 		if (!downloaded) {
 			log.error("Failed to set up OZ Monitor");
@@ -194,13 +291,19 @@ export async function startMonitor(
 		}
 	}
 
-	return startWithBinary(id, sessionDir, tool);
+	return startWithBinary(id, sessionDir, tool, options);
 }
 
 /**
  * Stop a running monitor
+ *
+ * The session keeps its generated config and data directory so it can be
+ * restarted later; pass purge to delete both along with the session record.
  */
-export async function stopMonitor(sessionId: string): Promise<boolean> {
+export async function stopMonitor(
+	sessionId: string,
+	options: { purge?: boolean } = {},
+): Promise<boolean> {
 	const sessions = await loadSessions();
 	const session = sessions.find((s) => s.id === sessionId);
 
@@ -210,19 +313,17 @@ export async function stopMonitor(sessionId: string): Promise<boolean> {
 	}
 
 	try {
-		if (session.pid) {
-			// Kill the process
-			try {
-				await Bun.$`kill ${session.pid}`.quiet();
-			} catch {
-				// Process might already be dead
+		await terminateSession(session);
+		await updateSessionStatus(sessionId, "stopped");
+
+		if (options.purge) {
+			if (session.containerId) {
+				await removeContainer(session.containerId);
 			}
+			await cleanupSession(sessionId);
+			await removeSession(sessionId);
 		}
 
-		await updateSessionStatus(sessionId, "stopped");
-		await cleanupSession(sessionId);
-		await removeSession(sessionId);
-
 		return true;
 	} catch (error) {
 		log.error(`Failed to stop monitor: ${error}`);
@@ -230,6 +331,92 @@ export async function stopMonitor(sessionId: string): Promise<boolean> {
 	}
 }
 
+/**
+ * Restart a session with its existing config and data directory
+ *
+ * The session keeps the OZ Monitor version it was started with unless
+ * activeVersion asks for the currently active one.
+ */
+export async function restartMonitor(
+	sessionId: string,
+	options: { activeVersion?: boolean } = {},
+): Promise<SessionInfo | null> {
+	const sessions = await loadSessions();
+	const session = sessions.find((s) => s.id === sessionId);
+
+	if (!session) {
+		log.error("Session not found");
+		return null;
+	}
+
+	if (!existsSync(join(session.configPath, "config"))) {
+		log.error(`Session config is missing: ${session.configPath}`);
+		return null;
+	}
+
+	// Files may have been edited by hand since the monitor was started
+	const report = await validateConfigDir(session.configPath);
+	const problems = report.issues.filter((issue) => issue.severity === "error");
+	if (problems.length > 0) {
+		for (const issue of problems) {
+			log.error(formatValidationIssue(issue));
+		}
+		return null;
+	}
+
+	await terminateSession(session);
+
+	// Same id and directory, so the block cursors in data/ are picked up again
+	return startMonitor(session.configPath, session.tool, session.id, {
+		profile: session.profile,
+		secretEnv: session.secretEnv,
+		runtime: session.runtime,
+		image: session.image,
+		binaryVersion: options.activeVersion ? undefined : session.binaryVersion,
+	});
+}
+
+/**
+ * Restart every session that should be running but whose monitor is gone
+ *
+ * Stopped sessions were stopped on purpose and are left alone; "running" and
+ * "error" sessions were meant to be running (e.g. before a reboot).
+ */
+export async function resumeSessions(
+	sessionIds?: string[],
+): Promise<Array<{ session: SessionInfo; resumed: boolean }>> {
+	const sessions = await loadSessions();
+	const candidates = sessionIds
+		? sessions.filter((s) => sessionIds.includes(s.id))
+		: sessions.filter((s) => s.status !== "stopped");
+
+	const results: Array<{ session: SessionInfo; resumed: boolean }> = [];
+	for (const session of candidates) {
+		if (await isProcessAlive(session)) continue;
+
+		const restarted = await restartMonitor(session.id);
+		results.push({ session: restarted ?? session, resumed: restarted !== null });
+	}
+
+	return results;
+}
+
+/**
+ * Terminate a session's monitor process or container if it is still running
+ */
+async function terminateSession(session: SessionInfo): Promise<void> {
+	if (session.containerId) {
+		await stopContainer(session.containerId);
+		return;
+	}
+
+	const pid = await getSessionPid(session);
+	if (pid && (await isProcessAlive(session))) {
+		await terminateProcessGroup(pid);
+	}
+	await Bun.$`rm -f ${join(session.configPath, PID_FILE)}`.quiet();
+}
+
 /**
  * Check if a session is still running
  */
@@ -239,20 +426,119 @@ export async function isSessionRunning(sessionId: string): Promise<boolean> {
 
 	if (!session) return false;
 
-	try {
-		if (session.pid) {
-			const result = await Bun.$`ps -p ${session.pid}`.quiet();
-			return result.exitCode === 0;
-		}
+	return isProcessAlive(session);
+}
+
+/**
+ * Check that a session's monitor process is alive and really is our monitor
+ *
+ * A bare pid check isn't enough: after the monitor dies the pid can be reused by
+ * an unrelated process, so the start time and command line must match as well.
+ * Docker sessions are checked through their container instead.
+ */
+export async function isProcessAlive(session: SessionInfo): Promise<boolean> {
+	if (session.containerId) {
+		return isContainerRunning(session.containerId);
+	}
+
+	const pid = await getSessionPid(session);
+	if (!pid) return false;
+	return isMonitorProcess(pid, session.processStartedAt);
+}
+
+/**
+ * Check that a pid belongs to a monitor, and to the one started at startedAt if given
+ */
+export async function isMonitorProcess(pid: number, startedAt?: string): Promise<boolean> {
+	const identity = await getProcessIdentity(pid);
+	if (!identity) return false;
+
+	if (startedAt && identity.startedAt !== startedAt) {
 		return false;
+	}
+	return identity.command.includes(BINARY_NAME);
+}
+
+/**
+ * Mark sessions whose monitor process has died as errored
+ */
+export async function reconcileSessions(): Promise<SessionInfo[]> {
+	const sessions = await loadSessions();
+
+	for (const session of sessions) {
+		if (session.status !== "running") continue;
+
+		if (!(await isProcessAlive(session))) {
+			await updateSessionStatus(session.id, "error");
+			session.status = "error";
+		}
+	}
+
+	return sessions;
+}
+
+/**
+ * Read the monitor pid from the session's pid file, falling back to the session record
+ */
+async function getSessionPid(session: SessionInfo): Promise<number | undefined> {
+	const pidFile = Bun.file(join(session.configPath, PID_FILE));
+	if (await pidFile.exists()) {
+		const pid = Number.parseInt(await pidFile.text(), 10);
+		if (!Number.isNaN(pid)) return pid;
+	}
+	return session.pid;
+}
+
+/**
+ * Get a process's start time and command line, or null if it isn't running
+ */
+async function getProcessIdentity(pid: number): Promise<ProcessIdentity | null> {
+	try {
+		// LC_ALL=C keeps lstart in a stable, locale-independent format
+		const result = await Bun.$`ps -o lstart= -o command= -p ${pid}`
+			.env({ ...process.env, LC_ALL: "C" })
+			.quiet();
+		const match = result
+			.text()
+			.trim()
+			.match(/^(\w{3}\s+\w{3}\s+\d+\s+[\d:]+\s+\d{4})\s+(.*)$/);
+		if (!match?.[1] || !match[2]) return null;
+
+		return { startedAt: match[1].replace(/\s+/g, " "), command: match[2] };
 	} catch {
-		return false;
+		return null;
+	}
+}
+
+/**
+ * Wait briefly for a freshly spawned process to show up with the monitor's command line
+ */
+async function waitForProcessIdentity(pid: number): Promise<ProcessIdentity | null> {
+	for (let attempt = 0; attempt < 10; attempt++) {
+		const identity = await getProcessIdentity(pid);
+		if (identity?.command.includes(BINARY_NAME)) return identity;
+		await Bun.sleep(100);
 	}
+	return null;
 }
 
 /**
- * Get the binary path
+ * Send SIGTERM to a monitor's process group, escalating to SIGKILL if it doesn't exit
  */
-export function getBinaryPath(): string {
-	return join(BIN_DIR, "openzeppelin-monitor");
+async function terminateProcessGroup(pid: number): Promise<void> {
+	const signalGroup = (signal: NodeJS.Signals) => {
+		try {
+			// A negative pid targets the whole process group created by the detached spawn
+			process.kill(-pid, signal);
+		} catch {
+			// Process might already be dead
+		}
+	};
+
+	signalGroup("SIGTERM");
+	for (let waited = 0; waited < STOP_TIMEOUT_MS; waited += 100) {
+		if (!(await getProcessIdentity(pid))) return;
+		await Bun.sleep(100);
+	}
+	signalGroup("SIGKILL");
 }
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { readFile, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { UserConfig } from "../types/index.js";
+import { BLIP0_DIR } from "./paths.js";
+import {
+	decryptSecretStore,
+	encryptSecretStore,
+	getConfigSecretNames,
+	getSecret,
+	isSecretStoreEncrypted,
+	listSecretNames,
+	resolveConfigSecrets,
+	setSecret,
+	storeConfigSecrets,
+} from "./secret-store.js";
+
+const SECRETS_FILE = join(BLIP0_DIR, "secrets.json");
+
+const CONFIG: UserConfig = {
+	network: "stellar_mainnet",
+	contracts: [{ address: "CA1" }],
+	threshold: "1000",
+	notificationType: "webhook",
+	webhookUrl: "https://example.com/hook",
+	webhook: { method: "POST", secret: "signing-key" },
+};
+
+afterEach(async () => {
+	delete process.env.BLIP0_SECRETS_PASSPHRASE;
+	await rm(BLIP0_DIR, { recursive: true, force: true });
+});
+
+describe("plain secret store", () => {
+	test("stores secrets readable only by the current user", async () => {
+		await setSecret("discord", "https://discord.com/api/webhooks/1");
+		expect(await getSecret("discord")).toBe("https://discord.com/api/webhooks/1");
+		expect(await getSecret("missing")).toBeNull();
+		expect((await stat(SECRETS_FILE)).mode & 0o777).toBe(0o600);
+	});
+
+	test("moves a config's secrets into the store and back", async () => {
+		const stored = await storeConfigSecrets("whale-alert", "main", CONFIG);
+		expect(stored.webhookUrl).toBe("secret:whale-alert.main.webhook-url");
+		expect(stored.webhook?.secret).toBe("secret:whale-alert.main.webhook-secret");
+		expect(CONFIG.webhook?.secret).toBe("signing-key");
+		expect(getConfigSecretNames(stored).sort()).toEqual(await listSecretNames());
+
+		expect(await resolveConfigSecrets(stored)).toEqual(CONFIG);
+	});
+});
+
+describe("encrypted secret store", () => {
+	test("round-trips secrets without writing them in plain text", async () => {
+		await setSecret("token", "hunter2");
+		await encryptSecretStore("correct horse");
+
+		expect(await isSecretStoreEncrypted()).toBe(true);
+		expect(await readFile(SECRETS_FILE, "utf8")).not.toContain("hunter2");
+		expect(await getSecret("token")).toBe("hunter2");
+
+		await setSecret("later", "added while encrypted");
+		expect(await readFile(SECRETS_FILE, "utf8")).not.toContain("added while encrypted");
+		expect(await getSecret("later")).toBe("added while encrypted");
+
+		await decryptSecretStore();
+		expect(await isSecretStoreEncrypted()).toBe(false);
+		expect(await getSecret("token")).toBe("hunter2");
+		expect(await getSecret("later")).toBe("added while encrypted");
+	});
+
+	test("needs the passphrase once the key is no longer known", async () => {
+		await setSecret("token", "hunter2");
+		await encryptSecretStore("correct horse");
+		const encrypted = await readFile(SECRETS_FILE, "utf8");
+		// Decrypting forgets the key, then the encrypted file is put back as a new process would find it
+		await decryptSecretStore();
+		await writeFile(SECRETS_FILE, encrypted);
+
+		process.env.BLIP0_SECRETS_PASSPHRASE = "wrong";
+		await expect(getSecret("token")).rejects.toThrow("Wrong secret store passphrase");
+
+		process.env.BLIP0_SECRETS_PASSPHRASE = "correct horse";
+		expect(await getSecret("token")).toBe("hunter2");
+		await decryptSecretStore();
+	});
+});
@@ -0,0 +1,407 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { chmod, mkdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { UserConfig } from "../types/index.js";
+import { BLIP0_DIR } from "./paths.js";
+import { handleCancel, prompts } from "./ui.js";
+
+const SECRETS_FILE = join(BLIP0_DIR, "secrets.json");
+const SECRET_REF_PREFIX = "secret:";
+const SECRET_ENV_PREFIX = "BLIP0_SECRET_";
+const PASSPHRASE_ENV = "BLIP0_SECRETS_PASSPHRASE";
+// Encrypted alongside the secrets so a wrong passphrase is caught even in an empty store
+const PASSPHRASE_CHECK = "blip0";
+
+/**
+ * A value encrypted with AES-256-GCM
+ */
+interface EncryptedValue {
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+/**
+ * On-disk format of the secret store
+ */
+interface SecretsFile {
+	version: 1;
+	// Present when the store is encrypted with a passphrase
+	encryption?: { salt: string; check: EncryptedValue };
+	secrets: Record<string, string | EncryptedValue>;
+}
+
+// Key derived from the passphrase, kept for the rest of the process
+let cachedKey: Buffer | null = null;
+
+/**
+ * Check whether a config value references the secret store
+ */
+export function isSecretRef(value: string | undefined): value is `secret:${string}` {
+	return value?.startsWith(SECRET_REF_PREFIX) ?? false;
+}
+
+/**
+ * Build a config reference to a named secret
+ */
+export function toSecretRef(name: string): string {
+	return `${SECRET_REF_PREFIX}${name}`;
+}
+
+/**
+ * Get the secret name from a config reference
+ */
+export function secretRefName(ref: string): string {
+	return ref.slice(SECRET_REF_PREFIX.length);
+}
+
+/**
+ * Environment variable a secret is passed to the monitor in
+ */
+export function secretEnvName(name: string): string {
+	return `${SECRET_ENV_PREFIX}${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Check that a secret name is usable in references and env var names
+ */
+export function isValidSecretName(name: string): boolean {
+	return /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/.test(name);
+}
+
+/**
+ * Read the secret store, or an empty one if it doesn't exist yet
+ */
+async function loadSecretsFile(): Promise<SecretsFile> {
+	const file = Bun.file(SECRETS_FILE);
+	if (!(await file.exists())) {
+		return { version: 1, secrets: {} };
+	}
+	return JSON.parse(await file.text()) as SecretsFile;
+}
+
+/**
+ * Write the secret store atomically, readable only by the current user
+ */
+async function saveSecretsFile(store: SecretsFile): Promise<void> {
+	await mkdir(BLIP0_DIR, { recursive: true, mode: 0o700 });
+	const tempPath = `${SECRETS_FILE}.${process.pid}.tmp`;
+	await writeFile(tempPath, JSON.stringify(store, null, 2), { mode: 0o600 });
+	await chmod(tempPath, 0o600);
+	await rename(tempPath, SECRETS_FILE);
+}
+
+/**
+ * Encrypt a value with AES-256-GCM
+ */
+function encrypt(value: string, key: Buffer): EncryptedValue {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+	return {
+		iv: iv.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		data: data.toString("base64"),
+	};
+}
+
+/**
+ * Decrypt an AES-256-GCM value, throwing if the key is wrong or the data was altered
+ */
+function decrypt(value: EncryptedValue, key: Buffer): string {
+	const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(value.iv, "base64"));
+	decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+	return Buffer.concat([
+		decipher.update(Buffer.from(value.data, "base64")),
+		decipher.final(),
+	]).toString("utf8");
+}
+
+/**
+ * Derive the store key from a passphrase
+ */
+function deriveKey(passphrase: string, salt: string): Buffer {
+	return scryptSync(passphrase, Buffer.from(salt, "base64"), 32);
+}
+
+/**
+ * Get the passphrase from the environment, or prompt for it in a terminal
+ */
+async function readPassphrase(message: string): Promise<string> {
+	const fromEnv = process.env[PASSPHRASE_ENV];
+	if (fromEnv) {
+		return fromEnv;
+	}
+	if (!process.stdin.isTTY) {
+		throw new Error(`The secret store is encrypted, set ${PASSPHRASE_ENV} to unlock it`);
+	}
+
+	const passphrase = await prompts.password({
+		message,
+		validate: (input) => (input ? undefined : "Passphrase is required"),
+	});
+	handleCancel(passphrase);
+	return passphrase as string;
+}
+
+/**
+ * Get the key for an encrypted store, checking the passphrase
+ */
+async function unlock(store: SecretsFile): Promise<Buffer | null> {
+	if (!store.encryption) {
+		return null;
+	}
+	if (cachedKey) {
+		return cachedKey;
+	}
+
+	const key = deriveKey(await readPassphrase("Secret store passphrase:"), store.encryption.salt);
+	try {
+		decrypt(store.encryption.check, key);
+	} catch {
+		throw new Error("Wrong secret store passphrase");
+	}
+
+	cachedKey = key;
+	return key;
+}
+
+/**
+ * Check whether the secret store is encrypted with a passphrase
+ */
+export async function isSecretStoreEncrypted(): Promise<boolean> {
+	return (await loadSecretsFile()).encryption !== undefined;
+}
+
+/**
+ * List the names of stored secrets (names are never encrypted)
+ */
+export async function listSecretNames(): Promise<string[]> {
+	return Object.keys((await loadSecretsFile()).secrets).sort();
+}
+
+/**
+ * Read a secret's value, or null if it doesn't exist
+ */
+export async function getSecret(name: string): Promise<string | null> {
+	const store = await loadSecretsFile();
+	const value = store.secrets[name];
+	if (value === undefined) {
+		return null;
+	}
+	if (typeof value === "string") {
+		return value;
+	}
+
+	const key = await unlock(store);
+	if (!key) {
+		throw new Error(`Secret "${name}" is encrypted but the store has no passphrase`);
+	}
+	return decrypt(value, key);
+}
+
+/**
+ * Store a secret, encrypting it when the store has a passphrase
+ */
+export async function setSecret(name: string, value: string): Promise<void> {
+	if (!isValidSecretName(name)) {
+		throw new Error(`Invalid secret name "${name}" (use letters, digits, ".", "_" and "-")`);
+	}
+
+	const store = await loadSecretsFile();
+	const key = await unlock(store);
+	store.secrets[name] = key ? encrypt(value, key) : value;
+	await saveSecretsFile(store);
+}
+
+/**
+ * Delete secrets by name, returning how many existed
+ */
+export async function deleteSecrets(names: string[]): Promise<number> {
+	const store = await loadSecretsFile();
+	const existing = names.filter((name) => name in store.secrets);
+	if (existing.length === 0) {
+		return 0;
+	}
+
+	for (const name of existing) {
+		delete store.secrets[name];
+	}
+	await saveSecretsFile(store);
+	return existing.length;
+}
+
+/**
+ * Encrypt every secret with a new passphrase (or re-encrypt with a changed one)
+ */
+export async function encryptSecretStore(passphrase: string): Promise<void> {
+	const store = await loadSecretsFile();
+	const oldKey = await unlock(store);
+
+	const salt = randomBytes(16).toString("base64");
+	const key = deriveKey(passphrase, salt);
+
+	const secrets: SecretsFile["secrets"] = {};
+	for (const [name, value] of Object.entries(store.secrets)) {
+		const plain = typeof value === "string" ? value : decrypt(value, oldKey as Buffer);
+		secrets[name] = encrypt(plain, key);
+	}
+
+	await saveSecretsFile({
+		version: 1,
+		encryption: { salt, check: encrypt(PASSPHRASE_CHECK, key) },
+		secrets,
+	});
+	cachedKey = key;
+}
+
+/**
+ * Remove passphrase encryption, keeping secrets in the 0600 store file only
+ */
+export async function decryptSecretStore(): Promise<void> {
+	const store = await loadSecretsFile();
+	const key = await unlock(store);
+	if (!key) {
+		return;
+	}
+
+	const secrets: SecretsFile["secrets"] = {};
+	for (const [name, value] of Object.entries(store.secrets)) {
+		secrets[name] = typeof value === "string" ? value : decrypt(value, key);
+	}
+
+	await saveSecretsFile({ version: 1, secrets });
+	cachedKey = null;
+}
+
+/**
+ * Resolve a session's env var to secret name mapping into the values to inject
+ */
+export async function resolveSecretEnv(
+	secretEnv: Record<string, string>,
+): Promise<Record<string, string>> {
+	const env: Record<string, string> = {};
+	for (const [envName, secretName] of Object.entries(secretEnv)) {
+		const value = await getSecret(secretName);
+		if (value === null) {
+			throw new Error(`Secret "${secretName}" is missing from the secret store`);
+		}
+		env[envName] = value;
+	}
+	return env;
+}
+
+/**
+ * Secret fields of a config: where each lives and the name it is stored under
+ */
+function configSecretFields(
+	config: UserConfig,
+): Array<{ value: string | undefined; suffix: string; apply: (ref: string) => void }> {
+	if (config.notificationType === "telegram") {
+		const credentials = parseTelegramCredentials(config.webhookUrl);
+		return [
+			{
+				value: credentials?.token,
+				suffix: "telegram-token",
+				apply: (ref) => {
+					config.webhookUrl = JSON.stringify({ ...credentials, token: ref });
+				},
+			},
+		];
+	}
+
+	return [
+		{
+			value: config.webhookUrl,
+			suffix: "webhook-url",
+			apply: (ref) => {
+				config.webhookUrl = ref;
+			},
+		},
+		{
+			value: config.webhook?.secret,
+			suffix: "webhook-secret",
+			apply: (ref) => {
+				if (config.webhook) config.webhook.secret = ref;
+			},
+		},
+	];
+}
+
+/**
+ * Check whether a config still holds notification secrets in plain text
+ */
+export function hasPlainSecrets(config: UserConfig): boolean {
+	return configSecretFields({ ...config }).some(
+		(field) => field.value !== undefined && field.value !== "" && !isSecretRef(field.value),
+	);
+}
+
+/**
+ * Move a config's plaintext secrets into the store, returning a config that references them
+ * Secrets are named "<tool>.<profile>.<field>", so saving a profile again replaces them
+ */
+export async function storeConfigSecrets(
+	tool: string,
+	profile: string,
+	config: UserConfig,
+): Promise<UserConfig> {
+	const stored: UserConfig = { ...config, webhook: config.webhook && { ...config.webhook } };
+
+	for (const field of configSecretFields(stored)) {
+		if (!field.value || isSecretRef(field.value)) continue;
+		const name = `${tool}.${profile}.${field.suffix}`;
+		await setSecret(name, field.value);
+		field.apply(toSecretRef(name));
+	}
+
+	return stored;
+}
+
+/**
+ * Replace a config's secret references with their values
+ */
+export async function resolveConfigSecrets(config: UserConfig): Promise<UserConfig> {
+	const resolved: UserConfig = { ...config, webhook: config.webhook && { ...config.webhook } };
+
+	for (const field of configSecretFields(resolved)) {
+		if (!isSecretRef(field.value)) continue;
+		const value = await getSecret(secretRefName(field.value));
+		if (value === null) {
+			throw new Error(`Secret "${secretRefName(field.value)}" is missing from the secret store`);
+		}
+		field.apply(value);
+	}
+
+	return resolved;
+}
+
+/**
+ * Secret names referenced by a config
+ */
+export function getConfigSecretNames(config: UserConfig): string[] {
+	return configSecretFields({ ...config })
+		.map((field) => field.value)
+		.filter(isSecretRef)
+		.map(secretRefName);
+}
+
+/**
+ * Env vars the monitor needs for a config's secrets, mapped to the secret names
+ */
+export function getConfigSecretEnv(config: UserConfig): Record<string, string> {
+	return Object.fromEntries(
+		getConfigSecretNames(config).map((name) => [secretEnvName(name), name]),
+	);
+}
+
+/**
+ * Parse the Telegram credentials stored as JSON in webhookUrl
+ */
+function parseTelegramCredentials(value: string): { token?: string; chatId?: string } | null {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
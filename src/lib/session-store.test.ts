@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdir, readdir, readFile, rm, utimes, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { SessionInfo } from "../types/index.js";
+import { BLIP0_DIR, PID_FILE, RUNTIME_DIR, SESSIONS_FILE } from "./paths.js";
+import { readSessionIndex, updateSessionIndex } from "./session-store.js";
+
+const LOCK_FILE = `${SESSIONS_FILE}.lock`;
+
+/**
+ * A stopped session whose directory is under the runtime directory
+ */
+function makeSession(id: string): SessionInfo {
+	return {
+		id,
+		tool: "whale-alert",
+		configPath: join(RUNTIME_DIR, `session-${id}`),
+		startedAt: new Date("2025-01-01T00:00:00Z"),
+		status: "stopped",
+	};
+}
+
+/**
+ * Add a session to the index
+ */
+function addSession(id: string): Promise<SessionInfo[]> {
+	return updateSessionIndex((sessions) => [...sessions, makeSession(id)]);
+}
+
+async function readIndexFile(): Promise<{ version: number; sessions: SessionInfo[] }> {
+	return JSON.parse(await readFile(SESSIONS_FILE, "utf8"));
+}
+
+/**
+ * The pid of a process that has already exited
+ */
+async function deadPid(): Promise<number> {
+	const proc = Bun.spawn(["true"]);
+	await proc.exited;
+	return proc.pid;
+}
+
+afterEach(async () => {
+	await rm(BLIP0_DIR, { recursive: true, force: true });
+});
+
+describe("updateSessionIndex", () => {
+	test("writes a versioned index and each session's own record", async () => {
+		await mkdir(makeSession("a").configPath, { recursive: true });
+		await addSession("a");
+		// No directory to keep a record in, which isn't an error
+		await addSession("b");
+
+		const file = await readIndexFile();
+		expect(file.version).toBe(2);
+		expect(file.sessions.map((session) => session.id)).toEqual(["a", "b"]);
+
+		const record = JSON.parse(
+			await readFile(join(makeSession("a").configPath, "session.json"), "utf8"),
+		);
+		expect(record.id).toBe("a");
+	});
+
+	test("applies concurrent updates one after another", async () => {
+		const ids = Array.from({ length: 10 }, (_, i) => `s${i}`);
+		await Promise.all(ids.map(addSession));
+		const sessions = await readSessionIndex();
+		expect(sessions.map((session) => session.id).sort()).toEqual(ids.sort());
+	});
+
+	test("migrates a version 1 index", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(SESSIONS_FILE, JSON.stringify([makeSession("old")]));
+
+		expect((await readSessionIndex()).map((session) => session.id)).toEqual(["old"]);
+		await addSession("new");
+		const file = await readIndexFile();
+		expect(file.version).toBe(2);
+		expect(file.sessions.map((session) => session.id)).toEqual(["old", "new"]);
+	});
+
+	test("refuses an index written by a newer blip0", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(SESSIONS_FILE, JSON.stringify({ version: 99, sessions: [] }));
+		await expect(readSessionIndex()).rejects.toThrow("newer blip0");
+		await expect(addSession("a")).rejects.toThrow("newer blip0");
+	});
+});
+
+describe("session lock", () => {
+	test("clears a lock left by a process that has exited", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(LOCK_FILE, `${await deadPid()}\n`);
+
+		await addSession("a");
+		expect(await Bun.file(LOCK_FILE).exists()).toBe(false);
+	});
+
+	test("clears a lock held for longer than any update takes", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		// pid 1 is always alive
+		await writeFile(LOCK_FILE, "1\n");
+		const old = new Date(Date.now() - 120_000);
+		await utimes(LOCK_FILE, old, old);
+
+		await addSession("a");
+		expect((await readSessionIndex()).map((session) => session.id)).toEqual(["a"]);
+	});
+
+	test("waits for a live holder to release the lock", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(LOCK_FILE, "1\n");
+
+		let done = false;
+		const update = addSession("a").then(() => {
+			done = true;
+		});
+		await Bun.sleep(200);
+		expect(done).toBe(false);
+
+		await rm(LOCK_FILE);
+		await update;
+		expect((await readSessionIndex()).map((session) => session.id)).toEqual(["a"]);
+	});
+
+	test("stays exclusive when several processes clear the same stale lock", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(SESSIONS_FILE, JSON.stringify({ version: 2, sessions: [] }));
+		await writeFile(LOCK_FILE, `${await deadPid()}\n`);
+
+		// Spawned processes get the environment Bun started with, so BLIP0_HOME is passed on
+		const store = join(import.meta.dir, "session-store.ts");
+		const writers = ["p1", "p2", "p3", "p4"].map((name) =>
+			Bun.spawn(
+				[
+					process.execPath,
+					"-e",
+					`const { updateSessionIndex } = await import(${JSON.stringify(store)});
+					for (let i = 0; i < 5; i++) {
+						await updateSessionIndex((sessions) => [...sessions, { id: "${name}-" + i }]);
+					}`,
+				],
+				{ env: { ...process.env } },
+			),
+		);
+		expect(await Promise.all(writers.map((writer) => writer.exited))).toEqual([0, 0, 0, 0]);
+
+		const sessions = await readSessionIndex();
+		expect(sessions).toHaveLength(20);
+		expect(await Bun.file(LOCK_FILE).exists()).toBe(false);
+	}, 30_000);
+});
+
+describe("readSessionIndex recovery", () => {
+	test("rebuilds a corrupt index from the session directories", async () => {
+		const recorded = makeSession("a");
+		await mkdir(recorded.configPath, { recursive: true });
+		await writeFile(
+			join(recorded.configPath, "session.json"),
+			JSON.stringify({ ...recorded, configPath: "/moved/elsewhere" }),
+		);
+
+		// Older directories without a record come back as raw sessions
+		const bare = join(RUNTIME_DIR, "session-b");
+		await mkdir(join(bare, "config"), { recursive: true });
+		await writeFile(join(bare, PID_FILE), "4242\n");
+
+		// Neither is a session: no config, and not named like one
+		await mkdir(join(RUNTIME_DIR, "session-c"), { recursive: true });
+		await mkdir(join(RUNTIME_DIR, "other", "config"), { recursive: true });
+
+		await writeFile(SESSIONS_FILE, "{ not json");
+
+		const sessions = await readSessionIndex();
+		expect(sessions.map(({ id, tool, status, pid }) => ({ id, tool, status, pid }))).toEqual([
+			{ id: "a", tool: "whale-alert", status: "stopped", pid: undefined },
+			{ id: "b", tool: "raw", status: "running", pid: 4242 },
+		]);
+		expect(sessions[0]?.configPath).toBe(recorded.configPath);
+
+		expect((await readIndexFile()).sessions).toHaveLength(2);
+		const backups = (await readdir(BLIP0_DIR)).filter((name) =>
+			name.startsWith("sessions.json.corrupt-"),
+		);
+		expect(backups).toHaveLength(1);
+	});
+
+	test("rebuilds an index that isn't shaped like one", async () => {
+		await mkdir(BLIP0_DIR, { recursive: true });
+		await writeFile(SESSIONS_FILE, JSON.stringify({ sessions: "nope" }));
+
+		expect(await readSessionIndex()).toEqual([]);
+		expect((await readIndexFile()).version).toBe(2);
+	});
+});
@@ -0,0 +1,339 @@
+import { existsSync, type Stats } from "node:fs";
+import {
+	type FileHandle,
+	link,
+	mkdir,
+	open,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type { SessionInfo } from "../types/index.js";
+import { BLIP0_DIR, PID_FILE, RUNTIME_DIR, SESSIONS_FILE } from "./paths.js";
+import { log } from "./ui.js";
+
+const LOCK_FILE = `${SESSIONS_FILE}.lock`;
+// Each session directory keeps a copy of its own record, so the index can be rebuilt
+const SESSION_RECORD = "session.json";
+// Sessions recovered without a record of their own run their config as it is
+const RECOVERED_TOOL = "raw";
+
+// Version 1 was a bare array of sessions
+const SCHEMA_VERSION = 2;
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * The sessions.json file
+ */
+interface SessionsFile {
+	version: number;
+	sessions: SessionInfo[];
+}
+
+/**
+ * sessions.json couldn't be parsed or isn't shaped like a session index
+ */
+class CorruptIndexError extends Error {}
+
+/**
+ * Load all sessions, rebuilding the index if it is corrupt
+ *
+ * Writes replace the file with a rename, so reads never see a partial write
+ * and don't need the lock.
+ */
+export async function readSessionIndex(): Promise<SessionInfo[]> {
+	try {
+		return await loadIndex();
+	} catch (error) {
+		if (!(error instanceof CorruptIndexError)) throw error;
+	}
+
+	return withSessionLock(async () => {
+		// Another process may have recovered it while we waited
+		try {
+			return await loadIndex();
+		} catch (error) {
+			if (!(error instanceof CorruptIndexError)) throw error;
+			return recoverIndex(error.message);
+		}
+	});
+}
+
+/**
+ * Read, change and write the session index while holding the lock
+ */
+export async function updateSessionIndex(
+	update: (sessions: SessionInfo[]) => SessionInfo[],
+): Promise<SessionInfo[]> {
+	return withSessionLock(async () => {
+		let previous: SessionInfo[];
+		try {
+			previous = await loadIndex();
+		} catch (error) {
+			if (!(error instanceof CorruptIndexError)) throw error;
+			previous = await recoverIndex(error.message);
+		}
+
+		const sessions = update(previous.map((session) => ({ ...session })));
+		await writeIndex(sessions);
+		await writeSessionRecords(previous, sessions);
+		return sessions;
+	});
+}
+
+/**
+ * Parse sessions.json, migrating the version 1 array format
+ */
+async function loadIndex(): Promise<SessionInfo[]> {
+	let content: string;
+	try {
+		content = await readFile(SESSIONS_FILE, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+		throw error;
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		throw new CorruptIndexError(error instanceof Error ? error.message : String(error));
+	}
+
+	if (Array.isArray(parsed)) {
+		return parsed as SessionInfo[];
+	}
+	const file = parsed as Partial<SessionsFile> | null;
+	if (typeof file?.version !== "number" || !Array.isArray(file.sessions)) {
+		throw new CorruptIndexError("not a session index");
+	}
+	if (file.version > SCHEMA_VERSION) {
+		throw new Error(
+			`${SESSIONS_FILE} was written by a newer blip0 (schema ${file.version}), upgrade blip0 to use it`,
+		);
+	}
+	return file.sessions;
+}
+
+/**
+ * Write sessions.json atomically: a temp file renamed over the old one
+ */
+async function writeIndex(sessions: SessionInfo[]): Promise<void> {
+	await mkdir(BLIP0_DIR, { recursive: true });
+	const file: SessionsFile = { version: SCHEMA_VERSION, sessions };
+	await writeAtomic(SESSIONS_FILE, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Write a file through a temp file in the same directory, so it is replaced in one step
+ */
+async function writeAtomic(path: string, content: string): Promise<void> {
+	const tempPath = `${path}.${process.pid}.tmp`;
+	await writeFile(tempPath, content);
+	await rename(tempPath, path);
+}
+
+/**
+ * Copy new and changed session records into their session directories
+ */
+async function writeSessionRecords(
+	previous: SessionInfo[],
+	sessions: SessionInfo[],
+): Promise<void> {
+	const before = new Map(previous.map((session) => [session.id, JSON.stringify(session)]));
+	for (const session of sessions) {
+		if (before.get(session.id) === JSON.stringify(session)) continue;
+		// Purged sessions have no directory left to write to
+		if (!existsSync(session.configPath)) continue;
+		await writeAtomic(join(session.configPath, SESSION_RECORD), JSON.stringify(session, null, 2));
+	}
+}
+
+/**
+ * Rebuild the index from the session directories, keeping the corrupt file aside
+ *
+ * Each directory's own record is used where there is one; older directories
+ * without one come back as raw sessions, running if they have a pid file.
+ */
+async function recoverIndex(reason: string): Promise<SessionInfo[]> {
+	const backup = `${SESSIONS_FILE}.corrupt-${Date.now()}`;
+	await rename(SESSIONS_FILE, backup);
+
+	let entries: string[] = [];
+	try {
+		entries = await readdir(RUNTIME_DIR);
+	} catch {
+		// No runtime directory, so there are no sessions to recover
+	}
+
+	const sessions: SessionInfo[] = [];
+	for (const entry of entries.filter((name) => name.startsWith("session-")).sort()) {
+		const session = await recoverSession(join(RUNTIME_DIR, entry), entry.slice("session-".length));
+		if (session) sessions.push(session);
+	}
+
+	await writeIndex(sessions);
+	log.warn(
+		`${SESSIONS_FILE} was unreadable (${reason}); rebuilt it with ${sessions.length} session(s) from ${RUNTIME_DIR}`,
+	);
+	log.message(`The unreadable file was kept as ${backup}`);
+	return sessions;
+}
+
+/**
+ * Read a session directory's record, or reconstruct one from the directory itself
+ */
+async function recoverSession(sessionDir: string, id: string): Promise<SessionInfo | null> {
+	try {
+		const record = JSON.parse(await readFile(join(sessionDir, SESSION_RECORD), "utf8"));
+		if (record?.id === id) {
+			return { ...record, configPath: sessionDir };
+		}
+	} catch {
+		// Fall back to what the directory itself tells us
+	}
+
+	if (!existsSync(join(sessionDir, "config"))) {
+		return null;
+	}
+	const pid = Number.parseInt(
+		await readFile(join(sessionDir, PID_FILE), "utf8").catch(() => ""),
+		10,
+	);
+	return {
+		id,
+		tool: RECOVERED_TOOL,
+		configPath: sessionDir,
+		...(Number.isNaN(pid) ? {} : { pid }),
+		startedAt: (await stat(sessionDir)).mtime,
+		// Sessions that were running are checked and marked as errored by list and resume
+		status: Number.isNaN(pid) ? "stopped" : "running",
+	};
+}
+
+/**
+ * Run a function while holding the advisory lock on sessions.json
+ */
+async function withSessionLock<T>(fn: () => Promise<T>): Promise<T> {
+	await acquireLock();
+	try {
+		return await fn();
+	} finally {
+		await releaseLock();
+	}
+}
+
+/**
+ * Create the lock file exclusively, waiting for other holders and clearing stale locks
+ */
+async function acquireLock(): Promise<void> {
+	await mkdir(BLIP0_DIR, { recursive: true });
+	const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+	while (true) {
+		try {
+			await writeFile(LOCK_FILE, `${process.pid}\n`, { flag: "wx" });
+			return;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+		}
+
+		if (await clearStaleLock()) {
+			continue;
+		}
+		if (Date.now() > deadline) {
+			throw new Error(
+				`Timed out waiting for ${LOCK_FILE}; if no other blip0 is running, delete it and try again`,
+			);
+		}
+		await Bun.sleep(LOCK_RETRY_MS);
+	}
+}
+
+/**
+ * Remove the lock file if this process holds it
+ */
+async function releaseLock(): Promise<void> {
+	const holder = await readFile(LOCK_FILE, "utf8").catch(() => "");
+	if (Number.parseInt(holder, 10) === process.pid) {
+		await rm(LOCK_FILE, { force: true });
+	}
+}
+
+/**
+ * Delete the lock file if it is stale, returning whether to try for the lock again
+ *
+ * Another process may clear the same stale lock and take a fresh one between our
+ * check and the delete, so the lock is first renamed aside and only deleted if it
+ * is still the file that was found stale; otherwise it is put back.
+ */
+async function clearStaleLock(): Promise<boolean> {
+	const stale = await statStaleLock();
+	if (!stale) return false;
+
+	const aside = `${LOCK_FILE}.stale-${process.pid}-${Date.now()}`;
+	try {
+		await rename(LOCK_FILE, aside);
+	} catch (error) {
+		// Cleared by another process in the meantime
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return true;
+		throw error;
+	}
+
+	const moved = await stat(aside);
+	if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+		// A link doesn't replace a lock yet another process may have taken since
+		await link(aside, LOCK_FILE).catch(() => {});
+	}
+	await rm(aside, { force: true });
+	return true;
+}
+
+/**
+ * Stat the lock file if it is stale: its holder has exited or it is older than any update takes
+ */
+async function statStaleLock(): Promise<Stats | null> {
+	let file: FileHandle;
+	try {
+		file = await open(LOCK_FILE);
+	} catch {
+		// Released in the meantime, so just retry
+		return null;
+	}
+
+	try {
+		const [holder, info] = [await file.readFile("utf8"), await file.stat()];
+		if (!isAbandoned(holder, info)) return null;
+		// A holder that released the lock and exited leaves a dead pid in the file we opened,
+		// so it only counts if it is still the file at the lock path
+		return (await stat(LOCK_FILE)).ino === info.ino ? info : null;
+	} catch {
+		return null;
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Whether a lock's holder has exited or held it for longer than any update takes
+ */
+function isAbandoned(holder: string, info: Stats): boolean {
+	if (Date.now() - info.mtimeMs > LOCK_STALE_MS) return true;
+
+	const pid = Number.parseInt(holder, 10);
+	if (Number.isNaN(pid)) return false;
+	try {
+		process.kill(pid, 0);
+		return false;
+	} catch (error) {
+		// ESRCH: no such process; EPERM means it is alive under another user
+		return (error as NodeJS.ErrnoException).code === "ESRCH";
+	}
+}
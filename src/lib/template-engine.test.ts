@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import type { TemplateVars, UserConfig } from "../types/index.js";
+import {
+	buildMonitorConfig,
+	loadTemplate,
+	renderTemplate,
+	substituteVars,
+} from "./template-engine.js";
+
+const VARS: TemplateVars = {
+	NETWORK_SLUG: "stellar_testnet",
+	NETWORK_NAME: "Stellar Testnet",
+	CONTRACT_ADDRESS: "CAAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQC526",
+	CONTRACT_NAME: "USDC",
+	THRESHOLD: "10000000000",
+	THRESHOLD_DISPLAY: "1,000 USDC",
+	WEBHOOK_URL_ENV: "BLIP0_SECRET_SLACK",
+	TRIGGER_ID: "whale-alert-slack",
+	TRIGGER_TYPE: "slack",
+	MONITOR_NAME: "Whale Alert",
+	MESSAGE_TITLE: "Large transfer",
+	MESSAGE_BODY: "Above {{THRESHOLD_DISPLAY}}",
+};
+
+const TRANSFER = "transfer(Address,Address,i128)";
+
+const CONFIG: UserConfig = {
+	network: "stellar_testnet",
+	contracts: [{ address: VARS.CONTRACT_ADDRESS }],
+	threshold: VARS.THRESHOLD,
+	notificationType: "slack",
+	webhookUrl: "",
+	monitorType: "events",
+};
+
+describe("substituteVars", () => {
+	test("fills in known placeholders and collects unknown ones", () => {
+		const missing = new Set<string>();
+		expect(substituteVars("{{NETWORK_NAME}} {{NOPE}}", VARS, missing)).toBe(
+			"Stellar Testnet {{NOPE}}",
+		);
+		expect([...missing]).toEqual(["NOPE"]);
+	});
+});
+
+describe("renderTemplate", () => {
+	test("substitutes into keys, nested values and arrays, leaving other values alone", () => {
+		// Keys change, so the result no longer has the template's type
+		const rendered = renderTemplate<unknown>(
+			{
+				"{{TRIGGER_ID}}": { name: "{{MONITOR_NAME}} alert", networks: ["{{NETWORK_SLUG}}"] },
+				paused: false,
+				weight: 100,
+				optional: null,
+			},
+			VARS,
+		);
+		expect(rendered).toEqual({
+			"whale-alert-slack": { name: "Whale Alert alert", networks: ["stellar_testnet"] },
+			paused: false,
+			weight: 100,
+			optional: null,
+		});
+	});
+
+	test("inserts values as data, so quotes can't break the structure", () => {
+		const vars = { ...VARS, CONTRACT_NAME: 'Evil", "paused": true, "x": "' };
+		expect(renderTemplate({ name: "{{CONTRACT_NAME}}" }, vars)).toEqual({
+			name: 'Evil", "paused": true, "x": "',
+		});
+	});
+
+	test("doesn't substitute inside substituted values", () => {
+		expect(renderTemplate({ body: "{{MESSAGE_BODY}}" }, VARS)).toEqual({
+			body: "Above {{THRESHOLD_DISPLAY}}",
+		});
+	});
+
+	test("throws listing every unresolved placeholder", () => {
+		const vars = { ...VARS, TELEGRAM_TOKEN_ENV: undefined };
+		expect(() =>
+			renderTemplate({ "{{UNKNOWN_KEY}}": ["{{TELEGRAM_TOKEN_ENV}}", "{{UNKNOWN_KEY}}"] }, vars),
+		).toThrow("Unresolved template placeholders: UNKNOWN_KEY, TELEGRAM_TOKEN_ENV");
+	});
+});
+
+describe("loadTemplate", () => {
+	test("renders and validates shipped templates", async () => {
+		const trigger = await loadTemplate("triggers", "slack", VARS);
+		expect(trigger).toHaveProperty(["whale-alert-slack", "config", "slack_url"], {
+			type: "environment",
+			value: "BLIP0_SECRET_SLACK",
+		});
+		await expect(loadTemplate("networks", "stellar_testnet")).resolves.toHaveProperty(
+			"slug",
+			"stellar_testnet",
+		);
+	});
+
+	test("rejects templates with placeholders when no variables are given", async () => {
+		await expect(loadTemplate("monitors", "whale_alert")).rejects.toThrow(
+			"Unresolved template placeholders",
+		);
+	});
+});
+
+describe("buildMonitorConfig", () => {
+	test("compares against the threshold when a condition has no expression", () => {
+		const monitor = buildMonitorConfig(
+			{ ...CONFIG, selectedEvents: [{ signature: TRANSFER }] },
+			VARS,
+		);
+		expect(monitor.match_conditions.events).toEqual([
+			{ signature: TRANSFER, expression: "2 > 10000000000" },
+		]);
+	});
+
+	test("keeps custom expressions as they are", () => {
+		const selectedEvents = [{ signature: TRANSFER, expression: "2 > 5 AND 1 == 'GA'" }];
+		const monitor = buildMonitorConfig({ ...CONFIG, selectedEvents }, VARS);
+		expect(monitor.match_conditions.events).toEqual(selectedEvents);
+	});
+
+	test("matches every occurrence when the expression was left empty", () => {
+		const monitor = buildMonitorConfig(
+			{
+				...CONFIG,
+				monitorType: "functions",
+				selectedFunctions: [{ signature: TRANSFER, expression: "" }],
+			},
+			VARS,
+		);
+		expect(monitor.match_conditions.functions).toEqual([{ signature: TRANSFER }]);
+		expect(JSON.stringify(monitor)).not.toContain("10000000000");
+	});
+});
@@ -1,38 +1,127 @@
 import { dirname, join } from "node:path";
-import type { OZMonitorConfig, TemplateVars, UserConfig } from "../types/index.js";
+import type {
+	AlertMessage,
+	ContractTarget,
+	MessageVars,
+	NetworkPreset,
+	OZMonitorConfig,
+	OZNetworkConfig,
+	OZTriggerConfig,
+	RpcEndpoint,
+	TemplateVars,
+	UserConfig,
+} from "../types/index.js";
+import { buildAmountExpression, DEFAULT_CONDITIONS } from "./match-conditions.js";
+import { formatForChannel, type MessageChannel, resolveMessage } from "./message-template.js";
+import { getNetwork, getRpcEndpoints, isCustomNetwork } from "./network-registry.js";
+import {
+	formatSchemaIssues,
+	type SchemaIssue,
+	validateMonitorConfig,
+	validateNetworkConfig,
+	validateTriggerConfig,
+} from "./oz-schema.js";
+import { isSecretRef, secretEnvName, secretRefName } from "./secret-store.js";
+import { formatThreshold } from "./token-amount.js";
 
 const TEMPLATES_DIR = join(dirname(import.meta.dir), "templates");
 
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+type TemplateCategory = "networks" | "monitors" | "triggers";
+
 /**
- * Substitute template variables in a string
+ * Validators for each kind of generated config
  */
-export function substituteVars(template: string, vars: TemplateVars): string {
-	let result = template;
-	for (const [key, value] of Object.entries(vars)) {
-		const pattern = new RegExp(`\\{\\{${key}\\}\\}`, "g");
-		result = result.replace(pattern, value);
+const VALIDATORS: Record<TemplateCategory, (config: unknown) => SchemaIssue[]> = {
+	networks: validateNetworkConfig,
+	monitors: validateMonitorConfig,
+	triggers: validateTriggerConfig,
+};
+
+/**
+ * Substitute template variables in a string, collecting placeholders that have no value
+ */
+export function substituteVars(
+	template: string,
+	vars: TemplateVars,
+	missing?: Set<string>,
+): string {
+	return template.replace(PLACEHOLDER, (placeholder, key: string) => {
+		const value = vars[key as keyof TemplateVars];
+		if (value === undefined) {
+			missing?.add(key);
+			return placeholder;
+		}
+		return value;
+	});
+}
+
+/**
+ * Substitute variables into every key and string value of a parsed template
+ * Values are inserted as data, so quotes and backslashes can't change the JSON structure
+ */
+export function renderTemplate<T>(template: T, vars: TemplateVars): T {
+	const missing = new Set<string>();
+
+	const render = (value: unknown): unknown => {
+		if (typeof value === "string") {
+			return substituteVars(value, vars, missing);
+		}
+		if (Array.isArray(value)) {
+			return value.map(render);
+		}
+		if (typeof value === "object" && value !== null) {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, entry]) => [
+					substituteVars(key, vars, missing),
+					render(entry),
+				]),
+			);
+		}
+		return value;
+	};
+
+	const rendered = render(template) as T;
+	if (missing.size > 0) {
+		throw new Error(`Unresolved template placeholders: ${[...missing].join(", ")}`);
 	}
-	return result;
+	return rendered;
 }
 
 /**
- * Load and process a template file
+ * Read a template file without substituting anything
  */
-export async function loadTemplate(
-	category: "networks" | "monitors" | "triggers",
-	name: string,
-	vars?: TemplateVars,
-): Promise<Record<string, unknown>> {
+async function readTemplate(category: TemplateCategory, name: string): Promise<unknown> {
 	const templatePath = join(TEMPLATES_DIR, category, `${name}.json`);
-	const file = Bun.file(templatePath);
-	const content = await file.text();
+	return JSON.parse(await Bun.file(templatePath).text());
+}
 
-	if (vars) {
-		const processed = substituteVars(content, vars);
-		return JSON.parse(processed);
+/**
+ * Check a generated config against OZ Monitor's schema, throwing on any problem
+ */
+function validateGenerated<T>(category: TemplateCategory, name: string, config: T): T {
+	const issues = VALIDATORS[category](config);
+	if (issues.length > 0) {
+		throw new Error(
+			`Generated ${category} config "${name}" is invalid:\n  ${formatSchemaIssues(issues).join("\n  ")}`,
+		);
 	}
+	return config;
+}
 
-	return JSON.parse(content);
+/**
+ * Load a template file, substitute variables and validate the result
+ */
+export async function loadTemplate(
+	category: TemplateCategory,
+	name: string,
+	vars?: TemplateVars,
+): Promise<Record<string, unknown>> {
+	const template = await readTemplate(category, name);
+	// Without variables any placeholder is unresolved
+	const rendered = renderTemplate(template, vars ?? ({} as TemplateVars));
+	return validateGenerated(category, name, rendered as Record<string, unknown>);
 }
 
 /**
@@ -43,50 +132,112 @@ export function generateTriggerId(tool: string, notificationType: string): strin
 	return `${tool}_${notificationType}_${timestamp}`;
 }
 
+/**
+ * Short display label for a set of contracts, e.g. "USDC, EURC +2 more"
+ */
+export function describeContracts(contracts: ContractTarget[], maxNames: number = 3): string {
+	const labels = contracts.map((c) => c.name || `${c.address.slice(0, 12)}...`);
+	if (labels.length <= maxNames) {
+		return labels.join(", ");
+	}
+	return `${labels.slice(0, maxNames).join(", ")} +${labels.length - maxNames} more`;
+}
+
+/**
+ * Build the template variables that describe a monitor, as used in alert messages
+ */
+export function buildMessageVars(
+	tool: string,
+	userConfig: UserConfig,
+	networkPreset: { slug: string; name: string },
+): MessageVars {
+	const contractNames = describeContracts(userConfig.contracts);
+	return {
+		NETWORK_SLUG: networkPreset.slug,
+		NETWORK_NAME: networkPreset.name,
+		CONTRACT_ADDRESS: userConfig.contracts[0]?.address ?? "",
+		CONTRACT_NAME: contractNames,
+		THRESHOLD: userConfig.threshold,
+		THRESHOLD_DISPLAY: formatThreshold(userConfig.threshold, userConfig.token),
+		MONITOR_NAME: `${tool.charAt(0).toUpperCase() + tool.slice(1).replace("-", " ")} - ${contractNames}`,
+	};
+}
+
+/**
+ * Fill in a config's alert message and format it for a channel
+ */
+export function renderMessage(
+	userConfig: UserConfig,
+	vars: MessageVars,
+	channel: MessageChannel = userConfig.notificationType,
+): AlertMessage {
+	const message = resolveMessage(userConfig);
+	const missing = new Set<string>();
+	const render = (text: string) =>
+		formatForChannel(substituteVars(text, vars as TemplateVars, missing), channel);
+
+	const rendered = { title: render(message.title), body: render(message.body) };
+	if (missing.size > 0) {
+		throw new Error(`Unknown placeholders in the alert message: ${[...missing].join(", ")}`);
+	}
+	return rendered;
+}
+
 /**
  * Build template variables from user config
  */
 export function buildTemplateVars(
 	tool: string,
-	userConfig: {
-		network: string;
-		contractAddress: string;
-		contractName?: string;
-		threshold: string;
-		notificationType: string;
-		webhookUrl: string;
-	},
+	userConfig: UserConfig,
 	networkPreset: { slug: string; name: string },
 ): TemplateVars {
-	const triggerId = generateTriggerId(tool, userConfig.notificationType);
-	const monitorName = `${tool.charAt(0).toUpperCase() + tool.slice(1).replace("-", " ")} - ${userConfig.contractName || userConfig.contractAddress.slice(0, 8)}`;
+	const messageVars = buildMessageVars(tool, userConfig, networkPreset);
+	const message = renderMessage(userConfig, messageVars);
 
 	const vars: TemplateVars = {
-		NETWORK_SLUG: networkPreset.slug,
-		NETWORK_NAME: networkPreset.name,
-		CONTRACT_ADDRESS: userConfig.contractAddress,
-		CONTRACT_NAME: userConfig.contractName || `${userConfig.contractAddress.slice(0, 12)}...`,
-		THRESHOLD: userConfig.threshold,
-		WEBHOOK_URL: userConfig.webhookUrl,
-		TRIGGER_ID: triggerId,
+		...messageVars,
+		WEBHOOK_URL_ENV:
+			userConfig.notificationType === "telegram" ? "" : secretEnvFor(userConfig.webhookUrl),
+		TRIGGER_ID: generateTriggerId(tool, userConfig.notificationType),
 		TRIGGER_TYPE: userConfig.notificationType,
-		MONITOR_NAME: monitorName,
+		MESSAGE_TITLE: message.title,
+		MESSAGE_BODY: message.body,
 	};
 
 	// Parse Telegram credentials if notification type is telegram
 	if (userConfig.notificationType === "telegram") {
+		let telegramConfig: { token?: string; chatId?: string } = {};
 		try {
-			const telegramConfig = JSON.parse(userConfig.webhookUrl);
-			vars.TELEGRAM_TOKEN = telegramConfig.token;
-			vars.TELEGRAM_CHAT_ID = telegramConfig.chatId;
+			telegramConfig = JSON.parse(userConfig.webhookUrl);
 		} catch {
 			// If parsing fails, leave them undefined
 		}
+		if (telegramConfig.token) {
+			vars.TELEGRAM_TOKEN_ENV = secretEnvFor(telegramConfig.token);
+		}
+		vars.TELEGRAM_CHAT_ID = telegramConfig.chatId;
+	}
+
+	if (userConfig.notificationType === "webhook") {
+		vars.WEBHOOK_METHOD = userConfig.webhook?.method || "POST";
+		if (userConfig.webhook?.secret) {
+			vars.WEBHOOK_SECRET_ENV = secretEnvFor(userConfig.webhook.secret);
+		}
 	}
 
 	return vars;
 }
 
+/**
+ * Env var that carries a stored secret into the monitor process
+ */
+function secretEnvFor(value: string): string {
+	if (!isSecretRef(value)) {
+		throw new Error("Notification secrets must be in the secret store before generating triggers");
+	}
+	return secretEnvName(secretRefName(value));
+}
+
 /**
  * Build monitor configuration dynamically based on user selections
  */
@@ -95,7 +246,7 @@ export function buildMonitorConfig(userConfig: UserConfig, vars: TemplateVars):
 		name: vars.MONITOR_NAME,
 		networks: [vars.NETWORK_SLUG],
 		paused: false,
-		addresses: [{ address: vars.CONTRACT_ADDRESS }],
+		addresses: userConfig.contracts.map((contract) => ({ address: contract.address })),
 		match_conditions: {
 			events: [],
 			transactions: [],
@@ -105,29 +256,33 @@ export function buildMonitorConfig(userConfig: UserConfig, vars: TemplateVars):
 
 	const threshold = vars.THRESHOLD;
 	const monitorType = userConfig.monitorType || "events";
+	const networkType = getNetwork(userConfig.network)?.type ?? "Stellar";
+	const defaults = DEFAULT_CONDITIONS[networkType];
 
+	// Conditions without a comparable amount field match every occurrence
 	if (monitorType === "events") {
 		// Use selected events or fallback to default transfer
-		const events = userConfig.selectedEvents?.length
-			? userConfig.selectedEvents
-			: [{ signature: "transfer(Address,Address,i128)" }];
+		const events = userConfig.selectedEvents?.length ? userConfig.selectedEvents : [defaults.event];
 
 		monitorConfig.match_conditions.events = events.map((event) => ({
 			signature: event.signature,
-			// For token transfers, index 2 is typically the amount
-			expression: event.expression || `2 > ${threshold}`,
+			expression: resolveExpression(event.expression, () =>
+				buildAmountExpression(event, "event", networkType, threshold),
+			),
 		}));
 	} else if (monitorType === "functions") {
 		// Use selected functions
 		const functions = userConfig.selectedFunctions?.length
 			? userConfig.selectedFunctions
-			: [{ signature: "transfer(Address,Address,i128)" }];
+			: [defaults.function];
 
 		monitorConfig.match_conditions = {
 			...monitorConfig.match_conditions,
 			functions: functions.map((fn) => ({
 				signature: fn.signature,
-				expression: fn.expression || `amount > ${threshold}`,
+				expression: resolveExpression(fn.expression, () =>
+					buildAmountExpression(fn, "function", networkType, threshold),
+				),
 			})),
 		};
 	} else if (monitorType === "transactions") {
@@ -137,10 +292,112 @@ export function buildMonitorConfig(userConfig: UserConfig, vars: TemplateVars):
 		monitorConfig.match_conditions.transactions = [
 			{
 				status: txCondition.status || "Success",
-				expression: txCondition.expression || `value > ${threshold}`,
+				expression: resolveExpression(txCondition.expression, () => `value > ${threshold}`),
 			},
 		];
 	}
 
-	return monitorConfig;
+	return validateGenerated("monitors", vars.MONITOR_NAME, monitorConfig);
+}
+
+/**
+ * A condition's expression in the monitor: its own, none if it was saved empty to
+ * match every occurrence, or the threshold comparison if it has none
+ */
+function resolveExpression(
+	expression: string | undefined,
+	thresholdExpression: () => string | undefined,
+): string | undefined {
+	return expression === undefined ? thresholdExpression() : expression || undefined;
+}
+
+/**
+ * Build trigger configuration from the notification template and user settings
+ */
+export async function buildTriggerConfig(
+	userConfig: UserConfig,
+	vars: TemplateVars,
+): Promise<OZTriggerConfig> {
+	const template = (await readTemplate("triggers", userConfig.notificationType)) as OZTriggerConfig;
+
+	// Without a secret, OZ Monitor sends the payload unsigned
+	if (userConfig.notificationType === "webhook" && !userConfig.webhook?.secret) {
+		for (const entry of Object.values(template)) {
+			delete entry.config.secret;
+		}
+	}
+
+	const trigger = renderTemplate(template, vars);
+	const entry = trigger[vars.TRIGGER_ID];
+	if (entry && userConfig.notificationType === "webhook") {
+		// Custom headers extend the template defaults, and are data rather than template text
+		entry.config.headers = { ...entry.config.headers, ...userConfig.webhook?.headers };
+	}
+
+	return validateGenerated("triggers", userConfig.notificationType, trigger);
+}
+
+/**
+ * Convert RPC endpoints to OZ Monitor's rpc_urls
+ */
+function toRpcUrls(endpoints: RpcEndpoint[]): OZNetworkConfig["rpc_urls"] {
+	return endpoints.map(({ url, weight }) => ({
+		type_: "rpc",
+		url: { type: "plain", value: url },
+		weight,
+	}));
+}
+
+/**
+ * Build the network config: built-in networks come from their template,
+ * registry networks are generated from their definition
+ * Endpoints, e.g. as ranked by their health, replace the network's own RPCs
+ */
+export async function buildNetworkConfig(
+	network: NetworkPreset,
+	endpoints?: RpcEndpoint[],
+): Promise<OZNetworkConfig> {
+	if (!isCustomNetwork(network.slug)) {
+		const template = (await loadTemplate("networks", network.slug)) as unknown as OZNetworkConfig;
+		return endpoints ? { ...template, rpc_urls: toRpcUrls(endpoints) } : template;
+	}
+
+	const isStellar = network.type === "Stellar";
+	const config: OZNetworkConfig = {
+		network_type: network.type,
+		slug: network.slug,
+		name: network.name,
+		rpc_urls: toRpcUrls(endpoints ?? getRpcEndpoints(network)),
+		...(isStellar
+			? { network_passphrase: network.networkPassphrase }
+			: { chain_id: network.chainId }),
+		block_time_ms: network.blockTimeMs,
+		confirmation_blocks: network.confirmationBlocks ?? (isStellar ? 1 : 12),
+		cron_schedule: network.cronSchedule ?? "0 */1 * * * *",
+		max_past_blocks: network.maxPastBlocks ?? 20,
+		store_blocks: network.storeBlocks ?? isStellar,
+	};
+
+	return validateGenerated("networks", network.slug, config);
+}
+
+/**
+ * Generate the network, monitor and trigger configs for a user config
+ */
+export async function buildOZConfigs(
+	tool: string,
+	userConfig: UserConfig,
+	endpoints?: RpcEndpoint[],
+): Promise<{ network: OZNetworkConfig; monitor: OZMonitorConfig; trigger: OZTriggerConfig }> {
+	const networkPreset = getNetwork(userConfig.network);
+	if (!networkPreset) {
+		throw new Error(`Unknown network: ${userConfig.network}`);
+	}
+
+	const vars = buildTemplateVars(tool, userConfig, networkPreset);
+	return {
+		network: await buildNetworkConfig(networkPreset, endpoints),
+		monitor: buildMonitorConfig(userConfig, vars),
+		trigger: await buildTriggerConfig(userConfig, vars),
+	};
 }
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import type { TokenInfo } from "../types/index.js";
+import {
+	formatThreshold,
+	formatTokenAmount,
+	parseTokenAmount,
+	toBaseUnits,
+} from "./token-amount.js";
+
+const USDC: TokenInfo = { decimals: 7, symbol: "USDC" };
+
+describe("parseTokenAmount", () => {
+	test("scales whole and fractional amounts by the token's decimals", () => {
+		expect(parseTokenAmount("1", USDC)).toBe(10_000_000n);
+		expect(parseTokenAmount("1000", USDC)).toBe(10_000_000_000n);
+		expect(parseTokenAmount("0.5", USDC)).toBe(5_000_000n);
+	});
+
+	test("accepts separators, suffixes and the token's symbol", () => {
+		expect(parseTokenAmount("1,000", USDC)).toBe(10_000_000_000n);
+		expect(parseTokenAmount("1_000", USDC)).toBe(10_000_000_000n);
+		expect(parseTokenAmount("250k", USDC)).toBe(2_500_000_000_000n);
+		expect(parseTokenAmount("1.5m", USDC)).toBe(15_000_000_000_000n);
+		expect(parseTokenAmount("1000 usdc", USDC)).toBe(10_000_000_000n);
+	});
+
+	test("rejects another token's symbol", () => {
+		expect(() => parseTokenAmount("1000 EURC", USDC)).toThrow("the token is USDC");
+	});
+
+	test("rejects more precision than the decimals allow", () => {
+		expect(() => parseTokenAmount("0.00000001", USDC)).toThrow("7 decimals");
+		expect(parseTokenAmount("0.0000001k", USDC)).toBe(1_000n);
+	});
+
+	test("rejects input that isn't an amount", () => {
+		expect(() => parseTokenAmount("lots", USDC)).toThrow("Invalid amount");
+		expect(() => parseTokenAmount("-5", USDC)).toThrow("Invalid amount");
+	});
+});
+
+describe("toBaseUnits", () => {
+	test("reads plain integers in token units when the decimals are known", () => {
+		expect(toBaseUnits("1000", USDC)).toBe("10000000000");
+		expect(toBaseUnits("1000", USDC)).toBe(toBaseUnits("1,000", USDC));
+		expect(toBaseUnits("1000", USDC)).toBe(toBaseUnits("1000 USDC", USDC));
+	});
+
+	test("takes the input as it is when asked for base units", () => {
+		expect(toBaseUnits(" 1000 ", USDC, { baseUnits: true })).toBe("1000");
+		expect(() => toBaseUnits("1.5", USDC, { baseUnits: true })).toThrow("whole number");
+		expect(() => toBaseUnits("250k", USDC, { baseUnits: true })).toThrow("whole number");
+	});
+
+	test("requires base units to be asked for when the decimals are unknown", () => {
+		// A plain integer would otherwise switch units depending on whether the RPC answered
+		expect(() => toBaseUnits("1000")).toThrow("--threshold-base-units");
+		expect(() => toBaseUnits("250k")).toThrow("decimals are unknown");
+		expect(toBaseUnits("1000", undefined, { baseUnits: true })).toBe("1000");
+	});
+});
+
+describe("formatTokenAmount", () => {
+	test("groups digits and trims trailing zeros", () => {
+		expect(formatTokenAmount(12_345_675_000_000n, USDC)).toBe("1,234,567.5 USDC");
+		expect(formatTokenAmount("5", USDC)).toBe("0.0000005 USDC");
+		expect(formatTokenAmount("-10000000", { decimals: 7 })).toBe("-1");
+	});
+
+	test("round-trips parsed amounts", () => {
+		expect(formatTokenAmount(parseTokenAmount("250k", USDC), USDC)).toBe("250,000 USDC");
+	});
+});
+
+describe("formatThreshold", () => {
+	test("falls back to base units without a token", () => {
+		expect(formatThreshold("1000")).toBe("1000 (base units)");
+		expect(formatThreshold("10000000", USDC)).toBe("1 USDC");
+	});
+});
@@ -0,0 +1,117 @@
+import type { ContractTarget, TokenInfo } from "../types/index.js";
+import { fetchTokenMetadata } from "./contract-inspector.js";
+
+const SUFFIXES: Record<string, number> = { k: 3, m: 6, b: 9 };
+
+/**
+ * Parse a human amount such as "250k USDC", "1,000.5" or "1.5m" into base units
+ */
+export function parseTokenAmount(input: string, token: TokenInfo): bigint {
+	let text = input.trim().replace(/[,_\s](?=\d)/g, "");
+
+	// Optional trailing symbol, which must match the token's
+	const symbolMatch = text.match(/([A-Za-z][A-Za-z0-9]*)$/);
+	if (symbolMatch?.[1] && /^[\d.]/.test(text) && !/^[kmb]$/i.test(symbolMatch[1])) {
+		const symbol = symbolMatch[1];
+		if (token.symbol && symbol.toUpperCase() !== token.symbol.toUpperCase()) {
+			throw new Error(`Amount is in ${symbol}, but the token is ${token.symbol}`);
+		}
+		text = text.slice(0, -symbolMatch[1].length);
+	}
+
+	const match = text.trim().match(/^(\d+)(?:\.(\d+))?\s*([kmb])?$/i);
+	if (!match?.[1]) {
+		throw new Error(`Invalid amount "${input}", e.g. 250k, 1,000.5 or 1.5m`);
+	}
+
+	const [, whole, fraction = "", suffix] = match;
+	const scale = token.decimals + (suffix ? (SUFFIXES[suffix.toLowerCase()] ?? 0) : 0);
+	if (fraction.length > scale) {
+		throw new Error(
+			`Amount "${input}" has more precision than the token's ${token.decimals} decimals`,
+		);
+	}
+
+	return BigInt(whole + fraction.padEnd(scale, "0"));
+}
+
+/**
+ * Format base units as a human amount, e.g. "250,000.5 USDC"
+ */
+export function formatTokenAmount(baseUnits: string | bigint, token: TokenInfo): string {
+	const value = BigInt(baseUnits);
+	const negative = value < 0n;
+	const digits = (negative ? -value : value).toString().padStart(token.decimals + 1, "0");
+
+	const whole = digits.slice(0, digits.length - token.decimals);
+	const fraction = digits.slice(digits.length - token.decimals).replace(/0+$/, "");
+
+	const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+	const amount = `${negative ? "-" : ""}${grouped}${fraction ? `.${fraction}` : ""}`;
+	return token.symbol ? `${amount} ${token.symbol}` : amount;
+}
+
+/**
+ * Describe a threshold for display, in human units when the token is known
+ */
+export function formatThreshold(threshold: string, token?: TokenInfo): string {
+	if (!token || !/^\d+$/.test(threshold)) {
+		return `${threshold} (base units)`;
+	}
+	return formatTokenAmount(threshold, token);
+}
+
+/**
+ * Check whether a threshold is a plain integer, as base units must be
+ */
+export function isBaseUnits(input: string): boolean {
+	return /^\d+$/.test(input.trim());
+}
+
+/**
+ * Convert a threshold to base units
+ *
+ * Amounts are read in token units, so "1000" means 1,000 tokens, and base units
+ * are only taken as they are when asked for with baseUnits. Without the token's
+ * decimals nothing can be read in token units, so that is an error rather than a
+ * quiet switch to base units: the same command would otherwise mean amounts
+ * 10^decimals apart depending on whether the RPC answered.
+ */
+export function toBaseUnits(
+	input: string,
+	token?: TokenInfo,
+	options: { baseUnits?: boolean } = {},
+): string {
+	if (options.baseUnits) {
+		if (!isBaseUnits(input)) {
+			throw new Error(`Invalid threshold "${input}": base units must be a whole number`);
+		}
+		return input.trim();
+	}
+	if (!token) {
+		throw new Error(
+			`Cannot read threshold "${input}" in token units: the token's decimals are unknown. Give it in base units with --threshold-base-units`,
+		);
+	}
+	return parseTokenAmount(input, token).toString();
+}
+
+/**
+ * Look up the token shared by all watched contracts
+ * Returns undefined when a contract isn't a token or their decimals differ, since a
+ * single threshold can't then be expressed in human units
+ */
+export async function resolveTokenInfo(
+	contracts: ContractTarget[],
+	network: string,
+): Promise<TokenInfo | undefined> {
+	const tokens = await Promise.all(contracts.map((c) => fetchTokenMetadata(c.address, network)));
+	const [first] = tokens;
+	if (!first || tokens.some((token) => token?.decimals !== first.decimals)) {
+		return undefined;
+	}
+
+	// Mixed symbols (e.g. USDC and EURC) are shown without one
+	const sameSymbol = tokens.every((token) => token?.symbol === first.symbol);
+	return { decimals: first.decimals, symbol: sameSymbol ? first.symbol : undefined };
+}
@@ -94,6 +94,7 @@ export function keyValue(key: string, value: string, keyWidth: number = 12): voi
 export const prompts = {
 	select: p.select,
 	text: p.text,
+	password: p.password,
 	confirm: p.confirm,
 	multiselect: p.multiselect,
 	group: p.group,
@@ -0,0 +1,51 @@
+import type { WebhookMethod } from "../types/index.js";
+
+/**
+ * HTTP methods supported by OZ Monitor webhook triggers
+ */
+export const WEBHOOK_METHODS: WebhookMethod[] = ["POST", "PUT", "PATCH"];
+
+/**
+ * Check that a string is an absolute http(s) URL
+ */
+export function isValidWebhookUrl(input: string): boolean {
+	try {
+		const url = new URL(input);
+		return url.protocol === "https:" || url.protocol === "http:";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check that a string is a supported webhook method
+ */
+export function isWebhookMethod(input: string): input is WebhookMethod {
+	return WEBHOOK_METHODS.includes(input as WebhookMethod);
+}
+
+/**
+ * Parse "Name: value" header entries, separated by newlines or ";"
+ */
+export function parseHeaders(input: string | string[]): Record<string, string> {
+	const entries = Array.isArray(input) ? input : input.split(/[;\n]/);
+	const headers: Record<string, string> = {};
+
+	for (const entry of entries) {
+		if (!entry.trim()) continue;
+
+		const separator = entry.indexOf(":");
+		if (separator <= 0) {
+			throw new Error(`Invalid header "${entry.trim()}", expected "Name: value"`);
+		}
+
+		const name = entry.slice(0, separator).trim();
+		const value = entry.slice(separator + 1).trim();
+		if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name)) {
+			throw new Error(`Invalid header name "${name}"`);
+		}
+		headers[name] = value;
+	}
+
+	return headers;
+}
@@ -1,13 +1,61 @@
-import type { MatchCondition, MonitorType, UserConfig } from "../types/index.js";
-import { NETWORK_PRESETS } from "./config-manager.js";
+import type {
+	ContractTarget,
+	MatchCondition,
+	MatchParam,
+	MonitorType,
+	NetworkPreset,
+	TokenInfo,
+	UserConfig,
+	WebhookOptions,
+} from "../types/index.js";
+import { getCommonErc20Events } from "./abi-inspector.js";
+import { DEFAULT_PROFILE, isValidProfileName } from "./config-manager.js";
 import {
 	type ContractEvent,
 	type ContractFunction,
 	type ContractSpec,
 	fetchContractSpec,
 	getCommonTokenEvents,
+	intersectContractSpecs,
+	isValidContractAddress,
 } from "./contract-inspector.js";
+import {
+	buildExpression,
+	type ConditionOperator,
+	describeCondition,
+	type ExpressionCondition,
+	type ExpressionJoiner,
+	OPERATORS,
+	operatorsForType,
+	paramRef,
+	parseValueList,
+	validateConditionValue,
+} from "./expression-builder.js";
+import { type LintContext, lintExpression } from "./expression-parser.js";
+import {
+	findAmountField,
+	getConditionParams,
+	getMatchWarnings,
+	type MatchKind,
+} from "./match-conditions.js";
+import {
+	decodeMessageLine,
+	defaultMessage,
+	encodeMessageLine,
+	getMessagePlaceholders,
+	getMessageVariables,
+	lintMessage,
+} from "./message-template.js";
+import { getNetwork, getNetworks } from "./network-registry.js";
+import { describeContracts } from "./template-engine.js";
+import {
+	formatThreshold,
+	formatTokenAmount,
+	parseTokenAmount,
+	resolveTokenInfo,
+} from "./token-amount.js";
 import { handleCancel, log, note, prompts, spinner } from "./ui.js";
+import { isValidWebhookUrl, parseHeaders, WEBHOOK_METHODS } from "./webhook.js";
 
 /**
  * Whale Alert wizard prompts
@@ -16,54 +64,42 @@ export async function whaleAlertWizard(): Promise<UserConfig> {
 	// Network selection
 	const network = await prompts.select({
 		message: "Which network?",
-		options: [
-			{ value: "stellar_mainnet", label: "Stellar Mainnet" },
-			{ value: "stellar_testnet", label: "Stellar Testnet" },
-		],
+		options: Object.values(getNetworks()).map((preset) => ({
+			value: preset.slug,
+			label: preset.name,
+			hint: preset.type,
+		})),
 		initialValue: "stellar_mainnet",
 	});
 	handleCancel(network);
 
-	// Contract address
-	const contractAddress = await prompts.text({
-		message: "Contract address to watch:",
-		validate: (input) => {
-			if (!input.trim()) {
-				return "Contract address is required";
-			}
-		},
-	});
-	handleCancel(contractAddress);
-
-	// Contract name (optional)
-	const contractName = await prompts.text({
-		message: "Contract name (optional, for display):",
-		placeholder: "Leave empty to skip",
-	});
-	handleCancel(contractName);
+	const networkType = getNetwork(network as string)?.type ?? "Stellar";
 
-	// Fetch contract spec for introspection
-	const introspectionResult = await fetchContractInterface(
-		contractAddress as string,
-		network as string,
-	);
+	// Contracts to watch, introspected one by one
+	const contracts = await promptContracts(networkType);
+	const introspectionResult = await fetchContractInterfaces(contracts, network as string);
 
 	// Select what to monitor and get selected items
-	const { monitorType, selectedEvents, selectedFunctions } =
-		await selectMonitorTargets(introspectionResult);
-
-	// Alert threshold (for the expression filter)
-	const threshold = await prompts.text({
-		message: "Alert threshold (minimum transfer amount):",
-		initialValue: "1000000",
-		validate: (input) => {
-			const num = parseInt(input, 10);
-			if (Number.isNaN(num) || num <= 0) {
-				return "Please enter a valid positive number";
-			}
-		},
-	});
-	handleCancel(threshold);
+	const targets = await selectMonitorTargets(introspectionResult, networkType);
+	const { monitorType } = targets;
+
+	// Alert threshold (for the expression filter), in human units when the token is known
+	const token = await fetchTokenInfo(contracts, network as string);
+	const threshold = await promptThreshold(token);
+
+	// Optional custom filters on top of the threshold
+	const selectedEvents = await promptCustomFilters(
+		targets.selectedEvents,
+		"event",
+		networkType,
+		threshold,
+	);
+	const selectedFunctions = await promptCustomFilters(
+		targets.selectedFunctions,
+		"function",
+		networkType,
+		threshold,
+	);
 
 	// Notification type
 	const notificationType = await prompts.select({
@@ -72,6 +108,7 @@ export async function whaleAlertWizard(): Promise<UserConfig> {
 			{ value: "discord", label: "Discord" },
 			{ value: "telegram", label: "Telegram" },
 			{ value: "slack", label: "Slack" },
+			{ value: "webhook", label: "Webhook", hint: "any HTTP endpoint" },
 		],
 		initialValue: "discord",
 	});
@@ -79,6 +116,7 @@ export async function whaleAlertWizard(): Promise<UserConfig> {
 
 	// Get webhook/bot details based on notification type
 	let webhookUrl = "";
+	let webhook: WebhookOptions | undefined;
 
 	if (notificationType === "discord") {
 		const discordWebhook = await prompts.text({
@@ -128,55 +166,517 @@ export async function whaleAlertWizard(): Promise<UserConfig> {
 		});
 		handleCancel(slackWebhook);
 		webhookUrl = slackWebhook as string;
+	} else if (notificationType === "webhook") {
+		const result = await promptWebhook();
+		webhookUrl = result.url;
+		webhook = result.options;
 	}
 
-	return {
+	const config: UserConfig = {
 		network: network as string,
-		contractAddress: contractAddress as string,
-		contractName: (contractName as string) || undefined,
-		threshold: threshold as string,
+		contracts,
+		threshold,
+		token,
 		notificationType: notificationType as UserConfig["notificationType"],
 		webhookUrl,
+		webhook,
 		monitorType,
 		selectedEvents,
 		selectedFunctions,
 	};
+
+	// Optional custom alert message, once the monitor type and channel are known
+	config.message = await promptMessage(config);
+	return config;
 }
 
 /**
- * Fetch contract interface with spinner
+ * Optionally customize the alert title and body, returning only the parts that changed
  */
-async function fetchContractInterface(
-	contractAddress: string,
+async function promptMessage(config: UserConfig): Promise<UserConfig["message"]> {
+	const customize = await prompts.confirm({
+		message: "Customize the alert message?",
+		initialValue: false,
+	});
+	handleCancel(customize);
+	if (!customize) {
+		return undefined;
+	}
+
+	const variables = [
+		...getMessagePlaceholders().map((variable) => `{{${variable.name}}}  ${variable.description}`),
+		...getMessageVariables(config).map(
+			(variable) => `\${${variable.name}}  ${variable.description}`,
+		),
+	];
+	note(
+		`${variables.join("\n")}\n\nUse **bold** and \`code\`, they are converted for ${config.notificationType}.\nWrite \\n for a line break.`,
+		"Message variables",
+	);
+
+	const defaults = defaultMessage(config);
+	const validate = (part: "title" | "body") => (input: string) =>
+		lintMessage({ [part]: decodeMessageLine(input) }, config).errors[0];
+
+	const title = await prompts.text({
+		message: "Alert title:",
+		initialValue: defaults.title,
+		validate: validate("title"),
+	});
+	handleCancel(title);
+
+	const body = await prompts.text({
+		message: "Alert body:",
+		initialValue: encodeMessageLine(defaults.body),
+		validate: validate("body"),
+	});
+	handleCancel(body);
+
+	const message = {
+		title: title === defaults.title ? undefined : (title as string),
+		body:
+			decodeMessageLine(body as string) === defaults.body
+				? undefined
+				: decodeMessageLine(body as string),
+	};
+	for (const warning of lintMessage(message, config).warnings) {
+		log.warn(warning);
+	}
+
+	return message.title || message.body ? message : undefined;
+}
+
+/**
+ * Read decimals and symbol for the watched contracts, with a spinner
+ */
+async function fetchTokenInfo(
+	contracts: ContractTarget[],
 	network: string,
-): Promise<ContractSpec | null> {
-	const networkPreset = NETWORK_PRESETS[network];
+): Promise<TokenInfo | undefined> {
+	const s = spinner();
+	s.start("Reading token decimals...");
+	const token = await resolveTokenInfo(contracts, network);
+
+	if (token) {
+		s.stop(`Token uses ${token.decimals} decimals${token.symbol ? ` (${token.symbol})` : ""}`);
+	} else {
+		s.stop("Could not read token decimals");
+		log.warn(
+			contracts.length > 1
+				? "The contracts don't share the same decimals, enter the threshold in base units."
+				: "Enter the threshold in base units (the token's smallest unit).",
+		);
+	}
+	return token;
+}
+
+/**
+ * Prompt for the alert threshold, returning it in base units
+ */
+async function promptThreshold(token?: TokenInfo): Promise<string> {
+	if (!token) {
+		const threshold = await prompts.text({
+			message: "Alert threshold in base units (minimum transfer amount):",
+			initialValue: "1000000",
+			validate: (input) => {
+				if (!/^\d+$/.test(input.trim()) || BigInt(input.trim()) <= 0n) {
+					return "Please enter a positive integer";
+				}
+			},
+		});
+		handleCancel(threshold);
+		return (threshold as string).trim();
+	}
+
+	const unit = token.symbol ?? "tokens";
+	const threshold = await prompts.text({
+		message: `Alert threshold in ${unit} (e.g. 250k, 1,000.5):`,
+		initialValue: "10k",
+		validate: (input) => {
+			try {
+				if (parseTokenAmount(input, token) <= 0n) {
+					return "Please enter an amount above zero";
+				}
+			} catch (error) {
+				return error instanceof Error ? error.message : "Invalid amount";
+			}
+		},
+	});
+	handleCancel(threshold);
+
+	const baseUnits = parseTokenAmount(threshold as string, token);
+	log.info(`Threshold: ${formatTokenAmount(baseUnits, token)} = ${baseUnits} base units`);
+	return baseUnits.toString();
+}
+
+/**
+ * Offer to build custom filter expressions for the selected events or functions
+ */
+async function promptCustomFilters(
+	conditions: MatchCondition[] | undefined,
+	kind: MatchKind,
+	networkType: NetworkPreset["type"],
+	threshold: string,
+): Promise<MatchCondition[] | undefined> {
+	if (!conditions?.length) {
+		return conditions;
+	}
+
+	const wantsFilters = await prompts.confirm({
+		message: "Add custom filter conditions (e.g. sender, recipient, amount range)?",
+		initialValue: false,
+	});
+	handleCancel(wantsFilters);
+	if (!wantsFilters) {
+		return conditions;
+	}
 
-	// Skip for non-Stellar networks
-	if (networkPreset?.type !== "Stellar") {
+	const filtered: MatchCondition[] = [];
+	for (const condition of conditions) {
+		const expression = await promptExpression(condition, kind, networkType, threshold);
+		filtered.push({ ...condition, expression });
+	}
+	return filtered;
+}
+
+/**
+ * Build an expression for one event or function from its parameters, with a live preview
+ */
+async function promptExpression(
+	condition: MatchCondition,
+	kind: MatchKind,
+	networkType: NetworkPreset["type"],
+	threshold: string,
+): Promise<string> {
+	const params = getConditionParams(condition, kind, networkType);
+	const conditions: ExpressionCondition[] = [];
+	let joiner: ExpressionJoiner = "AND";
+
+	// Start from the threshold condition, which can be removed like any other
+	const amountField = findAmountField(condition, kind, networkType);
+	if (amountField) {
+		conditions.push({ ...amountField, operator: "gt", values: [threshold] });
+	}
+
+	log.step(`Filters for ${condition.signature}`);
+
+	let done = false;
+	while (!done) {
+		note(
+			conditions.length > 0
+				? `${conditions.map(describeCondition).join(`\n${joiner} `)}\n\n${buildExpression(conditions, joiner)}`
+				: "No conditions, every occurrence matches",
+			"Expression preview",
+		);
+
+		const action = await prompts.select({
+			message: "Next step:",
+			options: [
+				{ value: "add", label: "Add a condition" },
+				...(conditions.length > 1
+					? [
+							{
+								value: "joiner",
+								label: `Join with ${joiner === "AND" ? "OR" : "AND"} instead`,
+								hint: `currently ${joiner}`,
+							},
+						]
+					: []),
+				...(conditions.length > 0 ? [{ value: "remove", label: "Remove a condition" }] : []),
+				{ value: "write", label: "Write the expression by hand" },
+				{ value: "done", label: "Save expression" },
+			],
+			initialValue: "add",
+		});
+		handleCancel(action);
+
+		if (action === "add") {
+			const added = await promptCondition(params, kind, networkType);
+			if (added) conditions.push(added);
+		} else if (action === "joiner") {
+			joiner = joiner === "AND" ? "OR" : "AND";
+		} else if (action === "remove") {
+			const index = await prompts.select({
+				message: "Remove which condition?",
+				options: conditions.map((c, i) => ({ value: i, label: describeCondition(c) })),
+			});
+			handleCancel(index);
+			conditions.splice(index as number, 1);
+		} else if (action === "write") {
+			return promptRawExpression(conditions.length > 0 ? buildExpression(conditions, joiner) : "", {
+				kind,
+				networkType,
+				params,
+			});
+		} else {
+			done = true;
+		}
+	}
+
+	// Empty rather than unset, which would bring back the threshold condition
+	return conditions.length > 0 ? buildExpression(conditions, joiner) : "";
+}
+
+/**
+ * Prompt for a hand-written expression, linted against the signature's parameters
+ * Returns an empty expression to match every occurrence
+ */
+async function promptRawExpression(initialValue: string, context: LintContext): Promise<string> {
+	const expression = await prompts.text({
+		message: "Expression (leave empty to match every occurrence):",
+		initialValue,
+		validate: (input) => {
+			if (!input.trim()) return;
+			return lintExpression(input, context).errors[0];
+		},
+	});
+	handleCancel(expression);
+
+	const trimmed = (expression as string).trim();
+	for (const warning of trimmed ? lintExpression(trimmed, context).warnings : []) {
+		log.warn(warning);
+	}
+	return trimmed;
+}
+
+/**
+ * Prompt for a single condition: parameter, operator and value(s)
+ */
+async function promptCondition(
+	params: MatchParam[],
+	kind: MatchKind,
+	networkType: NetworkPreset["type"],
+): Promise<ExpressionCondition | null> {
+	// Parameters without a name can only be referenced by position in Stellar events
+	const referable = params
+		.map((param, index) => ({ param, ref: paramRef(param, index, kind, networkType) }))
+		.filter(({ ref }) => ref);
+	if (referable.length === 0) {
+		log.warn("This signature has no parameters that can be referenced in an expression.");
 		return null;
 	}
 
+	const selected = await prompts.select({
+		message: "Parameter:",
+		options: referable.map(({ param, ref }, i) => ({
+			value: i,
+			label: param.name || `arg ${ref}`,
+			hint: [param.type, param.location].filter(Boolean).join(", "),
+		})),
+	});
+	handleCancel(selected);
+	const { param, ref } = referable[selected as number] ?? {};
+	if (!param || !ref) return null;
+
+	const operator = await prompts.select({
+		message: `${param.name || `arg ${ref}`} (${param.type}):`,
+		options: operatorsForType(param.type).map((op) => ({ value: op, label: OPERATORS[op].label })),
+	});
+	handleCancel(operator);
+
+	const { arity } = OPERATORS[operator as ConditionOperator];
+	const values: string[] = [];
+
+	if (arity === 0) {
+		const list = await prompts.text({
+			message: "Values (comma-separated):",
+			validate: (input) => {
+				const entries = parseValueList(input);
+				if (entries.length === 0) return "Enter at least one value";
+				return entries.map((entry) => validateConditionValue(entry, param)).find(Boolean);
+			},
+		});
+		handleCancel(list);
+		values.push(...parseValueList(list as string));
+	} else {
+		for (const label of arity === 2 ? ["From:", "To:"] : ["Value:"]) {
+			const value = await prompts.text({
+				message: label,
+				validate: (input) => validateConditionValue(input, param),
+			});
+			handleCancel(value);
+			values.push((value as string).trim());
+		}
+	}
+
+	return { ref, param, operator: operator as ConditionOperator, values };
+}
+
+/**
+ * Prompt for generic HTTP webhook settings
+ */
+async function promptWebhook(): Promise<{ url: string; options: WebhookOptions }> {
+	const url = await prompts.text({
+		message: "Webhook URL:",
+		validate: (input) => {
+			if (!isValidWebhookUrl(input)) {
+				return "Please enter a valid http(s) URL";
+			}
+		},
+	});
+	handleCancel(url);
+
+	const method = await prompts.select({
+		message: "HTTP method:",
+		options: WEBHOOK_METHODS.map((m) => ({ value: m, label: m })),
+		initialValue: "POST",
+	});
+	handleCancel(method);
+
+	const headers = await prompts.text({
+		message: "Custom headers (optional):",
+		placeholder: "Authorization: Bearer xyz; X-Team: ops",
+		validate: (input) => {
+			try {
+				parseHeaders(input);
+			} catch (error) {
+				return error instanceof Error ? error.message : String(error);
+			}
+		},
+	});
+	handleCancel(headers);
+
+	const secret = await prompts.password({
+		message: "Signing secret (optional, leave empty to send unsigned):",
+	});
+	handleCancel(secret);
+
+	const parsedHeaders = parseHeaders((headers as string) || "");
+
+	return {
+		url: url as string,
+		options: {
+			method: method as WebhookOptions["method"],
+			headers: Object.keys(parsedHeaders).length ? parsedHeaders : undefined,
+			secret: (secret as string) || undefined,
+		},
+	};
+}
+
+/**
+ * Prompt for one or more contracts to watch, each with an optional display name
+ */
+async function promptContracts(networkType: NetworkPreset["type"]): Promise<ContractTarget[]> {
+	const contracts: ContractTarget[] = [];
+	let addAnother = true;
+
+	while (addAnother) {
+		const first = contracts.length === 0;
+
+		// Contract address
+		const address = await prompts.text({
+			message: first ? "Contract address to watch:" : "Next contract address:",
+			placeholder: networkType === "EVM" ? "0x..." : "C...",
+			validate: (input) => {
+				const trimmed = input.trim();
+				if (!trimmed) {
+					return "Contract address is required";
+				}
+				if (!isValidContractAddress(trimmed, networkType)) {
+					return `Please enter a valid ${networkType} contract address`;
+				}
+				if (contracts.some((c) => c.address.toLowerCase() === trimmed.toLowerCase())) {
+					return "This contract is already in the list";
+				}
+			},
+		});
+		handleCancel(address);
+
+		// Contract name (optional)
+		const name = await prompts.text({
+			message: "Contract name (optional, for display):",
+			placeholder: "Leave empty to skip",
+		});
+		handleCancel(name);
+
+		// EVM contracts are introspected from their ABI
+		let abiSource: string | undefined;
+		if (networkType === "EVM") {
+			const source = await prompts.text({
+				message: "ABI JSON file or URL (optional):",
+				placeholder: "Leave empty to fetch the verified ABI from the explorer",
+			});
+			handleCancel(source);
+			abiSource = (source as string)?.trim() || undefined;
+		}
+
+		contracts.push({
+			address: (address as string).trim(),
+			name: (name as string)?.trim() || undefined,
+			abiSource,
+		});
+
+		const another = await prompts.confirm({
+			message: "Watch another contract in the same monitor?",
+			initialValue: false,
+		});
+		handleCancel(another);
+		addAnother = another as boolean;
+	}
+
+	return contracts;
+}
+
+/**
+ * Fetch every contract's interface with a spinner, keeping only what they have in common
+ */
+async function fetchContractInterfaces(
+	contracts: ContractTarget[],
+	network: string,
+): Promise<ContractSpec | null> {
 	const s = spinner();
-	s.start("Fetching contract interface...");
+	const specs: ContractSpec[] = [];
+	const failures: string[] = [];
+
+	for (const [index, contract] of contracts.entries()) {
+		const label = contract.name || contract.address.slice(0, 12);
+		s.start(
+			contracts.length > 1
+				? `Fetching contract interface ${index + 1}/${contracts.length} (${label})...`
+				: "Fetching contract interface...",
+		);
+
+		const result = await fetchContractSpec(contract.address, network, {
+			abiSource: contract.abiSource,
+		});
+
+		if (result.success) {
+			const { functions, events } = result.spec;
+			s.stop(`${label}: found ${functions.length} functions, ${events.length} events`);
+			specs.push(result.spec);
+		} else {
+			s.stop(`Could not fetch contract spec for ${label}: ${result.error}`);
+			failures.push(label);
+		}
+	}
 
-	const result = await fetchContractSpec(contractAddress, network);
+	if (specs.length === 0) {
+		log.warn("Falling back to manual input or common token events");
+		return null;
+	}
+
+	if (failures.length > 0) {
+		log.warn("Only offering signatures of the contracts that could be inspected");
+	}
 
-	if (result.success) {
-		const { functions, events } = result.spec;
-		s.stop(`Found ${functions.length} functions, ${events.length} events`);
-		return result.spec;
+	if (specs.length === 1) {
+		return specs[0] ?? null;
 	}
 
-	s.stop(`Could not fetch contract spec: ${result.error}`);
-	log.warn("Falling back to manual input or common token events");
-	return null;
+	const common = intersectContractSpecs(specs);
+	log.info(
+		`${common.functions.length} functions and ${common.events.length} events are shared by all contracts`,
+	);
+	return common;
 }
 
 /**
  * Select what to monitor and which items
  */
-async function selectMonitorTargets(spec: ContractSpec | null): Promise<{
+async function selectMonitorTargets(
+	spec: ContractSpec | null,
+	networkType: NetworkPreset["type"],
+): Promise<{
 	monitorType: MonitorType;
 	selectedEvents?: MatchCondition[];
 	selectedFunctions?: MatchCondition[];
@@ -214,11 +714,12 @@ async function selectMonitorTargets(spec: ContractSpec | null): Promise<{
 
 	// Get available items based on spec or fallback
 	if (selectedMonitorType === "events") {
-		const events = spec?.events.length ? spec.events : getCommonTokenEvents();
+		const fallbackEvents = networkType === "EVM" ? getCommonErc20Events() : getCommonTokenEvents();
+		const events = spec?.events.length ? spec.events : fallbackEvents;
 
 		if (events.length === 0) {
 			// No events found, prompt for manual input
-			const manualSignature = await promptManualSignature("event");
+			const manualSignature = await promptManualSignature("event", networkType);
 			return {
 				monitorType: selectedMonitorType,
 				selectedEvents: [{ signature: manualSignature }],
@@ -228,21 +729,28 @@ async function selectMonitorTargets(spec: ContractSpec | null): Promise<{
 		const selectedEventSignatures = await selectItems(events, "events");
 		return {
 			monitorType: selectedMonitorType,
-			selectedEvents: selectedEventSignatures.map((sig) => ({ signature: sig })),
+			selectedEvents: selectedEventSignatures.map((signature) => ({
+				signature,
+				params: events.find((event) => event.signature === signature)?.fields,
+			})),
 		};
 	}
 
 	// Functions
 	if (spec?.functions.length) {
-		const selectedFunctionSignatures = await selectItems(spec.functions, "functions");
+		const functions = spec.functions;
+		const selectedFunctionSignatures = await selectItems(functions, "functions");
 		return {
 			monitorType: selectedMonitorType,
-			selectedFunctions: selectedFunctionSignatures.map((sig) => ({ signature: sig })),
+			selectedFunctions: selectedFunctionSignatures.map((signature) => ({
+				signature,
+				params: functions.find((fn) => fn.signature === signature)?.inputs,
+			})),
 		};
 	}
 
 	// No functions found, prompt for manual input
-	const manualSignature = await promptManualSignature("function");
+	const manualSignature = await promptManualSignature("function", networkType);
 	return {
 		monitorType: selectedMonitorType,
 		selectedFunctions: [{ signature: manualSignature }],
@@ -275,11 +783,18 @@ async function selectItems(
 /**
  * Prompt for manual signature input when auto-detection fails
  */
-async function promptManualSignature(type: "event" | "function"): Promise<string> {
+async function promptManualSignature(
+	type: "event" | "function",
+	networkType: NetworkPreset["type"],
+): Promise<string> {
 	log.warn(`No ${type}s detected. Please enter a signature manually.`);
 
 	const example =
-		type === "event" ? "transfer(Address,Address,i128)" : "transfer(Address,Address,i128)";
+		networkType === "EVM"
+			? type === "event"
+				? "Transfer(address,address,uint256)"
+				: "transfer(address,uint256)"
+			: "transfer(Address,Address,i128)";
 
 	const signature = await prompts.text({
 		message: `Enter ${type} signature:`,
@@ -289,7 +804,7 @@ async function promptManualSignature(type: "event" | "function"): Promise<string
 				return "Signature is required";
 			}
 			if (!input.includes("(")) {
-				return "Signature should include parameters, e.g., transfer(Address,Address,i128)";
+				return `Signature should include parameters, e.g., ${example}`;
 			}
 		},
 	});
@@ -299,30 +814,104 @@ async function promptManualSignature(type: "event" | "function"): Promise<string
 }
 
 /**
- * Confirm using saved config
+ * Confirm using a saved profile
  */
-export async function confirmUseSavedConfig(tool: string): Promise<boolean> {
+export async function confirmUseSavedConfig(tool: string, profile: string): Promise<boolean> {
 	const useSaved = await prompts.confirm({
-		message: `Found saved ${tool} configuration. Use it?`,
+		message: `Found saved ${tool} profile "${profile}". Use it?`,
 		initialValue: true,
 	});
 	handleCancel(useSaved);
 	return useSaved as boolean;
 }
 
+/**
+ * Select one of the saved profiles, or null to configure a new one
+ */
+export async function selectSavedProfile(
+	tool: string,
+	profiles: Record<string, UserConfig>,
+): Promise<string | null> {
+	const newProfile = "__new__";
+	const names = Object.keys(profiles);
+
+	const selected = await prompts.select({
+		message: `Found saved ${tool} profiles. Which one?`,
+		options: [
+			...names.map((name) => {
+				const config = profiles[name];
+				const contract = config ? describeContracts(config.contracts, 1) : undefined;
+				return {
+					value: name,
+					label: name,
+					hint: config ? `${contract} on ${config.network}` : undefined,
+				};
+			}),
+			{ value: newProfile, label: "Configure a new profile" },
+		],
+		initialValue: names.includes(DEFAULT_PROFILE) ? DEFAULT_PROFILE : names[0],
+	});
+	handleCancel(selected);
+
+	return selected === newProfile ? null : (selected as string);
+}
+
+/**
+ * Prompt for the name to save a new configuration under
+ */
+export async function promptProfileName(existing: string[]): Promise<string> {
+	const name = await prompts.text({
+		message: "Save this configuration as profile:",
+		initialValue: existing.includes(DEFAULT_PROFILE) ? "" : DEFAULT_PROFILE,
+		placeholder: "e.g. usdc-mainnet",
+		validate: (input) => {
+			if (!isValidProfileName(input.trim())) {
+				return 'Use letters, digits, ".", "_" and "-"';
+			}
+		},
+	});
+	handleCancel(name);
+
+	const profile = (name as string).trim();
+	if (existing.includes(profile)) {
+		const overwrite = await prompts.confirm({
+			message: `Profile "${profile}" already exists. Overwrite it?`,
+			initialValue: false,
+		});
+		handleCancel(overwrite);
+		if (!overwrite) {
+			return promptProfileName(existing);
+		}
+	}
+
+	return profile;
+}
+
 /**
  * Display configuration summary
  */
-export function displayConfigSummary(config: UserConfig): void {
-	const networkInfo = NETWORK_PRESETS[config.network];
+export function displayConfigSummary(config: UserConfig, profile?: string): void {
+	const networkInfo = getNetwork(config.network);
 	const summary = [
+		...(profile ? [`Profile:      ${profile}`] : []),
 		`Network:      ${networkInfo?.name || config.network}`,
-		`Contract:     ${config.contractName || config.contractAddress}`,
-		`Threshold:    ${config.threshold} tokens`,
+		`${config.contracts.length > 1 ? "Contracts:   " : "Contract:    "} ${describeContracts(config.contracts)}`,
+		`Threshold:    ${formatThreshold(config.threshold, config.token)}`,
 		`Alerts via:   ${config.notificationType}`,
+		...(config.message ? ["Message:      custom"] : []),
+		...[...(config.selectedEvents ?? []), ...(config.selectedFunctions ?? [])]
+			.filter((condition) => condition.expression !== undefined)
+			.map(
+				(condition) =>
+					`Filter:       ${condition.signature}: ${condition.expression || "none, every occurrence matches"}`,
+			),
 	].join("\n");
 
 	note(summary, "Configuration");
+
+	for (const warning of getMatchWarnings(config)) {
+		log.warn(warning);
+	}
 }
 
 /**
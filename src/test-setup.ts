@@ -0,0 +1,8 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Paths are fixed when ./lib/paths.ts loads, so this must be set before any test imports it
+const home = mkdtempSync(join(tmpdir(), "blip0-test-"));
+process.env.BLIP0_HOME = home;
+process.on("exit", () => rmSync(home, { recursive: true, force: true }));
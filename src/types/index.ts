@@ -1,10 +1,20 @@
 // Monitor type selection
 export type MonitorType = "events" | "functions" | "transactions";
 
+// A parameter of a matched event or function, as described by the contract spec
+export interface MatchParam {
+	name: string;
+	type: string;
+	// Event fields only: emitted as a topic or in the event data
+	location?: "topic" | "data";
+}
+
 // Match condition for events/functions
 export interface MatchCondition {
 	signature: string;
+	// Unset compares against the threshold; empty matches every occurrence
 	expression?: string;
+	params?: MatchParam[];
 }
 
 // Transaction match condition
@@ -16,21 +26,54 @@ export interface TransactionCondition {
 // User configuration stored in ~/.blip0/
 export interface UserConfig {
 	network: string;
-	contractAddress: string;
-	contractName?: string;
+	contracts: ContractTarget[];
+	// Threshold in base units; token describes its human representation
 	threshold: string;
+	token?: TokenInfo;
 	notificationType: "discord" | "telegram" | "slack" | "webhook";
 	webhookUrl: string;
+	webhook?: WebhookOptions;
 	// New fields for contract introspection
 	monitorType?: MonitorType;
 	selectedEvents?: MatchCondition[];
 	selectedFunctions?: MatchCondition[];
 	selectedTransactions?: TransactionCondition;
+	// Custom alert title/body; unset parts use the default for the monitor type
+	message?: Partial<AlertMessage>;
+}
+
+// Alert title and body, with {{PLACEHOLDER}} and ${oz.variable} references
+export interface AlertMessage {
+	title: string;
+	body: string;
+}
+
+// A contract watched by a monitor
+export interface ContractTarget {
+	address: string;
+	name?: string;
+	// ABI file or URL for EVM contracts (falls back to the network's explorer)
+	abiSource?: string;
+}
+
+// Token metadata used to show and parse human amounts
+export interface TokenInfo {
+	decimals: number;
+	symbol?: string;
+}
+
+// Generic HTTP webhook settings
+export interface WebhookOptions {
+	method: WebhookMethod;
+	headers?: Record<string, string>;
+	secret?: string;
 }
 
-// Blip0 saved configs
+export type WebhookMethod = "POST" | "PUT" | "PATCH";
+
+// Blip0 saved configs, as named profiles per tool
 export interface SavedConfig {
-	[toolName: string]: UserConfig;
+	[toolName: string]: { [profileName: string]: UserConfig };
 }
 
 // Template variables for substitution
@@ -40,24 +83,58 @@ export interface TemplateVars {
 	CONTRACT_ADDRESS: string;
 	CONTRACT_NAME: string;
 	THRESHOLD: string;
-	WEBHOOK_URL: string;
+	THRESHOLD_DISPLAY: string;
+	// Env vars holding secrets, see secret-store.ts
+	WEBHOOK_URL_ENV: string;
 	TRIGGER_ID: string;
 	TRIGGER_TYPE: string;
 	MONITOR_NAME: string;
-	TELEGRAM_TOKEN?: string;
+	TELEGRAM_TOKEN_ENV?: string;
 	TELEGRAM_CHAT_ID?: string;
+	WEBHOOK_METHOD?: string;
+	WEBHOOK_SECRET_ENV?: string;
+	// Alert message, already filled in and formatted for the channel
+	MESSAGE_TITLE: string;
+	MESSAGE_BODY: string;
 }
 
-// Network presets
+// Template variables available inside alert messages
+export type MessageVars = Pick<
+	TemplateVars,
+	| "NETWORK_SLUG"
+	| "NETWORK_NAME"
+	| "CONTRACT_ADDRESS"
+	| "CONTRACT_NAME"
+	| "THRESHOLD"
+	| "THRESHOLD_DISPLAY"
+	| "MONITOR_NAME"
+>;
+
+// Network presets, built in or added to the network registry
 export interface NetworkPreset {
 	slug: string;
 	name: string;
 	type: "Stellar" | "EVM";
+	// RPC used by blip0 itself, e.g. for contract introspection
 	rpcUrl: string;
+	// Every RPC the monitor balances across; defaults to rpcUrl alone
+	rpcUrls?: RpcEndpoint[];
 	networkPassphrase?: string;
 	chainId?: number;
 	blockTimeMs: number;
-	explorerUrl: string;
+	confirmationBlocks?: number;
+	cronSchedule?: string;
+	maxPastBlocks?: number;
+	storeBlocks?: boolean;
+	explorerUrl?: string;
+	// Etherscan-compatible API used to fetch verified ABIs (EVM only)
+	explorerApiUrl?: string;
+}
+
+// An RPC endpoint with its OZ Monitor load-balancing weight (0-100)
+export interface RpcEndpoint {
+	url: string;
+	weight: number;
 }
 
 // OZ Monitor network config
@@ -109,10 +186,14 @@ export interface OZTriggerConfig {
 		trigger_type: string;
 		config: {
 			discord_url?: { type: string; value: string };
-			telegram_token?: { type: string; value: string };
-			telegram_chat_id?: string;
+			token?: { type: string; value: string };
+			chat_id?: string;
 			slack_url?: { type: string; value: string };
 			webhook_url?: { type: string; value: string };
+			url?: { type: string; value: string };
+			method?: string;
+			secret?: { type: string; value: string };
+			headers?: Record<string, string>;
 			message: {
 				title: string;
 				body: string;
@@ -121,13 +202,30 @@ export interface OZTriggerConfig {
 	};
 }
 
+/**
+ * How a session's monitor runs: the native binary, or the official Docker image
+ */
+export type RuntimeBackend = "binary" | "docker";
+
 // Runtime session info
 export interface SessionInfo {
 	id: string;
 	tool: string;
+	profile?: string;
 	configPath: string;
 	pid?: number;
+	// Process start time and command line, checked to detect pid reuse
+	processStartedAt?: string;
+	command?: string;
+	// Sessions without a runtime run the binary
+	runtime?: RuntimeBackend;
 	containerId?: string;
+	// Image a docker session runs
+	image?: string;
+	// OZ Monitor version the session was started with
+	binaryVersion?: string;
+	// Env vars injected into the monitor, mapped to the names of the secrets they carry
+	secretEnv?: Record<string, string>;
 	startedAt: Date;
 	status: "running" | "stopped" | "error";
 }